@@ -8,6 +8,7 @@ import { AppProvider } from "@/context/AppContext";
 import Camera from "@/pages/Camera";
 import Crop from "@/pages/Crop";
 import Result from "@/pages/Result";
+import Accuracy from "@/pages/Accuracy";
 import Header from "@/components/Header";
 
 function Router() {
@@ -16,6 +17,7 @@ function Router() {
       <Route path="/" component={Camera} />
       <Route path="/crop" component={Crop} />
       <Route path="/result" component={Result} />
+      <Route path="/accuracy" component={Accuracy} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,117 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { Resolution } from "@/hooks/useCamera";
+import { Flashlight, ZoomIn } from "lucide-react";
+
+interface CameraControlsProps {
+  devices: MediaDeviceInfo[];
+  activeDeviceId: string | null;
+  onSelectDevice: (deviceId: string) => void;
+  resolution: Resolution;
+  supportedResolutions: Resolution[];
+  onSelectResolution: (resolution: Resolution) => void;
+  torchSupported: boolean;
+  torch: boolean;
+  onTorchChange: (enabled: boolean) => void;
+  zoomRange: { min: number; max: number; step: number } | null;
+  zoom: number;
+  onZoomChange: (zoom: number) => void;
+}
+
+const resolutionKey = (res: Resolution) => `${res.width}x${res.height}`;
+
+export default function CameraControls({
+  devices,
+  activeDeviceId,
+  onSelectDevice,
+  resolution,
+  supportedResolutions,
+  onSelectResolution,
+  torchSupported,
+  torch,
+  onTorchChange,
+  zoomRange,
+  zoom,
+  onZoomChange,
+}: CameraControlsProps) {
+  const hasZoom = zoomRange !== null && zoomRange.max > zoomRange.min;
+
+  if (devices.length <= 1 && supportedResolutions.length === 0 && !torchSupported && !hasZoom) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 bg-white rounded-lg shadow-sm p-3 flex flex-col gap-3">
+      {devices.length > 1 && (
+        <div>
+          <Label className="text-xs text-gray-500">Camera</Label>
+          <Select value={activeDeviceId ?? undefined} onValueChange={onSelectDevice}>
+            <SelectTrigger className="mt-1 h-8 text-xs">
+              <SelectValue placeholder="Select camera" />
+            </SelectTrigger>
+            <SelectContent>
+              {devices.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId} className="text-xs">
+                  {device.label || `Camera ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      
+      {supportedResolutions.length > 0 && (
+        <div>
+          <Label className="text-xs text-gray-500">Resolution</Label>
+          <Select
+            value={resolutionKey(resolution)}
+            onValueChange={(value) => {
+              const selected = supportedResolutions.find(res => resolutionKey(res) === value);
+              if (selected) onSelectResolution(selected);
+            }}
+          >
+            <SelectTrigger className="mt-1 h-8 text-xs">
+              <SelectValue placeholder="Select resolution" />
+            </SelectTrigger>
+            <SelectContent>
+              {supportedResolutions.map((res) => (
+                <SelectItem key={resolutionKey(res)} value={resolutionKey(res)} className="text-xs">
+                  {res.width} × {res.height}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      
+      {torchSupported && (
+        <div className="flex items-center gap-2">
+          <Switch id="camera-torch" checked={torch} onCheckedChange={onTorchChange} />
+          <Label htmlFor="camera-torch" className="flex items-center text-gray-600">
+            <Flashlight className="h-4 w-4 mr-1" />
+            Flash
+          </Label>
+        </div>
+      )}
+      
+      {zoomRange && hasZoom && (
+        <div>
+          <Label className="flex items-center text-xs text-gray-500">
+            <ZoomIn className="h-3 w-3 mr-1" />
+            Zoom {zoom.toFixed(1)}×
+          </Label>
+          <Slider
+            className="mt-2"
+            min={zoomRange.min}
+            max={zoomRange.max}
+            step={zoomRange.step}
+            value={[zoom]}
+            onValueChange={([value]) => onZoomChange(value)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,34 +1,76 @@
 import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import Webcam from "react-webcam";
 import CircleOverlay from "./CircleOverlay";
 import { useCamera } from "@/hooks/useCamera";
+import { useAutoCapture } from "@/hooks/useAutoCapture";
+import { useCaptureQuality } from "@/hooks/useCaptureQuality";
+import { useBurstCapture } from "@/hooks/useBurstCapture";
+import QualityMeter from "./QualityMeter";
+import CameraControls from "./CameraControls";
+import {
+  CaptureQuality,
+  CapturedFrame,
+  CaptureQualityThresholds,
+  DEFAULT_QUALITY_THRESHOLDS,
+  getCaptureQualityIssues,
+} from "@/lib/frameAnalysis";
 import { useToast } from "@/hooks/use-toast";
 import { useAppContext } from "@/context/AppContext";
 import { Loader, RefreshCw } from "lucide-react";
 
 interface CameraViewProps {
-  onCapture: (imageData: string) => void;
+  onCapture: (imageData: string, quality?: CaptureQuality, burstFrames?: CapturedFrame[]) => void;
+  qualityThresholds?: CaptureQualityThresholds;
+  // "warn" captures anyway and tells the user why the photo may be poor; "block" refuses
+  qualityGate?: "off" | "warn" | "block";
+  burstFrameCount?: number; // Frames grabbed per capture in burst mode
 }
 
-export default function CameraView({ onCapture }: CameraViewProps) {
+// Diameter of the CircleOverlay guide in CSS pixels
+const OVERLAY_SIZE = 240;
+
+export default function CameraView({
+  onCapture,
+  qualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+  qualityGate = "warn",
+  burstFrameCount = 7,
+}: CameraViewProps) {
   const webcamRef = useRef<Webcam>(null);
   const { toast } = useToast();
   const { setIsFrontCamera } = useAppContext();
   const [isCameraLoading, setIsCameraLoading] = useState(true);
+  const [isAutoCaptureEnabled, setIsAutoCaptureEnabled] = useState(false);
+  const [isBurstEnabled, setIsBurstEnabled] = useState(false);
   
   const {
     hasPermission,
     isSupported,
-    facingMode,
+    isFrontFacing,
     requestCameraPermission,
     toggleFacingMode,
+    devices,
+    activeDeviceId,
+    selectDevice,
+    resolution,
+    supportedResolutions,
+    setResolution,
+    torchSupported,
+    torch,
+    setTorch,
+    zoomRange,
+    zoom,
+    setZoom,
+    videoConstraints,
+    handleStream,
   } = useCamera();
 
   // Update the app context when the facing mode changes
   useEffect(() => {
-    setIsFrontCamera(facingMode === "user");
-  }, [facingMode, setIsFrontCamera]);
+    setIsFrontCamera(isFrontFacing);
+  }, [isFrontFacing, setIsFrontCamera]);
 
   useEffect(() => {
     // Auto-request camera permission when component mounts
@@ -44,12 +86,25 @@ export default function CameraView({ onCapture }: CameraViewProps) {
     return () => clearTimeout(timeoutId);
   }, [isSupported, hasPermission, requestCameraPermission]);
 
-  const handleCapture = () => {
-    if (!webcamRef.current) return;
+  const { quality, measureQuality } = useCaptureQuality(webcamRef, {
+    enabled: qualityGate !== "off" && hasPermission && !isCameraLoading,
+    overlaySize: OVERLAY_SIZE,
+  });
+
+  const isCaptureBlocked =
+    qualityGate === "block" &&
+    quality !== null &&
+    getCaptureQualityIssues(quality, qualityThresholds).length > 0;
+
+  const { isCapturing, captureFrames } = useBurstCapture(webcamRef, measureQuality);
+
+  const handleCapture = async () => {
+    if (!webcamRef.current || isCapturing) return;
     
-    const imageSrc = webcamRef.current.getScreenshot();
+    // In burst mode the sharpest frame wins; the rest are kept for later OCR passes
+    const [bestFrame, ...otherFrames] = await captureFrames(isBurstEnabled ? burstFrameCount : 1);
     
-    if (!imageSrc) {
+    if (!bestFrame) {
       toast({
         variant: "destructive",
         title: "Capture Error",
@@ -58,9 +113,35 @@ export default function CameraView({ onCapture }: CameraViewProps) {
       return;
     }
     
-    onCapture(imageSrc);
+    const issues = qualityGate !== "off" && bestFrame.quality
+      ? getCaptureQualityIssues(bestFrame.quality, qualityThresholds)
+      : [];
+    
+    if (issues.length > 0 && qualityGate === "block") {
+      toast({
+        variant: "destructive",
+        title: "Capture Blocked",
+        description: `${issues.join(". ")}. Adjust the tin or lighting and try again.`,
+      });
+      return;
+    }
+    
+    if (issues.length > 0) {
+      toast({
+        title: "Low Quality Capture",
+        description: `${issues.join(". ")}. Text recognition may be less accurate.`,
+      });
+    }
+    
+    onCapture(bestFrame.imageData, bestFrame.quality ?? undefined, otherFrames);
   };
 
+  const { progress: autoCaptureProgress } = useAutoCapture(webcamRef, {
+    enabled: isAutoCaptureEnabled && hasPermission && !isCameraLoading,
+    overlaySize: OVERLAY_SIZE,
+    onCapture: handleCapture,
+  });
+
   if (!isSupported) {
     return (
       <div className="camera-container flex-1 bg-black rounded-lg overflow-hidden flex items-center justify-center">
@@ -101,13 +182,13 @@ export default function CameraView({ onCapture }: CameraViewProps) {
           ref={webcamRef}
           audio={false}
           screenshotFormat="image/jpeg"
-          videoConstraints={{
-            facingMode,
-            width: { ideal: 1280 },
-            height: { ideal: 720 }
+          videoConstraints={videoConstraints}
+          forceScreenshotSourceSize
+          mirrored={isFrontFacing}
+          onUserMedia={(stream) => {
+            handleStream(stream);
+            setIsCameraLoading(false);
           }}
-          mirrored={facingMode === "user"}
-          onUserMedia={() => setIsCameraLoading(false)}
           onUserMediaError={(error) => {
             console.error("Camera error:", error);
             toast({
@@ -120,18 +201,58 @@ export default function CameraView({ onCapture }: CameraViewProps) {
           className="w-full h-auto"
         />
         
-        <CircleOverlay size={240} />
+        <CircleOverlay size={OVERLAY_SIZE} progress={autoCaptureProgress} />
       </div>
       
+      {qualityGate !== "off" && (
+        <QualityMeter quality={quality} thresholds={qualityThresholds} />
+      )}
+      
       <div className="mt-6 flex justify-center items-center">
         <Button 
           onClick={handleCapture}
+          disabled={isCaptureBlocked || isCapturing}
           className="capture-btn bg-white border-4 border-primary rounded-full w-16 h-16 flex items-center justify-center p-0"
         >
           <div className="bg-primary rounded-full w-12 h-12"></div>
         </Button>
       </div>
       
+      <div className="mt-4 flex justify-center items-center gap-2">
+        <Switch
+          id="auto-capture"
+          checked={isAutoCaptureEnabled}
+          onCheckedChange={setIsAutoCaptureEnabled}
+        />
+        <Label htmlFor="auto-capture" className="text-gray-600">
+          Hands-free capture
+        </Label>
+        <Switch
+          id="burst-capture"
+          checked={isBurstEnabled}
+          onCheckedChange={setIsBurstEnabled}
+          className="ml-4"
+        />
+        <Label htmlFor="burst-capture" className="text-gray-600">
+          Burst mode
+        </Label>
+      </div>
+      
+      <CameraControls
+        devices={devices}
+        activeDeviceId={activeDeviceId}
+        onSelectDevice={selectDevice}
+        resolution={resolution}
+        supportedResolutions={supportedResolutions}
+        onSelectResolution={setResolution}
+        torchSupported={torchSupported}
+        torch={torch}
+        onTorchChange={setTorch}
+        zoomRange={zoomRange}
+        zoom={zoom}
+        onZoomChange={setZoom}
+      />
+      
       <div className="mt-4 flex justify-center">
         <Button 
           variant="ghost" 
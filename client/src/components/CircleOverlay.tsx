@@ -1,8 +1,13 @@
 interface CircleOverlayProps {
   size: number;
+  progress?: number; // 0-1, draws a countdown ring around the circle when above 0
 }
 
-export default function CircleOverlay({ size }: CircleOverlayProps) {
+export default function CircleOverlay({ size, progress = 0 }: CircleOverlayProps) {
+  const strokeWidth = 4;
+  const radius = size / 2 - strokeWidth / 2;
+  const circumference = 2 * Math.PI * radius;
+
   return (
     <div 
       className="absolute pointer-events-none"
@@ -16,6 +21,27 @@ export default function CircleOverlay({ size }: CircleOverlayProps) {
         left: '50%',
         transform: 'translate(-50%, -50%)',
       }}
-    />
+    >
+      {progress > 0 && (
+        <svg
+          width={size}
+          height={size}
+          className="absolute"
+          style={{ top: '-2px', left: '-2px', transform: 'rotate(-90deg)' }}
+        >
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            fill="none"
+            stroke="hsl(var(--primary))"
+            strokeWidth={strokeWidth}
+            strokeDasharray={circumference}
+            strokeDashoffset={circumference * (1 - Math.min(1, progress))}
+            style={{ transition: 'stroke-dashoffset 150ms linear' }}
+          />
+        </svg>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,541 @@
+import { useState, useEffect, useRef } from "react";
+import {
+  binarizationMethods,
+  describeStep,
+  DEFAULT_PRESET_SET,
+  ENHANCEMENT_OPERATIONS,
+  EnhancementOperation,
+  EnhancementPipeline,
+  EnhancementPresetSet,
+  EnhancementStep,
+  parsePresetSetJSON,
+  serializePresetSet,
+} from "@/lib/enhancementPipeline";
+import { enhanceImageForTextRecognition, isAbortError, loadImagePixels } from "@/lib/imageEnhancer";
+import { colorChannels } from "@/lib/colorChannels";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, Copy, Download, Loader, Plus, Save, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface EnhancementPipelineEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  imageData: string; // Previewed with the pipeline being edited
+  presetSet: EnhancementPresetSet; // The set to start from
+  onSave: (presetSet: EnhancementPresetSet) => void;
+}
+
+// Which step list of a pipeline is being edited
+type StepList = "steps" | "unevenLighting";
+
+// Wait for edits to settle before re-running the preview
+const PREVIEW_DELAY_MS = 300;
+
+function NumberField({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  min: number;
+  max: number;
+  step?: number;
+  placeholder?: string;
+  onChange: (value: number | undefined) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-[11px] text-gray-500">
+      {label}
+      <Input
+        type="number"
+        className="h-7 w-20 text-xs"
+        min={min}
+        max={max}
+        step={step}
+        value={value ?? ""}
+        placeholder={placeholder}
+        onChange={e => {
+          const parsed = parseFloat(e.target.value);
+          onChange(Number.isNaN(parsed) ? undefined : Math.min(max, Math.max(min, parsed)));
+        }}
+      />
+    </label>
+  );
+}
+
+function StepParameters({ step, onChange }: { step: EnhancementStep; onChange: (step: EnhancementStep) => void }) {
+  switch (step.op) {
+    case "bestChannel":
+      // No channels chosen means all of them are candidates
+      return (
+        <div className="flex flex-wrap gap-1">
+          {colorChannels.map(channel => {
+            const selected = step.channels?.includes(channel) ?? false;
+            return (
+              <button
+                key={channel}
+                type="button"
+                className={`text-[10px] rounded border px-1.5 py-0.5 ${selected ? "bg-blue-500 border-blue-500 text-white" : "bg-white border-gray-200 text-gray-600"}`}
+                onClick={() => {
+                  const channels = selected
+                    ? (step.channels ?? []).filter(item => item !== channel)
+                    : [...(step.channels ?? []), channel];
+                  onChange({ ...step, channels: channels.length > 0 ? channels : undefined });
+                }}
+              >
+                {channel}
+              </button>
+            );
+          })}
+          {!step.channels && <span className="text-[10px] text-gray-400 self-center">all candidates</span>}
+        </div>
+      );
+    case "gamma":
+      return (
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-[11px] text-gray-500">
+            <Switch
+              checked={step.gamma === "auto"}
+              onCheckedChange={auto => onChange({ ...step, gamma: auto ? "auto" : 1 })}
+            />
+            Auto
+          </label>
+          {step.gamma !== "auto" && (
+            <NumberField
+              label="Gamma"
+              value={step.gamma}
+              min={0.1}
+              max={5}
+              step={0.1}
+              onChange={gamma => onChange({ ...step, gamma: gamma ?? 1 })}
+            />
+          )}
+        </div>
+      );
+    case "clahe":
+      return (
+        <div className="flex flex-wrap gap-2">
+          <NumberField label="Tiles" value={step.tiles} min={1} max={32}
+            onChange={tiles => onChange({ ...step, tiles: Math.round(tiles ?? 8) })} />
+          <NumberField label="Clip limit" value={step.clipLimit} min={1} max={10} step={0.5}
+            onChange={clipLimit => onChange({ ...step, clipLimit: clipLimit ?? 2 })} />
+        </div>
+      );
+    case "contrast":
+      return (
+        <div className="flex flex-wrap gap-2">
+          <NumberField label="Contrast" value={step.contrast} min={0} max={10} step={0.1}
+            onChange={contrast => onChange({ ...step, contrast: contrast ?? 1 })} />
+          <NumberField label="Brightness" value={step.brightness} min={-255} max={255}
+            onChange={brightness => onChange({ ...step, brightness: brightness ?? 0 })} />
+        </div>
+      );
+    case "binarize":
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={step.method}
+            onValueChange={method => onChange({ ...step, method: method as typeof step.method })}
+          >
+            <SelectTrigger className="h-7 w-28 text-xs capitalize"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {binarizationMethods.map(method => (
+                <SelectItem key={method} value={method} className="capitalize">{method}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {step.method === "fixed" && (
+            <NumberField label="Threshold" value={step.threshold} min={0} max={255}
+              onChange={threshold => onChange({ ...step, threshold: Math.round(threshold ?? 128) })} />
+          )}
+          {(step.method === "sauvola" || step.method === "niblack") && (
+            <>
+              <NumberField label="Window" value={step.windowSize} min={3} max={255} placeholder="auto"
+                onChange={windowSize => onChange({ ...step, windowSize: windowSize && Math.round(windowSize) })} />
+              <NumberField label="k" value={step.k} min={-1} max={1} step={0.05}
+                placeholder={step.method === "sauvola" ? "0.34" : "-0.2"}
+                onChange={k => onChange({ ...step, k })} />
+            </>
+          )}
+        </div>
+      );
+    default:
+      return null;
+  }
+}
+
+// The built-in set can't be overwritten, so edits to it start as a copy
+const editableCopy = (presetSet: EnhancementPresetSet): EnhancementPresetSet => ({
+  ...structuredClone(presetSet),
+  name: presetSet.name === DEFAULT_PRESET_SET.name ? "My presets" : presetSet.name,
+});
+
+export default function EnhancementPipelineEditor({
+  open,
+  onOpenChange,
+  imageData,
+  presetSet,
+  onSave,
+}: EnhancementPipelineEditorProps) {
+  const [draft, setDraft] = useState<EnhancementPresetSet>(() => editableCopy(presetSet));
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [stepList, setStepList] = useState<StepList>("steps");
+  const [importText, setImportText] = useState("");
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Start from the chosen set each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft(editableCopy(presetSet));
+    setActiveIndex(0);
+    setStepList("steps");
+    setImportText("");
+  }, [open, presetSet]);
+
+  useEffect(() => {
+    if (!open) return;
+    loadImagePixels(imageData)
+      .then(setSource)
+      .catch(error => console.error('Error loading the preview image:', error));
+  }, [open, imageData]);
+
+  const pipeline: EnhancementPipeline | undefined = draft.pipelines[activeIndex];
+  const steps = pipeline ? (stepList === "steps" ? pipeline.steps : pipeline.unevenLighting ?? []) : [];
+
+  // Preview the step list being edited; a newer edit cancels the running preview
+  useEffect(() => {
+    if (!open || !source) return;
+    const controller = new AbortController();
+
+    const timer = setTimeout(() => {
+      setIsPreviewing(true);
+      const copy = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+      enhanceImageForTextRecognition(copy, steps, controller.signal)
+        .then(result => {
+          setPreviewUrl(URL.createObjectURL(result.blob));
+          setIsPreviewing(false);
+        })
+        .catch(error => {
+          if (isAbortError(error)) return;
+          console.error('Error previewing the pipeline:', error);
+          setIsPreviewing(false);
+        });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, source, JSON.stringify(steps)]);
+
+  // Free each preview once it has been replaced
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const updatePipeline = (change: (pipeline: EnhancementPipeline) => EnhancementPipeline) => {
+    setDraft(current => ({
+      ...current,
+      pipelines: current.pipelines.map((item, i) => (i === activeIndex ? change(item) : item)),
+    }));
+  };
+
+  const updateSteps = (change: (steps: EnhancementStep[]) => EnhancementStep[]) => {
+    updatePipeline(item =>
+      stepList === "steps"
+        ? { ...item, steps: change(item.steps) }
+        : { ...item, unevenLighting: change(item.unevenLighting ?? []) }
+    );
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    updateSteps(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const addPipeline = () => {
+    setDraft(current => ({
+      ...current,
+      pipelines: [...current.pipelines, { name: `Pipeline ${current.pipelines.length + 1}`, steps: [{ op: "grayscale" }] }],
+    }));
+    setActiveIndex(draft.pipelines.length);
+    setStepList("steps");
+  };
+
+  const removePipeline = () => {
+    setDraft(current => ({ ...current, pipelines: current.pipelines.filter((_, i) => i !== activeIndex) }));
+    setActiveIndex(Math.max(0, activeIndex - 1));
+  };
+
+  const applyImport = (json: string) => {
+    const result = parsePresetSetJSON(json);
+    if (!result.success) {
+      const [first] = result.errors;
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: `${first.path ? `${first.path}: ` : ""}${first.message}` +
+          (result.errors.length > 1 ? ` (and ${result.errors.length - 1} more problems)` : ""),
+      });
+      return;
+    }
+    setDraft(editableCopy(result.presetSet));
+    setActiveIndex(0);
+    setStepList("steps");
+    setImportText("");
+    toast({
+      title: "Presets Imported",
+      description: `${result.presetSet.pipelines.length} pipeline(s) from "${result.presetSet.name}"`,
+    });
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    applyImport(await file.text());
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(serializePresetSet(draft))
+      .then(() => toast({ title: "Copied", description: "The preset set JSON is on the clipboard." }))
+      .catch(() => toast({ variant: "destructive", title: "Copy Failed", description: "Failed to copy the presets." }));
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([serializePresetSet(draft)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${draft.name.replace(/[^\w-]+/g, "-").toLowerCase() || "presets"}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = () => {
+    // Round-trip through the importer so saved sets are exactly what others can import
+    const result = parsePresetSetJSON(serializePresetSet(draft));
+    try {
+      if (!result.success) {
+        const [first] = result.errors;
+        throw new Error(`${first.path ? `${first.path}: ` : ""}${first.message}`);
+      }
+      onSave(result.presetSet);
+      toast({ title: "Presets Saved", description: `"${result.presetSet.name}" is now used for text extraction.` });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving presets:', error);
+      toast({
+        variant: "destructive",
+        title: "Could Not Save",
+        description: error instanceof Error ? error.message : "The presets are invalid.",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Enhancement Presets</DialogTitle>
+          <DialogDescription>
+            Each pipeline runs its steps in order and produces one image for text recognition.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="preset-set-name">Preset set name</Label>
+          <Input
+            id="preset-set-name"
+            value={draft.name}
+            onChange={e => setDraft(current => ({ ...current, name: e.target.value }))}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(activeIndex)} onValueChange={value => { setActiveIndex(Number(value)); setStepList("steps"); }}>
+            <SelectTrigger className="flex-1 text-xs"><SelectValue placeholder="No pipelines" /></SelectTrigger>
+            <SelectContent>
+              {draft.pipelines.map((item, i) => (
+                <SelectItem key={i} value={String(i)}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={addPipeline} title="Add pipeline">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={removePipeline} disabled={!pipeline} title="Remove pipeline">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {pipeline && (
+          <div className="space-y-2 border rounded p-2">
+            <Input
+              value={pipeline.name}
+              onChange={e => updatePipeline(item => ({ ...item, name: e.target.value }))}
+              className="h-8 text-sm"
+            />
+
+            <Tabs value={stepList} onValueChange={value => setStepList(value as StepList)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="steps" className="text-xs">Steps</TabsTrigger>
+                <TabsTrigger value="unevenLighting" className="text-xs">
+                  Uneven lighting{pipeline.unevenLighting ? ` (${pipeline.unevenLighting.length})` : ""}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {stepList === "unevenLighting" && (
+              <div className="flex items-center justify-between text-[11px] text-gray-500">
+                <span>Used instead of the steps when the lighting across the image is uneven.</span>
+                {pipeline.unevenLighting ? (
+                  <Button variant="ghost" size="sm" className="h-6 text-[11px]"
+                    onClick={() => updatePipeline(({ unevenLighting, ...item }) => item)}>
+                    Remove
+                  </Button>
+                ) : (
+                  <Button variant="ghost" size="sm" className="h-6 text-[11px]"
+                    onClick={() => updatePipeline(item => ({ ...item, unevenLighting: structuredClone(item.steps) }))}>
+                    Add
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {(stepList === "steps" || pipeline.unevenLighting) && (
+              <ol className="space-y-1">
+                {steps.map((step, i) => (
+                  <li key={i} className="bg-gray-50 rounded px-2 py-1 space-y-1">
+                    <div className="flex items-center gap-1">
+                      <span className="text-xs flex-1">{i + 1}. {describeStep(step)}</span>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" disabled={i === 0}
+                        onClick={() => moveStep(i, -1)} title="Move up">
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" disabled={i === steps.length - 1}
+                        onClick={() => moveStep(i, 1)} title="Move down">
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-6 w-6"
+                        onClick={() => updateSteps(current => current.filter((_, j) => j !== i))} title="Remove step">
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <StepParameters
+                      step={step}
+                      onChange={changed => updateSteps(current => current.map((item, j) => (j === i ? changed : item)))}
+                    />
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            {(stepList === "steps" || pipeline.unevenLighting) && (
+              <Select
+                value=""
+                onValueChange={op =>
+                  updateSteps(current => [...current, structuredClone(ENHANCEMENT_OPERATIONS[op as EnhancementOperation].defaults)])
+                }
+              >
+                <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Add a step..." /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ENHANCEMENT_OPERATIONS).map(([op, { label }]) => (
+                    <SelectItem key={op} value={op}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <figure>
+                <img src={imageData} alt="Original" className="w-full rounded bg-gray-100 object-contain" />
+                <figcaption className="text-[10px] text-center text-gray-500">Original</figcaption>
+              </figure>
+              <figure className="relative">
+                {previewUrl ? (
+                  <img src={previewUrl} alt="Preview" className="w-full rounded bg-gray-100 object-contain" />
+                ) : (
+                  <div className="aspect-square w-full rounded bg-gray-100" />
+                )}
+                {isPreviewing && <Loader className="absolute top-2 right-2 h-4 w-4 animate-spin text-gray-500" />}
+                <figcaption className="text-[10px] text-center text-gray-500">Preview</figcaption>
+              </figure>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="preset-import">Import</Label>
+          <Textarea
+            id="preset-import"
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+            placeholder="Paste a shared preset set or pipeline (JSON)"
+            className="h-16 text-xs font-mono"
+          />
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={!importText.trim()} onClick={() => applyImport(importText)}>
+              Import text
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-1 h-3 w-3" />
+              Import file
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => handleImportFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy JSON
+          </Button>
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </Button>
+          <Button onClick={handleSave}>
+            <Save className="mr-2 h-4 w-4" />
+            Save and Use
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,17 @@
+import { Link } from "wouter";
+import { BarChart3 } from "lucide-react";
+
 export default function Header() {
   return (
-    <header className="bg-white shadow-sm py-4 px-4 flex justify-center items-center">
+    <header className="relative bg-white shadow-sm py-4 px-4 flex justify-center items-center">
       <h1 className="text-xl font-semibold text-gray-800">CircleCrop</h1>
+      <Link
+        href="/accuracy"
+        className="absolute right-4 text-gray-500 hover:text-gray-800"
+        aria-label="Identification accuracy"
+      >
+        <BarChart3 className="h-5 w-5" />
+      </Link>
     </header>
   );
 }
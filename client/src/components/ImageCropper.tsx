@@ -1,5 +1,8 @@
 import { useState, useCallback } from "react";
 import Cropper from "react-easy-crop";
+import { useCircleDetection } from "@/hooks/useCircleDetection";
+import { CIRCLE_CONFIDENCE_THRESHOLD, circleToCropArea } from "@/lib/circleDetection";
+import { Loader } from "lucide-react";
 
 // Define Area interface locally
 interface Area {
@@ -11,12 +14,22 @@ interface Area {
 
 interface ImageCropperProps {
   imageSrc: string;
+  imageWidth: number;
+  imageHeight: number;
   onCropComplete: (croppedArea: Area, croppedAreaPixels: Area) => void;
+  confidenceThreshold?: number;
 }
 
-export default function ImageCropper({ imageSrc, onCropComplete }: ImageCropperProps) {
+export default function ImageCropper({
+  imageSrc,
+  imageWidth,
+  imageHeight,
+  onCropComplete,
+  confidenceThreshold = CIRCLE_CONFIDENCE_THRESHOLD,
+}: ImageCropperProps) {
   const [crop, setCrop] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
+  const { circle, isDetecting } = useCircleDetection(imageSrc);
 
   const handleCropComplete = useCallback(
     (croppedArea: Area, croppedAreaPixels: Area) => {
@@ -25,6 +38,20 @@ export default function ImageCropper({ imageSrc, onCropComplete }: ImageCropperP
     [onCropComplete]
   );
 
+  if (isDetecting) {
+    return (
+      <div className="relative w-full h-full flex items-center justify-center" style={{ height: '400px' }}>
+        <Loader className="h-8 w-8 text-white animate-spin" />
+      </div>
+    );
+  }
+
+  // Start framed on the detected lid; fall back to the default centered crop when unsure
+  const initialCroppedAreaPixels =
+    circle && circle.confidence >= confidenceThreshold
+      ? circleToCropArea(circle, imageWidth, imageHeight)
+      : undefined;
+
   return (
     <div className="relative w-full h-full" style={{ height: '400px' }}>
       <Cropper
@@ -38,6 +65,7 @@ export default function ImageCropper({ imageSrc, onCropComplete }: ImageCropperP
         onCropComplete={handleCropComplete}
         onZoomChange={setZoom}
         objectFit="horizontal-cover"
+        initialCroppedAreaPixels={initialCroppedAreaPixels}
       />
     </div>
   );
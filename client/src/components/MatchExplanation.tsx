@@ -0,0 +1,132 @@
+import { useMemo, useState } from "react";
+import { HybridMatch, HybridWeights } from "@/lib/vectorDatabase";
+import { FEATURE_BLOCK_LABELS } from "@/lib/featureExtractor";
+import { explainVisualMatch, highlightOcrText, scoreShares } from "@/lib/matchExplanation";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, ImageOff } from "lucide-react";
+
+interface MatchExplanationProps {
+  match: HybridMatch;
+  weights: HybridWeights;
+  featureVector?: number[];
+  ocrText: string;
+  imageData?: string; // The user's lid crop
+}
+
+// Dimensions listed in the expanded view
+const TOP_CONTRIBUTIONS = 8;
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function Thumbnail({ src, label }: { src?: string; label: string }) {
+  return (
+    <figure className="flex flex-col items-center shrink-0">
+      {src ? (
+        <img src={src} alt={label} className="h-14 w-14 rounded-full object-cover border border-gray-200" />
+      ) : (
+        <div className="h-14 w-14 rounded-full border border-dashed border-gray-300 flex items-center justify-center text-gray-400">
+          <ImageOff className="h-4 w-4" />
+        </div>
+      )}
+      <figcaption className="text-[10px] text-gray-500 mt-0.5">{label}</figcaption>
+    </figure>
+  );
+}
+
+export default function MatchExplanation({
+  match,
+  weights,
+  featureVector,
+  ocrText,
+  imageData,
+}: MatchExplanationProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const shares = scoreShares(match, weights);
+  const referenceImage = match.product.details?.referenceImages?.[0];
+
+  const visual = useMemo(
+    () => (featureVector ? explainVisualMatch(featureVector, match.product) : null),
+    [featureVector, match.product]
+  );
+  const segments = useMemo(
+    () => (match.textMatch ? highlightOcrText(ocrText, match.textMatch.matchedTokens) : []),
+    [ocrText, match.textMatch]
+  );
+
+  const topContributions = visual?.contributions.slice(0, TOP_CONTRIBUTIONS) ?? [];
+  const largest = topContributions[0]?.contribution ?? 0;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-2">
+        <Thumbnail src={imageData} label="Your photo" />
+        <Thumbnail src={referenceImage} label="Reference" />
+        <div className="flex-1 min-w-0">
+          <div className="flex h-2 rounded overflow-hidden bg-gray-200">
+            <div className="bg-blue-500" style={{ width: percent(shares.visual) }} />
+            <div className="bg-amber-400" style={{ width: percent(shares.text) }} />
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 mt-0.5">
+            <span>{percent(shares.visual)} of the score from visual features</span>
+            {match.textScore !== null && <span>{percent(shares.text)} from text</span>}
+          </div>
+        </div>
+      </div>
+
+      {segments.some(segment => segment.matched) && (
+        <p className="mt-2 text-xs text-gray-600 whitespace-pre-wrap break-words">
+          {segments.map((segment, index) =>
+            segment.matched ? (
+              <mark key={index} className="bg-amber-200 rounded px-0.5">{segment.text}</mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+        </p>
+      )}
+
+      {visual && (
+        <Collapsible open={isExpanded} onOpenChange={setIsExpanded}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="mt-1 h-7 px-2 text-xs flex items-center">
+              {isExpanded ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+              Why it looks similar
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="mt-1 space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {visual.blocks.map(({ block, contribution }) => (
+                <span key={block} className="text-[10px] text-gray-600 bg-white border border-gray-200 rounded px-1.5 py-0.5">
+                  {FEATURE_BLOCK_LABELS[block]} +{(contribution * 100).toFixed(0)} pts
+                </span>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {topContributions.map(item => (
+                <div key={item.dimension} className="text-[10px] text-gray-600">
+                  <div className="flex justify-between">
+                    <span className="truncate">{item.label}</span>
+                    <span className="ml-2 shrink-0">
+                      {item.query.toFixed(2)} / {item.product.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="h-1 rounded bg-gray-200">
+                    <div
+                      className="h-1 rounded bg-blue-500"
+                      style={{ width: percent(largest > 0 ? item.contribution / largest : 0) }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-gray-400">
+              Contributions to the {percent(visual.similarity)} descriptor similarity
+              {visual.view > 0 && ` with reference view ${visual.view + 1}`}; values are your photo / the product.
+            </p>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import type { FeedbackVerdict } from "@shared/feedback";
+import { productVectors, HybridMatch } from "@/lib/vectorDatabase";
+import { MatchDecision } from "@/lib/matchDecision";
+import {
+  submitMatchFeedback,
+  feedbackCandidate,
+  describeFeedbackActions,
+} from "@/lib/matchFeedback";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Loader, ThumbsUp, ThumbsDown, Send, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface MatchFeedbackPanelProps {
+  decision: MatchDecision;
+  matches: HybridMatch[];
+  featureVector?: number[];
+  ocrText?: string;
+}
+
+// Picker value for "the product isn't in the catalog"
+const NOT_IN_CATALOG = "__not-in-catalog__";
+
+export default function MatchFeedbackPanel({
+  decision,
+  matches,
+  featureVector,
+  ocrText,
+}: MatchFeedbackPanelProps) {
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [correctProductId, setCorrectProductId] = useState<string>("");
+  const [isSending, setIsSending] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Each new identification gets its own feedback
+  useEffect(() => {
+    setIsCorrecting(false);
+    setCorrectProductId("");
+    setSummary(null);
+  }, [decision]);
+
+  const candidate = feedbackCandidate(decision);
+  if (!candidate) return null;
+
+  const otherProducts = productVectors
+    .filter(product => product.id !== candidate.product.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const sendFeedback = async (verdict: FeedbackVerdict, correctId?: string) => {
+    setIsSending(true);
+    try {
+      const result = await submitMatchFeedback(decision, matches, {
+        verdict,
+        correctProductId: correctId,
+        featureVector,
+        ocrText,
+      });
+      setSummary(describeFeedbackActions(result.feedback.actions));
+    } catch (error) {
+      console.error('Error sending feedback:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save your feedback",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSendCorrection = () => {
+    if (correctProductId === NOT_IN_CATALOG) sendFeedback("rejected");
+    else sendFeedback("corrected", correctProductId);
+  };
+
+  if (summary) {
+    return (
+      <div className="mt-3 flex items-start text-xs text-gray-600">
+        <Check className="h-3 w-3 mr-1 mt-0.5 text-green-500 shrink-0" />
+        {summary}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 p-3 rounded border border-gray-200">
+      <p className="text-xs text-gray-600 mb-2">
+        Is this <span className="font-medium">{candidate.product.name}</span>?
+      </p>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => sendFeedback("confirmed")}
+          disabled={isSending}
+          className="flex items-center"
+        >
+          <ThumbsUp className="mr-1 h-4 w-4" />
+          Yes
+        </Button>
+        <Button
+          size="sm"
+          variant={isCorrecting ? "secondary" : "outline"}
+          onClick={() => setIsCorrecting(!isCorrecting)}
+          disabled={isSending}
+          className="flex items-center"
+        >
+          <ThumbsDown className="mr-1 h-4 w-4" />
+          No
+        </Button>
+        {isSending && <Loader className="h-4 w-4 animate-spin self-center text-gray-500" />}
+      </div>
+
+      {isCorrecting && (
+        <div className="mt-2 flex gap-2">
+          <Select value={correctProductId} onValueChange={setCorrectProductId}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue placeholder="Which product is it?" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_IN_CATALOG}>Not in the catalog</SelectItem>
+              {otherProducts.map(product => (
+                <SelectItem key={product.id} value={product.id}>
+                  {product.name} ({product.id})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={handleSendCorrection}
+            disabled={!correctProductId || isSending}
+            className="flex items-center"
+          >
+            <Send className="mr-1 h-4 w-4" />
+            Send
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef, PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { fitLidEllipse, ellipseControlPoints, rectifyImage, Point } from "@/lib/perspective";
+import { Loader, RotateCcw, Check } from "lucide-react";
+
+interface PerspectiveEditorProps {
+  imageSrc: string;
+  imageWidth: number;
+  imageHeight: number;
+  onApply: (rectifiedImage: string) => void;
+  onCancel: () => void;
+}
+
+// Fallback outline when no ellipse could be fitted: a circle in the middle of the photo
+const defaultControlPoints = (width: number, height: number): Point[] => {
+  const radius = Math.min(width, height) * 0.35;
+  return [
+    { x: width / 2 + radius, y: height / 2 },
+    { x: width / 2, y: height / 2 + radius },
+    { x: width / 2 - radius, y: height / 2 },
+    { x: width / 2, y: height / 2 - radius },
+  ];
+};
+
+export default function PerspectiveEditor({
+  imageSrc,
+  imageWidth,
+  imageHeight,
+  onApply,
+  onCancel,
+}: PerspectiveEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [fittedPoints, setFittedPoints] = useState<Point[] | null>(null);
+  const [controlPoints, setControlPoints] = useState<Point[] | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const { toast } = useToast();
+
+  // Fit the lid ellipse once to seed the control points
+  useEffect(() => {
+    let cancelled = false;
+
+    fitLidEllipse(imageSrc)
+      .then((ellipse) => {
+        if (cancelled) return;
+        const points = ellipse
+          ? ellipseControlPoints(ellipse)
+          : defaultControlPoints(imageWidth, imageHeight);
+        setFittedPoints(points);
+        setControlPoints(points);
+      })
+      .catch((error) => {
+        console.error("Ellipse fitting error:", error);
+        if (cancelled) return;
+        const points = defaultControlPoints(imageWidth, imageHeight);
+        setFittedPoints(points);
+        setControlPoints(points);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc, imageWidth, imageHeight]);
+
+  const toImagePoint = (event: PointerEvent<SVGSVGElement>): Point | null => {
+    const svg = svgRef.current;
+    if (!svg) return null;
+    const rect = svg.getBoundingClientRect();
+    return {
+      x: Math.min(imageWidth, Math.max(0, ((event.clientX - rect.left) / rect.width) * imageWidth)),
+      y: Math.min(imageHeight, Math.max(0, ((event.clientY - rect.top) / rect.height) * imageHeight)),
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null || !controlPoints) return;
+    const point = toImagePoint(event);
+    if (!point) return;
+
+    setControlPoints(controlPoints.map((p, i) => (i === dragIndex ? point : p)));
+  };
+
+  const handleApply = async () => {
+    if (!controlPoints) return;
+
+    setIsApplying(true);
+    try {
+      onApply(await rectifyImage(imageSrc, controlPoints));
+    } catch (error) {
+      console.error("Perspective correction error:", error);
+      toast({
+        variant: "destructive",
+        title: "Correction Error",
+        description: error instanceof Error ? error.message : "Failed to correct the perspective.",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (!controlPoints) {
+    return (
+      <div className="relative w-full flex items-center justify-center" style={{ height: '400px' }}>
+        <Loader className="h-8 w-8 text-white animate-spin" />
+      </div>
+    );
+  }
+
+  const handleRadius = Math.max(imageWidth, imageHeight) / 40;
+
+  return (
+    <div className="w-full flex flex-col">
+      <div className="relative w-full">
+        <img src={imageSrc} alt="Photo to correct" className="w-full h-auto block" />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+          className="absolute inset-0 w-full h-full touch-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragIndex(null)}
+          onPointerLeave={() => setDragIndex(null)}
+        >
+          <polygon
+            points={controlPoints.map(p => `${p.x},${p.y}`).join(" ")}
+            fill="rgba(255, 255, 255, 0.1)"
+            stroke="white"
+            strokeWidth={handleRadius / 4}
+            strokeDasharray={`${handleRadius / 2} ${handleRadius / 2}`}
+          />
+          {controlPoints.map((point, index) => (
+            <circle
+              key={index}
+              cx={point.x}
+              cy={point.y}
+              r={handleRadius}
+              fill="hsl(var(--primary))"
+              stroke="white"
+              strokeWidth={handleRadius / 4}
+              className="cursor-move"
+              onPointerDown={(event) => {
+                event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+                setDragIndex(index);
+              }}
+            />
+          ))}
+        </svg>
+      </div>
+
+      <p className="text-xs text-center mt-2 text-gray-300">
+        Drag the points onto the rim of the lid
+      </p>
+
+      <div className="mt-3 mb-3 flex justify-center gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} disabled={isApplying}>
+          Cancel
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setControlPoints(fittedPoints)}
+          disabled={isApplying}
+          className="flex items-center"
+        >
+          <RotateCcw className="mr-1 h-4 w-4" />
+          Reset
+        </Button>
+        <Button size="sm" onClick={handleApply} disabled={isApplying} className="flex items-center">
+          {isApplying ? (
+            <Loader className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="mr-1 h-4 w-4" />
+          )}
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
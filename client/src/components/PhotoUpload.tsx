@@ -0,0 +1,89 @@
+import { useRef, useState, DragEvent, ChangeEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { loadImageFile, LoadedImage, SUPPORTED_UPLOAD_TYPES } from "@/lib/imageUtils";
+import { Loader, Upload } from "lucide-react";
+
+interface PhotoUploadProps {
+  onUpload: (image: LoadedImage) => void;
+}
+
+export default function PhotoUpload({ onUpload }: PhotoUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    
+    setIsLoading(true);
+    try {
+      const image = await loadImageFile(file);
+      onUpload(image);
+    } catch (error) {
+      console.error("Upload error:", error);
+      toast({
+        variant: "destructive",
+        title: "Upload Error",
+        description: error instanceof Error ? error.message : "Failed to load the selected image.",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
+    handleFile(event.target.files?.[0]);
+    // Reset so picking the same file again still fires a change event
+    event.target.value = "";
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFile(event.dataTransfer.files?.[0]);
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`mt-4 p-4 border-2 border-dashed rounded-lg flex flex-col items-center transition-colors duration-200 ${
+        isDragging ? "border-primary bg-blue-50" : "border-gray-300"
+      }`}
+    >
+      <input
+        ref={inputRef}
+        type="file"
+        accept={SUPPORTED_UPLOAD_TYPES.join(",")}
+        onChange={handleInputChange}
+        className="hidden"
+      />
+      
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={isLoading}
+        className="flex items-center justify-center"
+      >
+        {isLoading ? (
+          <Loader className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-4 w-4" />
+        )}
+        Upload Photo
+      </Button>
+      
+      <p className="text-xs text-center mt-2 text-gray-500">
+        Or drag and drop a JPEG, PNG or WebP image here
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { productFormats, CatalogProduct } from "@shared/catalog";
+import {
+  enrollProduct,
+  enrollProductView,
+  emptyEnrollmentFields,
+  suggestProductFields,
+  describeEnrollmentError,
+  EnrollmentFields,
+} from "@/lib/productEnrollment";
+import { productVectors } from "@/lib/vectorDatabase";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export type EnrollmentMode = "product" | "view";
+
+interface ProductEnrollmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  imageData: string; // The cropped lid, saved as the reference photo
+  featureVector?: number[];
+  ocrText?: string; // Used to prefill brand, flavor and strength
+  initialMode?: EnrollmentMode;
+  initialProductId?: string; // Product preselected for adding a view
+  onEnrolled?: (product: CatalogProduct) => void;
+}
+
+// Radix Select items can't have an empty value
+const NO_FORMAT = "none";
+
+export default function ProductEnrollmentDialog({
+  open,
+  onOpenChange,
+  imageData,
+  featureVector,
+  ocrText = "",
+  initialMode = "product",
+  initialProductId,
+  onEnrolled,
+}: ProductEnrollmentDialogProps) {
+  const [mode, setMode] = useState<EnrollmentMode>(initialMode);
+  const [fields, setFields] = useState<EnrollmentFields>(emptyEnrollmentFields);
+  const [viewProductId, setViewProductId] = useState<string>("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the OCR suggestions each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setMode(initialMode);
+    setFields({ ...emptyEnrollmentFields(), ...suggestProductFields(ocrText) });
+    setViewProductId(initialProductId ?? "");
+  }, [open, initialMode, initialProductId, ocrText]);
+
+  const updateField = <K extends keyof EnrollmentFields>(key: K, value: EnrollmentFields[K]) => {
+    setFields(current => ({ ...current, [key]: value }));
+  };
+
+  const products = [...productVectors].sort((a, b) => a.name.localeCompare(b.name));
+  const viewProduct = products.find(product => product.id === viewProductId);
+  const canSave = !!featureVector && !isSaving &&
+    (mode === "product" ? fields.id.trim() !== "" && fields.name.trim() !== "" : !!viewProduct);
+
+  const handleSave = async () => {
+    if (!featureVector) return;
+    setIsSaving(true);
+
+    try {
+      const product = mode === "product"
+        ? await enrollProduct(fields, featureVector, imageData)
+        : await enrollProductView(viewProductId, featureVector, imageData);
+
+      toast({
+        title: mode === "product" ? "Product Added" : "View Added",
+        description: mode === "product"
+          ? `${product.name} is now in the catalog`
+          : `${product.name} now has ${product.vectors.length} reference views`,
+      });
+      onEnrolled?.(product);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error enrolling product:', error);
+      toast({
+        variant: "destructive",
+        title: "Could Not Save",
+        description: describeEnrollmentError(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add to Catalog</DialogTitle>
+          <DialogDescription>
+            Save this lid as a new product, or as another view of a product that is already in the catalog.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <img src={imageData} alt="Scanned lid" className="h-20 w-20 rounded-full bg-gray-100 object-cover" />
+          <p className="text-xs text-gray-500">
+            {featureVector
+              ? `The photo and its ${featureVector.length}-value feature vector will be stored as a reference view.`
+              : "Analyzing the image..."}
+          </p>
+        </div>
+
+        <Tabs value={mode} onValueChange={value => setMode(value as EnrollmentMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="product">New product</TabsTrigger>
+            <TabsTrigger value="view" disabled={products.length === 0}>Add view</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="product" className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="enroll-id">ID</Label>
+                <Input id="enroll-id" value={fields.id} onChange={e => updateField("id", e.target.value)} />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="enroll-name">Name</Label>
+                <Input id="enroll-name" value={fields.name} onChange={e => updateField("name", e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="enroll-brand">Brand</Label>
+                <Input id="enroll-brand" value={fields.brand} onChange={e => updateField("brand", e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="enroll-flavor">Flavor</Label>
+                <Input id="enroll-flavor" value={fields.flavor} onChange={e => updateField("flavor", e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="enroll-strength">Strength (mg)</Label>
+                <Input
+                  id="enroll-strength"
+                  inputMode="decimal"
+                  value={fields.strengthMg}
+                  onChange={e => updateField("strengthMg", e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Per</Label>
+                <Select
+                  value={fields.strengthUnit}
+                  onValueChange={value => updateField("strengthUnit", value as EnrollmentFields["strengthUnit"])}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pouch">Pouch</SelectItem>
+                    <SelectItem value="gram">Gram</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Format</Label>
+                <Select
+                  value={fields.format || NO_FORMAT}
+                  onValueChange={value =>
+                    updateField("format", value === NO_FORMAT ? "" : value as EnrollmentFields["format"])
+                  }
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FORMAT}>Unspecified</SelectItem>
+                    {productFormats.map(format => (
+                      <SelectItem key={format} value={format} className="capitalize">{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="enroll-ean">EAN</Label>
+                <Input
+                  id="enroll-ean"
+                  inputMode="numeric"
+                  value={fields.ean}
+                  onChange={e => updateField("ean", e.target.value)}
+                />
+              </div>
+            </div>
+
+            {ocrText.trim() && (
+              <p className="text-xs text-gray-500">Fields were prefilled from the extracted text; check them before saving.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="view" className="space-y-3">
+            <div className="space-y-1">
+              <Label>Product</Label>
+              <Select value={viewProductId} onValueChange={setViewProductId}>
+                <SelectTrigger><SelectValue placeholder="Choose a product" /></SelectTrigger>
+                <SelectContent>
+                  {products.map(product => (
+                    <SelectItem key={product.id} value={product.id}>
+                      {product.name} ({product.id})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {viewProduct && (
+              <p className="text-xs text-gray-500">
+                {viewProduct.name} has {1 + (viewProduct.views?.length ?? 0)} reference view(s). Views taken under
+                different lighting or angles make it easier to recognize.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!canSave} className="flex items-center justify-center">
+            {isSaving ? (
+              <>
+                <Loader className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <Save className="mr-2 h-4 w-4" />
+                {mode === "product" ? "Save Product" : "Save View"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,34 +1,177 @@
 import { useState, useEffect } from "react";
-import { findNearestProducts, loadProductVectorsFromJSON, ProductVector } from "@/lib/vectorDatabase";
+import {
+  findNearestProductsHybrid,
+  loadProductVectors,
+  loadProductVectorsFromJSON,
+  loadProductVectorsFromBinary,
+  loadVectorIndexFromBinary,
+  getEmbeddingModel,
+  getSimilarity,
+  getMatchCalibration,
+  setSimilarity,
+  HybridMatch,
+  HybridWeights,
+  DEFAULT_HYBRID_WEIGHTS,
+} from "@/lib/vectorDatabase";
+import {
+  decideMatch,
+  MatchDecision,
+  MatchThresholds,
+  DEFAULT_MATCH_THRESHOLDS,
+  UnknownReason,
+} from "@/lib/matchDecision";
+import { FEATURE_EXTRACTOR_ID } from "@/lib/featureExtractor";
+import { syncCatalog, CatalogSyncResult } from "@/lib/catalogCache";
+import { DimensionMismatchError } from "@shared/similarityMetrics";
+import {
+  similarityMetrics,
+  vectorNormalizations,
+  CatalogSimilarity,
+  VectorQuantization,
+} from "@shared/catalog";
+import MatchFeedbackPanel from "@/components/MatchFeedbackPanel";
+import MatchExplanation from "@/components/MatchExplanation";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Loader, Search, Zap, Check } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader, Search, Zap, Check, Eye, Type, HelpCircle, Plus, ImagePlus, WifiOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface ProductIdentifierProps {
   featureVector?: number[];
+  ocrText?: string; // Text extracted from the lid, fused with visual similarity when present
+  imageData?: string; // The lid crop, shown next to each match's reference image
+  defaultWeights?: HybridWeights;
+  defaultThresholds?: MatchThresholds;
+  onAddProduct?: () => void; // Offered when the tin doesn't match any catalog product
+  onAddView?: (productId: string) => void; // Offered to store the photo as another view of a match
+  // Vector encoding of the catalog download. float32 by default: scores are exact, so they match
+  // the ones the catalog's calibrations were fitted to, and quantization:recall measured int8
+  // searches slower than float32. int8 and pq trade that for a smaller download.
+  catalogFormat?: "json" | VectorQuantization;
 }
 
-export default function ProductIdentifier({ featureVector }: ProductIdentifierProps) {
+const METRIC_LABELS: Record<CatalogSimilarity["metric"], string> = {
+  cosine: "Cosine",
+  l2: "Euclidean (L2)",
+  dot: "Dot product",
+  mahalanobis: "Mahalanobis",
+};
+
+const NORMALIZATION_LABELS: Record<CatalogSimilarity["normalization"], string> = {
+  none: "No normalization",
+  l2: "L2 normalization",
+  zscore: "Z-score normalization",
+};
+
+const UNKNOWN_REASONS: Record<UnknownReason, string> = {
+  "empty-catalog": "The product database is empty.",
+  "uncalibrated": "The product database has no match calibration for this metric and normalization; rebuild it or give feedback to fit one.",
+  "low-confidence": "No catalog product looks close enough.",
+  "ambiguous": "Several catalog products match almost equally well.",
+};
+
+export default function ProductIdentifier({
+  featureVector,
+  ocrText = "",
+  imageData,
+  defaultWeights = DEFAULT_HYBRID_WEIGHTS,
+  defaultThresholds = DEFAULT_MATCH_THRESHOLDS,
+  onAddProduct,
+  onAddView,
+  catalogFormat = "float32",
+}: ProductIdentifierProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isVectorDBLoaded, setIsVectorDBLoaded] = useState(false);
-  const [matchedProducts, setMatchedProducts] = useState<Array<{ product: ProductVector, similarity: number }>>([]);
+  const [weights, setWeights] = useState<HybridWeights>(defaultWeights);
+  const [thresholds, setThresholds] = useState<MatchThresholds>(defaultThresholds);
+  const [matchedProducts, setMatchedProducts] = useState<HybridMatch[]>([]);
+  const [rankedWith, setRankedWith] = useState<HybridWeights>(defaultWeights); // Weights behind matchedProducts
+  const [decision, setDecision] = useState<MatchDecision | null>(null);
+  const [similarity, setSimilarityState] = useState<CatalogSimilarity>(getSimilarity);
+  const [catalogSync, setCatalogSync] = useState<CatalogSyncResult | null>(null);
   const { toast } = useToast();
 
-  // Load vector database on component mount
+  // Load the catalog on mount: a cached copy first, so products can be identified offline,
+  // then whatever is newer on the server
   useEffect(() => {
+    const catalogUrl = catalogFormat === "json" ? '/api/catalog' : `/api/catalog.bin?quantization=${catalogFormat}`;
+    let cancelled = false;
+    let loadedFrom: "cache" | "network" | null = null;
+    let indexOutdated = false; // A JSON catalog was loaded since the prebuilt index was
+
+    const applyCatalog = (body: ArrayBuffer | null, source: "cache" | "network") => {
+      if (cancelled) return false;
+      // On later refreshes the loaded catalog is at least as new as the cached one
+      if (source === "cache" && loadedFrom) return true;
+      // Nothing enrolled yet; products can still be added from here
+      if (body === null) {
+        loadProductVectors([]);
+        loadedFrom = source;
+        setIsVectorDBLoaded(true);
+        return true;
+      }
+
+      const result = catalogFormat === "json"
+        ? loadProductVectorsFromJSON(new TextDecoder().decode(body))
+        : loadProductVectorsFromBinary(body);
+      if (!result.success) {
+        console.error(`Invalid product catalog (${source}):`, result.errors);
+        // An outdated cached copy is silently replaced by the download
+        if (source === "network") {
+          const [first] = result.errors;
+          toast({
+            variant: "destructive",
+            title: "Invalid Product Database",
+            description: `${first.path ? `${first.path}: ` : ""}${first.message}` +
+              (result.errors.length > 1 ? ` (and ${result.errors.length - 1} more problems)` : ""),
+          });
+        }
+        return false;
+      }
+
+      if (loadedFrom && source === "network") {
+        toast({ title: "Catalog Updated", description: `Loaded ${result.productCount} products from the server` });
+      }
+      loadedFrom = source;
+      indexOutdated = catalogFormat === "json";
+      setSimilarityState(getSimilarity());
+      setIsVectorDBLoaded(true);
+      return true;
+    };
+
     const loadVectorDB = async () => {
       try {
-        // Fetch the vectors.json file
-        const response = await fetch('/data/vectors.json');
-        if (!response.ok) {
-          throw new Error('Failed to load product vectors');
+        const sync = await syncCatalog(catalogUrl, applyCatalog);
+        if (cancelled) return;
+        setCatalogSync(sync);
+
+        // A prebuilt index saves indexing large catalogs on every page load; it's optional.
+        // Binary catalogs already come with their quantized index.
+        if (indexOutdated && sync.status !== "offline") {
+          indexOutdated = false;
+          try {
+            const indexResponse = await fetch('/data/vectors.index');
+            if (indexResponse.ok) {
+              loadVectorIndexFromBinary(await indexResponse.arrayBuffer());
+            }
+          } catch (error) {
+            console.warn('Prebuilt vector index unavailable:', error);
+          }
         }
-        
-        const data = await response.text();
-        loadProductVectorsFromJSON(data);
-        setIsVectorDBLoaded(true);
       } catch (error) {
+        // A failed refresh leaves the loaded catalog in use
+        if (loadedFrom) {
+          console.warn('Could not refresh the product catalog:', error);
+          return;
+        }
         console.error('Error loading vector database:', error);
         toast({
           variant: "destructive",
@@ -37,9 +180,22 @@ export default function ProductIdentifier({ featureVector }: ProductIdentifierPr
         });
       }
     };
-    
+
+    // Revalidation is a cheap 304 when nothing changed, so also check when the app
+    // comes back online or to the foreground
+    const refreshWhenVisible = () => {
+      if (document.visibilityState === 'visible') loadVectorDB();
+    };
+
     loadVectorDB();
-  }, [toast]);
+    window.addEventListener('online', loadVectorDB);
+    document.addEventListener('visibilitychange', refreshWhenVisible);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('online', loadVectorDB);
+      document.removeEventListener('visibilitychange', refreshWhenVisible);
+    };
+  }, [toast, catalogFormat]);
 
   // Identify product when feature vector is provided
   const identifyProduct = async () => {
@@ -60,35 +216,66 @@ export default function ProductIdentifier({ featureVector }: ProductIdentifierPr
       });
       return;
     }
+
+    const embeddingModel = getEmbeddingModel();
+    if (embeddingModel && embeddingModel.id !== FEATURE_EXTRACTOR_ID) {
+      console.warn(`Catalog was built with "${embeddingModel.id}", images are described with "${FEATURE_EXTRACTOR_ID}"`);
+    }
     
     setIsLoading(true);
     
     try {
-      // Find the nearest products
-      const nearestProducts = findNearestProducts(featureVector, 3);
+      // Find the nearest products by appearance and, when available, OCR text
+      const nearestProducts = findNearestProductsHybrid(featureVector, ocrText, weights, 3);
+      const matchDecision = decideMatch(nearestProducts, getMatchCalibration(), thresholds);
       setMatchedProducts(nearestProducts);
+      setRankedWith(weights);
+      setDecision(matchDecision);
       
-      if (nearestProducts.length > 0) {
+      if (matchDecision.status === "identified") {
         toast({
           title: "Product Identified",
-          description: `Found match: ${nearestProducts[0].product.name}`,
+          description: `Found match: ${matchDecision.match.product.name}`,
         });
       } else {
         toast({
-          variant: "destructive",
-          title: "No Match",
-          description: "Could not find a matching product",
+          title: "Unknown Product",
+          description: UNKNOWN_REASONS[matchDecision.reason],
         });
       }
     } catch (error) {
       console.error('Error identifying product:', error);
+      // Vectors from a different extractor can't be compared meaningfully
+      toast(error instanceof DimensionMismatchError
+        ? {
+            variant: "destructive",
+            title: "Incompatible Catalog",
+            description: `The product database uses ${error.expected}-dimensional vectors but the image produced ${error.actual}. Rebuild the catalog.`,
+          }
+        : {
+            variant: "destructive",
+            title: "Error",
+            description: "Failed to identify product",
+          });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeSimilarity = (config: Partial<CatalogSimilarity>) => {
+    try {
+      setSimilarity(config);
+      setSimilarityState(getSimilarity());
+      // Scores from another metric aren't comparable with the ones shown
+      setMatchedProducts([]);
+      setDecision(null);
+    } catch (error) {
+      console.error('Error changing similarity metric:', error);
       toast({
         variant: "destructive",
-        title: "Error",
-        description: "Failed to identify product",
+        title: "Metric Unavailable",
+        description: error instanceof Error ? error.message : "Failed to change the similarity metric",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -112,47 +299,199 @@ export default function ProductIdentifier({ featureVector }: ProductIdentifierPr
         )}
       </Button>
       
+      {catalogSync?.status === "offline" && catalogSync.fetchedAt && (
+        <div className="flex items-center justify-center text-xs mt-2 text-amber-600">
+          <WifiOff className="mr-1 h-3 w-3" />
+          Offline: using the catalog saved {new Date(catalogSync.fetchedAt).toLocaleString()}
+        </div>
+      )}
+
       <div className="text-xs text-center mt-1 text-gray-500">
-        Uses vector similarity to find the closest product match
+        {ocrText.trim()
+          ? "Combines visual similarity with the extracted text"
+          : "Uses vector similarity to find the closest product match"}
+      </div>
+
+      <div className="mt-3">
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>Visual {Math.round(weights.visual * 100)}%</span>
+          <span>Text {Math.round(weights.text * 100)}%</span>
+        </div>
+        <Slider
+          value={[weights.text]}
+          min={0}
+          max={1}
+          step={0.05}
+          onValueChange={([text]) => setWeights({ visual: 1 - text, text })}
+          disabled={isLoading}
+        />
+
+        <div className="flex justify-between text-xs text-gray-600 mt-3 mb-1">
+          <span>Minimum confidence</span>
+          <span>{Math.round(thresholds.minConfidence * 100)}%</span>
+        </div>
+        <Slider
+          value={[thresholds.minConfidence]}
+          min={0}
+          max={0.95}
+          step={0.05}
+          onValueChange={([minConfidence]) => setThresholds({ ...thresholds, minConfidence })}
+          disabled={isLoading}
+        />
+
+        <div className="grid grid-cols-2 gap-2 mt-3">
+          <Select
+            value={similarity.metric}
+            onValueChange={metric => changeSimilarity({ metric: metric as CatalogSimilarity["metric"] })}
+            disabled={isLoading || !isVectorDBLoaded}
+          >
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {similarityMetrics.map(metric => (
+                <SelectItem key={metric} value={metric}>{METRIC_LABELS[metric]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={similarity.normalization}
+            onValueChange={normalization =>
+              changeSimilarity({ normalization: normalization as CatalogSimilarity["normalization"] })
+            }
+            disabled={isLoading || !isVectorDBLoaded}
+          >
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {vectorNormalizations.map(normalization => (
+                <SelectItem key={normalization} value={normalization}>{NORMALIZATION_LABELS[normalization]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
+
+      {decision && decision.status === "unknown" && (
+        <div className="mt-4 p-3 rounded border bg-amber-50 border-amber-200">
+          <div className="flex items-center font-medium text-amber-800">
+            <HelpCircle className="h-4 w-4 mr-2" />
+            Unknown product — add it?
+          </div>
+          <p className="text-xs text-amber-700 mt-1">
+            {UNKNOWN_REASONS[decision.reason]}
+            {decision.bestMatch && decision.reason === "uncalibrated" && (
+              <> Closest: {decision.bestMatch.product.name}.</>
+            )}
+            {decision.bestMatch && decision.reason !== "uncalibrated" && (
+              <> Closest: {decision.bestMatch.product.name} at {(decision.confidence * 100).toFixed(0)}% confidence
+              (needs {(decision.threshold * 100).toFixed(0)}%), lead {(decision.margin * 100).toFixed(1)} points.</>
+            )}
+          </p>
+          {onAddProduct && (
+            <Button size="sm" variant="outline" onClick={onAddProduct} className="mt-2 flex items-center">
+              <Plus className="mr-1 h-4 w-4" />
+              Add to catalog
+            </Button>
+          )}
+        </div>
+      )}
       
       {matchedProducts.length > 0 && (
         <div className="mt-4">
-          <h3 className="text-sm font-medium text-gray-700 mb-2">Matched Products</h3>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            {decision?.status === "identified" ? "Matched Products" : "Closest Candidates"}
+          </h3>
+          {decision?.status === "identified" && (
+            <p className="text-xs text-gray-500 mb-2">
+              {(decision.confidence * 100).toFixed(0)}% confidence, {(decision.margin * 100).toFixed(1)} points ahead of the next product
+            </p>
+          )}
           
           <div className="space-y-3">
-            {matchedProducts.map((match, index) => (
-              <div 
-                key={match.product.id}
-                className={`p-3 rounded border ${index === 0 ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}
-              >
-                <div className="flex justify-between items-center">
-                  <div className="flex items-center">
-                    {index === 0 && <Check className="h-4 w-4 text-green-500 mr-2" />}
-                    <span className="font-medium">{match.product.name}</span>
-                    {match.product.strength && (
-                      <Badge variant="outline" className="ml-2 text-xs">
-                        {match.product.strength}
-                      </Badge>
+            {matchedProducts.map((match, index) => {
+              const isIdentified = index === 0 && decision?.status === "identified";
+              return (
+                <div 
+                  key={match.product.id}
+                  className={`p-3 rounded border ${isIdentified ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      {isIdentified && <Check className="h-4 w-4 text-green-500 mr-2" />}
+                      <span className="font-medium">{match.product.name}</span>
+                      {match.product.strength && (
+                        <Badge variant="outline" className="ml-2 text-xs">
+                          {match.product.strength}
+                        </Badge>
+                      )}
+                    </div>
+                    <Badge variant={isIdentified ? "default" : "outline"}>
+                      {(match.similarity * 100).toFixed(1)}% match
+                    </Badge>
+                  </div>
+                  <div className="flex gap-3 text-xs text-gray-600 mt-2">
+                    <span className="flex items-center">
+                      <Eye className="h-3 w-3 mr-1" />
+                      Visual {(match.visualScore * 100).toFixed(0)}%
+                    </span>
+                    <span className="flex items-center">
+                      <Type className="h-3 w-3 mr-1" />
+                      {match.textScore !== null ? `Text ${(match.textScore * 100).toFixed(0)}%` : "No text"}
+                    </span>
+                  </div>
+                  {match.textMatch && match.textMatch.matchedTokens.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {Object.entries(match.textMatch.fields).map(([field, score]) => (
+                        <Badge key={field} variant="secondary" className="text-[10px] font-normal">
+                          {field} {(score * 100).toFixed(0)}%
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <div className="text-xs text-gray-500 mt-1">
+                    Product ID: {match.product.id}
+                    {match.textMatch && match.textMatch.matchedTokens.length > 0 && (
+                      <> · matched "{match.textMatch.matchedTokens.join('", "')}"</>
                     )}
                   </div>
-                  <Badge variant={index === 0 ? "default" : "outline"}>
-                    {(match.similarity * 100).toFixed(1)}% match
-                  </Badge>
-                </div>
-                <div className="text-xs text-gray-500 mt-1">
-                  Product ID: {match.product.id}
+                  <MatchExplanation
+                    match={match}
+                    weights={rankedWith}
+                    featureVector={featureVector}
+                    ocrText={ocrText}
+                    imageData={imageData}
+                  />
+                  {isIdentified && onAddView && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onAddView(match.product.id)}
+                      className="mt-1 h-7 px-2 text-xs flex items-center"
+                    >
+                      <ImagePlus className="mr-1 h-3 w-3" />
+                      Save photo as another view
+                    </Button>
+                  )}
                 </div>
-              </div>
-            ))}
+                );
+            })}
           </div>
           
           <div className="mt-3 text-xs text-gray-500">
             <p className="flex items-center">
               <Zap className="h-3 w-3 mr-1 text-blue-500" />
-              Based on extracted features and vector similarity
+              {matchedProducts[0].textScore !== null
+                ? `Combined score: ${Math.round(rankedWith.visual * 100)}% visual + ${Math.round(rankedWith.text * 100)}% text`
+                : "Based on extracted features and vector similarity"}
             </p>
           </div>
+
+          {decision && (
+            <MatchFeedbackPanel
+              decision={decision}
+              matches={matchedProducts}
+              featureVector={featureVector}
+              ocrText={ocrText}
+            />
+          )}
         </div>
       )}
     </div>
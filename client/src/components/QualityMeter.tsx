@@ -0,0 +1,60 @@
+import { Progress } from "@/components/ui/progress";
+import { CaptureQuality, CaptureQualityThresholds, getCaptureQualityIssues } from "@/lib/frameAnalysis";
+import { AlertTriangle, Check } from "lucide-react";
+
+interface QualityMeterProps {
+  quality: CaptureQuality | null;
+  thresholds: CaptureQualityThresholds;
+}
+
+export default function QualityMeter({ quality, thresholds }: QualityMeterProps) {
+  if (!quality) return null;
+
+  const issues = getCaptureQualityIssues(quality, thresholds);
+
+  // Each bar is 100% when the score is comfortably on the good side of its threshold
+  const bars = [
+    {
+      label: "Sharpness",
+      value: Math.min(100, (quality.sharpness / (thresholds.minSharpness * 2)) * 100),
+    },
+    {
+      label: "Exposure",
+      value: Math.max(0, 100 - Math.max(
+        quality.clippedHighlights / thresholds.maxClippedHighlights,
+        quality.clippedShadows / thresholds.maxClippedShadows
+      ) * 50),
+    },
+    {
+      label: "No glare",
+      value: Math.max(0, 100 - (quality.glare / thresholds.maxGlare) * 50),
+    },
+  ];
+
+  return (
+    <div className="mt-4 bg-white rounded-lg shadow-sm p-3">
+      <div className="grid grid-cols-3 gap-3">
+        {bars.map((bar) => (
+          <div key={bar.label}>
+            <p className="text-xs text-gray-500 mb-1">{bar.label}</p>
+            <Progress value={bar.value} className="h-1.5" />
+          </div>
+        ))}
+      </div>
+      
+      <div className="mt-2 text-xs">
+        {issues.length === 0 ? (
+          <p className="flex items-center text-green-600">
+            <Check className="h-3 w-3 mr-1" />
+            Good to capture
+          </p>
+        ) : (
+          <p className="flex items-center text-amber-600">
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            {issues.join(" · ")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,17 @@
 import { useState } from "react";
 import { useTensorflowTextExtraction } from "@/hooks/useTensorflowTextExtraction";
+import { useEnhancementPresets } from "@/hooks/useEnhancementPresets";
+import EnhancementPipelineEditor from "@/components/EnhancementPipelineEditor";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Loader, Copy, FileText, Zap, ImageOff, Check, Settings } from "lucide-react";
+import { Loader, Copy, FileText, Zap, ImageOff, Check, Settings, X, SlidersHorizontal, Trash2 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { useAppContext } from "@/context/AppContext";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RING_BAND_PRESETS } from "@/lib/polarUnwrap";
+import { DEFAULT_PRESET_SET } from "@/lib/enhancementPipeline";
 
 interface TensorflowTextExtractionPanelProps {
   imageData: string;
@@ -14,17 +19,22 @@ interface TensorflowTextExtractionPanelProps {
 
 export default function TensorflowTextExtractionPanel({ imageData }: TensorflowTextExtractionPanelProps) {
   const { extractedText, setExtractedText } = useAppContext();
+  const presets = useEnhancementPresets();
   const { 
     isExtracting, 
     progress, 
     error, 
+    variantErrors,
     textRegions, 
     bestImageVariant, 
-    extractTextFromImage 
-  } = useTensorflowTextExtraction();
+    extractTextFromImage,
+    cancelExtraction
+  } = useTensorflowTextExtraction(presets.selected);
   const [showText, setShowText] = useState(false);
   const [showEnhancedPreview, setShowEnhancedPreview] = useState(false);
   const [activeTab, setActiveTab] = useState("text");
+  const [ringBandKey, setRingBandKey] = useState("rim");
+  const [isEditingPresets, setIsEditingPresets] = useState(false);
   const { toast } = useToast();
 
   const handleExtractText = async () => {
@@ -41,7 +51,15 @@ export default function TensorflowTextExtractionPanel({ imageData }: TensorflowT
         description: "Using multiple image enhancement techniques to improve extraction accuracy...",
       });
       
-      const text = await extractTextFromImage(imageData);
+      const text = await extractTextFromImage(
+        imageData,
+        ringBandKey === "off" ? null : RING_BAND_PRESETS[ringBandKey].band
+      );
+      if (text === null) {
+        // Cancelled by the user
+        setShowText(false);
+        return;
+      }
       setExtractedText(text);
       
       if (text.trim()) {
@@ -114,18 +132,87 @@ export default function TensorflowTextExtractionPanel({ imageData }: TensorflowT
         <div className="text-xs text-center mt-1 text-gray-500">
           Using image enhancement & multi-variant processing for better accuracy
         </div>
+        
+        <div className="mt-2 flex items-center justify-center gap-2">
+          <span className="text-xs text-gray-500">Curved rim text:</span>
+          <Select value={ringBandKey} onValueChange={setRingBandKey} disabled={isExtracting}>
+            <SelectTrigger className="h-7 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off" className="text-xs">Off</SelectItem>
+              {Object.entries(RING_BAND_PRESETS).map(([key, preset]) => (
+                <SelectItem key={key} value={key} className="text-xs">
+                  {preset.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="mt-2 flex items-center justify-center gap-2">
+          <span className="text-xs text-gray-500">Enhancement presets:</span>
+          <Select value={presets.selected.name} onValueChange={presets.select} disabled={isExtracting}>
+            <SelectTrigger className="h-7 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.presetSets.map(set => (
+                <SelectItem key={set.name} value={set.name} className="text-xs">
+                  {set.name} ({set.pipelines.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setIsEditingPresets(true)}
+            disabled={isExtracting}
+            title="Edit presets"
+          >
+            <SlidersHorizontal className="h-3 w-3" />
+          </Button>
+          {presets.selected.name !== DEFAULT_PRESET_SET.name && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => presets.remove(presets.selected.name)}
+              disabled={isExtracting}
+              title="Delete preset set"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
       </div>
+      
+      <EnhancementPipelineEditor
+        open={isEditingPresets}
+        onOpenChange={setIsEditingPresets}
+        imageData={imageData}
+        presetSet={presets.selected}
+        onSave={presets.save}
+      />
 
       {isExtracting && (
         <div className="mt-3">
           <Progress value={progress} className="h-2" />
           <p className="text-xs text-center mt-1 text-gray-500">{progress}% complete</p>
           <div className="mt-2 text-center text-xs text-gray-500">
-            {progress < 15 && "Creating enhanced image variants..."}
-            {progress >= 15 && progress < 25 && "Detecting text regions in image..."}
-            {progress >= 25 && progress < 65 && "Testing multiple image processing techniques..."}
+            {progress < 15 && "Detecting text regions in image..."}
+            {progress >= 15 && progress < 65 && "Enhancing and reading image variants..."}
             {progress >= 65 && progress < 90 && "Extracting text from optimal regions..."}
-            {progress >= 90 && "Post-processing and finalizing results..."}
+            {progress >= 90 && progress < 95 && "Unwrapping and reading curved rim text..."}
+            {progress >= 95 && "Post-processing and finalizing results..."}
+          </div>
+          <div className="mt-2 flex justify-center">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={cancelExtraction}>
+              <X className="mr-1 h-3 w-3" />
+              Cancel
+            </Button>
           </div>
         </div>
       )}
@@ -136,6 +223,16 @@ export default function TensorflowTextExtractionPanel({ imageData }: TensorflowT
         </div>
       )}
 
+      {variantErrors.length > 0 && (
+        <div className="mt-3 text-amber-700 text-xs p-2 bg-amber-50 rounded border border-amber-200">
+          {variantErrors.length === 1 ? "An enhancement pipeline failed" : `${variantErrors.length} enhancement pipelines failed`}
+          {" "}and {variantErrors.length === 1 ? "was" : "were"} skipped; the text comes from the remaining variants.
+          <ul className="mt-1 list-disc pl-4">
+            {variantErrors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+
       {showText && (extractedText || bestImageVariant) && (
         <div className="mt-4">
           <Tabs defaultValue="text" value={activeTab} onValueChange={setActiveTab}>
@@ -232,7 +329,7 @@ export default function TensorflowTextExtractionPanel({ imageData }: TensorflowT
                     <li>Contrast & brightness adjustment for small text</li>
                     <li>Edge enhancement for text boundaries</li>
                     <li>Special processing for top/bottom edges</li>
-                    <li>Multiple image variants tested (10+ variants)</li>
+                    <li>Multiple image variants tested ({presets.selected.pipelines.length} enhancement pipelines)</li>
                     <li>Small text detection with high sensitivity</li>
                   </ul>
                 </div>
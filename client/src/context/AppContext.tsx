@@ -1,4 +1,5 @@
 import { createContext, useContext, useState, ReactNode } from "react";
+import { CaptureQuality, CapturedFrame } from "@/lib/frameAnalysis";
 
 // Define Area type here since the import from react-easy-crop/types is causing issues
 interface Area {
@@ -12,6 +13,10 @@ type PhotoData = {
   imageData: string;
   width: number;
   height: number;
+  source: "camera" | "upload"; // Uploaded photos are never mirrored
+  quality?: CaptureQuality; // Live quality scores at the moment of capture
+  burstFrames?: CapturedFrame[]; // Other burst frames, sharpest first, for extra OCR passes
+  originalImageData?: string; // Set once perspective correction has replaced imageData
 } | null;
 
 interface AppContextType {
@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, RefObject } from "react";
+import Webcam from "react-webcam";
+import { detectCircleInImageData, CIRCLE_CONFIDENCE_THRESHOLD } from "@/lib/circleDetection";
+import { captureCenterRegion, laplacianVariance, overlaySizeInVideoPixels } from "@/lib/frameAnalysis";
+
+interface AutoCaptureOptions {
+  enabled: boolean;
+  overlaySize: number;       // CircleOverlay diameter in CSS pixels
+  onCapture: () => void;
+  requiredFrames?: number;   // Consecutive good frames before capturing
+  minSharpness?: number;     // Minimum Laplacian variance inside the sampled region
+  intervalMs?: number;       // Time between analyzed frames
+}
+
+// How much wider than the overlay the analyzed square is, so a slightly off lid is still seen
+const REGION_MARGIN = 1.4;
+// Side of the downscaled analysis square in pixels
+const ANALYSIS_SIZE = 128;
+// Allowed offset of the lid center from the overlay center, as a fraction of the region
+const MAX_CENTER_OFFSET = 0.08;
+// Allowed lid radius deviation from the overlay radius
+const MAX_RADIUS_DEVIATION = 0.15;
+// Allowed frame-to-frame movement of the lid center, as a fraction of the region
+const MAX_FRAME_MOVEMENT = 0.03;
+
+export function useAutoCapture(
+  webcamRef: RefObject<Webcam>,
+  {
+    enabled,
+    overlaySize,
+    onCapture,
+    requiredFrames = 8,
+    minSharpness = 60,
+    intervalMs = 150,
+  }: AutoCaptureOptions
+) {
+  // 0 to 1, how far along the countdown is
+  const [progress, setProgress] = useState(0);
+  const onCaptureRef = useRef(onCapture);
+  onCaptureRef.current = onCapture;
+
+  useEffect(() => {
+    setProgress(0);
+    if (!enabled) return;
+
+    const canvas = document.createElement("canvas");
+    const expectedRadius = 0.5 / REGION_MARGIN;
+    let goodFrames = 0;
+    let lastCenter: { x: number; y: number } | null = null;
+
+    const analyzeFrame = () => {
+      const video = webcamRef.current?.video;
+      if (!video) return;
+
+      const regionSize = overlaySizeInVideoPixels(video, overlaySize) * REGION_MARGIN;
+      const region = captureCenterRegion(video, regionSize, ANALYSIS_SIZE, canvas);
+      if (!region) return;
+
+      const circle = detectCircleInImageData(region, {
+        minRadius: expectedRadius * (1 - MAX_RADIUS_DEVIATION),
+        maxRadius: expectedRadius * (1 + MAX_RADIUS_DEVIATION),
+      });
+
+      const center = ANALYSIS_SIZE / 2;
+      const isAligned =
+        circle !== null &&
+        circle.confidence >= CIRCLE_CONFIDENCE_THRESHOLD &&
+        Math.hypot(circle.x - center, circle.y - center) <= MAX_CENTER_OFFSET * ANALYSIS_SIZE;
+
+      const isSteady =
+        isAligned &&
+        (lastCenter === null ||
+          Math.hypot(circle.x - lastCenter.x, circle.y - lastCenter.y) <=
+            MAX_FRAME_MOVEMENT * ANALYSIS_SIZE);
+
+      const isSharp = isSteady && laplacianVariance(region) >= minSharpness;
+
+      lastCenter = isAligned ? { x: circle.x, y: circle.y } : null;
+      goodFrames = isSharp ? goodFrames + 1 : 0;
+
+      if (goodFrames >= requiredFrames) {
+        goodFrames = 0;
+        lastCenter = null;
+        setProgress(0);
+        onCaptureRef.current();
+        return;
+      }
+
+      setProgress(goodFrames / requiredFrames);
+    };
+
+    const intervalId = setInterval(analyzeFrame, intervalMs);
+    return () => clearInterval(intervalId);
+  }, [enabled, overlaySize, requiredFrames, minSharpness, intervalMs, webcamRef]);
+
+  return { progress };
+}
@@ -0,0 +1,42 @@
+import { useState, useCallback, RefObject } from "react";
+import Webcam from "react-webcam";
+import { CaptureQuality, CapturedFrame } from "@/lib/frameAnalysis";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function useBurstCapture(
+  webcamRef: RefObject<Webcam>,
+  measureQuality: () => CaptureQuality | null,
+  intervalMs: number = 80
+) {
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  // Grab frames in quick succession, sharpest first
+  const captureFrames = useCallback(
+    async (count: number): Promise<CapturedFrame[]> => {
+      setIsCapturing(true);
+      const frames: CapturedFrame[] = [];
+
+      try {
+        for (let i = 0; i < count; i++) {
+          if (i > 0) await wait(intervalMs);
+
+          const imageData = webcamRef.current?.getScreenshot();
+          if (!imageData) continue;
+
+          // Measured right after the screenshot so both see (nearly) the same frame
+          frames.push({ imageData, quality: measureQuality() });
+        }
+      } finally {
+        setIsCapturing(false);
+      }
+
+      return frames.sort(
+        (a, b) => (b.quality?.sharpness ?? 0) - (a.quality?.sharpness ?? 0)
+      );
+    },
+    [webcamRef, measureQuality, intervalMs]
+  );
+
+  return { isCapturing, captureFrames };
+}
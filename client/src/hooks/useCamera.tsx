@@ -1,12 +1,68 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 
 type FacingMode = "user" | "environment";
 
+export interface Resolution {
+  width: number;
+  height: number;
+}
+
+// Per-device choices remembered across sessions
+interface DeviceSettings {
+  resolution?: Resolution;
+  torch?: boolean;
+  zoom?: number;
+}
+
+// Torch and zoom are part of the Image Capture spec and missing from the DOM typings
+interface ExtendedTrackCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+}
+
+const SETTINGS_STORAGE_KEY = "camera-device-settings";
+
+// Common capture sizes, highest first; offered when the track supports them
+const STANDARD_RESOLUTIONS: Resolution[] = [
+  { width: 3840, height: 2160 },
+  { width: 2560, height: 1440 },
+  { width: 1920, height: 1080 },
+  { width: 1280, height: 720 },
+  { width: 640, height: 480 },
+];
+
+export const DEFAULT_RESOLUTION: Resolution = { width: 1280, height: 720 };
+
+const loadAllDeviceSettings = (): Record<string, DeviceSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const saveDeviceSettings = (deviceId: string, settings: DeviceSettings) => {
+  const all = loadAllDeviceSettings();
+  all[deviceId] = { ...all[deviceId], ...settings };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(all));
+};
+
 export function useCamera() {
   const [hasPermission, setHasPermission] = useState(false);
   const [isSupported, setIsSupported] = useState(true);
   const [facingMode, setFacingMode] = useState<FacingMode>("user");
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const [activeFacingMode, setActiveFacingMode] = useState<string | undefined>(undefined);
+  const [resolution, setResolutionState] = useState<Resolution>(DEFAULT_RESOLUTION);
+  const [supportedResolutions, setSupportedResolutions] = useState<Resolution[]>([]);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torch, setTorchState] = useState(false);
+  const [zoomRange, setZoomRange] = useState<{ min: number; max: number; step: number } | null>(null);
+  const [zoom, setZoomState] = useState(1);
+  const trackRef = useRef<MediaStreamTrack | null>(null);
   const { toast } = useToast();
 
   // Check if camera is supported
@@ -16,42 +72,202 @@ export function useCamera() {
     }
   }, []);
 
+  // Device labels are only populated once permission has been granted
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices();
+      setDevices(allDevices.filter(device => device.kind === "videoinput"));
+    } catch (error) {
+      console.error("Failed to enumerate cameras:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hasPermission) return;
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener?.("devicechange", refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener?.("devicechange", refreshDevices);
+    };
+  }, [hasPermission, refreshDevices]);
+
   // Request camera permission
   const requestCameraPermission = useCallback(async () => {
     if (!isSupported) return;
 
     try {
       // Request camera access
-      await navigator.mediaDevices.getUserMedia({
+      const stream = await navigator.mediaDevices.getUserMedia({
         video: { facingMode }
       });
-      
+
+      // Only the permission matters here; the Webcam component opens its own stream
+      stream.getTracks().forEach(track => track.stop());
       setHasPermission(true);
     } catch (error) {
       console.error("Camera permission error:", error);
-      
+
       toast({
         variant: "destructive",
         title: "Camera Permission Error",
         description: "Unable to access the camera. Please ensure you have granted permission.",
       });
-      
+
       setHasPermission(false);
     }
   }, [isSupported, facingMode, toast]);
 
+  // Inspect a newly opened stream and restore the saved settings for its device
+  const handleStream = useCallback((stream: MediaStream) => {
+    const track = stream.getVideoTracks()[0];
+    trackRef.current = track ?? null;
+    if (!track) return;
+
+    const settings = track.getSettings();
+    const capabilities: ExtendedTrackCapabilities =
+      typeof track.getCapabilities === "function" ? track.getCapabilities() : {};
+    const currentDeviceId = settings.deviceId ?? null;
+
+    setActiveDeviceId(currentDeviceId);
+    setActiveFacingMode(settings.facingMode);
+
+    const maxWidth = capabilities.width?.max;
+    const maxHeight = capabilities.height?.max;
+    setSupportedResolutions(
+      maxWidth && maxHeight
+        ? STANDARD_RESOLUTIONS.filter(
+            res =>
+              Math.max(res.width, res.height) <= Math.max(maxWidth, maxHeight) &&
+              Math.min(res.width, res.height) <= Math.min(maxWidth, maxHeight)
+          )
+        : []
+    );
+
+    const saved = currentDeviceId ? loadAllDeviceSettings()[currentDeviceId] ?? {} : {};
+
+    if (saved.resolution &&
+        (saved.resolution.width !== resolution.width || saved.resolution.height !== resolution.height)) {
+      // Reopens the stream at the saved size; this handler runs again afterwards
+      setResolutionState(saved.resolution);
+    }
+
+    setTorchSupported(capabilities.torch === true);
+    setTorchState(false);
+    if (capabilities.torch && saved.torch) {
+      track.applyConstraints({ advanced: [{ torch: true } as MediaTrackConstraintSet] })
+        .then(() => setTorchState(true))
+        .catch(error => console.error("Failed to restore torch:", error));
+    }
+
+    if (capabilities.zoom) {
+      const range = {
+        min: capabilities.zoom.min,
+        max: capabilities.zoom.max,
+        step: capabilities.zoom.step || 0.1,
+      };
+      setZoomRange(range);
+
+      const currentZoom = (settings as MediaTrackSettings & { zoom?: number }).zoom ?? range.min;
+      const savedZoom = saved.zoom !== undefined
+        ? Math.min(range.max, Math.max(range.min, saved.zoom))
+        : currentZoom;
+      setZoomState(savedZoom);
+      if (savedZoom !== currentZoom) {
+        track.applyConstraints({ advanced: [{ zoom: savedZoom } as MediaTrackConstraintSet] })
+          .catch(error => console.error("Failed to restore zoom:", error));
+      }
+    } else {
+      setZoomRange(null);
+    }
+
+    // Labels may only just have become available
+    refreshDevices();
+  }, [resolution, refreshDevices]);
+
   // Toggle between front and back cameras
   const toggleFacingMode = useCallback(() => {
-    setFacingMode(prevMode => 
+    setDeviceId(null);
+    setFacingMode(prevMode =>
       prevMode === "user" ? "environment" : "user"
     );
   }, []);
 
+  // Pick a specific camera; its saved resolution is restored once the stream opens
+  const selectDevice = useCallback((id: string) => {
+    setDeviceId(id);
+    setResolutionState(loadAllDeviceSettings()[id]?.resolution ?? DEFAULT_RESOLUTION);
+  }, []);
+
+  const setResolution = useCallback((res: Resolution) => {
+    setResolutionState(res);
+    if (activeDeviceId) saveDeviceSettings(activeDeviceId, { resolution: res });
+  }, [activeDeviceId]);
+
+  const setTorch = useCallback(async (enabled: boolean) => {
+    const track = trackRef.current;
+    if (!track) return;
+
+    try {
+      await track.applyConstraints({ advanced: [{ torch: enabled } as MediaTrackConstraintSet] });
+      setTorchState(enabled);
+      if (activeDeviceId) saveDeviceSettings(activeDeviceId, { torch: enabled });
+    } catch (error) {
+      console.error("Failed to toggle torch:", error);
+      toast({
+        variant: "destructive",
+        title: "Flash Error",
+        description: "Unable to switch the flash on this camera.",
+      });
+    }
+  }, [activeDeviceId, toast]);
+
+  const setZoom = useCallback(async (value: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+
+    setZoomState(value);
+    try {
+      await track.applyConstraints({ advanced: [{ zoom: value } as MediaTrackConstraintSet] });
+      if (activeDeviceId) saveDeviceSettings(activeDeviceId, { zoom: value });
+    } catch (error) {
+      console.error("Failed to set zoom:", error);
+    }
+  }, [activeDeviceId]);
+
+  const videoConstraints: MediaTrackConstraints = {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+  };
+
+  // A picked device reports its own facing mode; laptops often report none
+  const isFrontFacing = deviceId && activeFacingMode
+    ? activeFacingMode === "user"
+    : facingMode === "user";
+
   return {
     hasPermission,
     isSupported,
     facingMode,
+    isFrontFacing,
     requestCameraPermission,
     toggleFacingMode,
+    devices,
+    activeDeviceId,
+    selectDevice,
+    resolution,
+    supportedResolutions,
+    setResolution,
+    torchSupported,
+    torch,
+    setTorch,
+    zoomRange,
+    zoom,
+    setZoom,
+    videoConstraints,
+    handleStream,
   };
 }
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback, RefObject } from "react";
+import Webcam from "react-webcam";
+import {
+  captureCenterRegion,
+  measureCaptureQuality,
+  overlaySizeInVideoPixels,
+  CaptureQuality,
+} from "@/lib/frameAnalysis";
+
+interface CaptureQualityOptions {
+  enabled: boolean;
+  overlaySize: number;  // CircleOverlay diameter in CSS pixels
+  intervalMs?: number;  // Time between meter updates
+}
+
+// Side of the downscaled analysis square in pixels (thresholds are calibrated for it)
+const ANALYSIS_SIZE = 160;
+
+export function useCaptureQuality(
+  webcamRef: RefObject<Webcam>,
+  { enabled, overlaySize, intervalMs = 300 }: CaptureQualityOptions
+) {
+  const [quality, setQuality] = useState<CaptureQuality | null>(null);
+
+  // Measure the region under the overlay in the current frame
+  const measureQuality = useCallback((): CaptureQuality | null => {
+    const video = webcamRef.current?.video;
+    if (!video) return null;
+
+    const canvas = document.createElement("canvas");
+    const region = captureCenterRegion(
+      video,
+      overlaySizeInVideoPixels(video, overlaySize),
+      ANALYSIS_SIZE,
+      canvas
+    );
+
+    return region ? measureCaptureQuality(region) : null;
+  }, [webcamRef, overlaySize]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setQuality(null);
+      return;
+    }
+
+    const intervalId = setInterval(() => {
+      setQuality(measureQuality());
+    }, intervalMs);
+
+    return () => clearInterval(intervalId);
+  }, [enabled, intervalMs, measureQuality]);
+
+  return { quality, measureQuality };
+}
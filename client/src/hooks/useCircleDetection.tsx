@@ -0,0 +1,31 @@
+import { useState, useEffect } from "react";
+import { detectCircleInImage, DetectedCircle } from "@/lib/circleDetection";
+
+export function useCircleDetection(imageSrc: string) {
+  const [circle, setCircle] = useState<DetectedCircle | null>(null);
+  const [isDetecting, setIsDetecting] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsDetecting(true);
+    setCircle(null);
+
+    detectCircleInImage(imageSrc)
+      .then((result) => {
+        if (!cancelled) setCircle(result);
+      })
+      .catch((error) => {
+        // Detection is best-effort; the user can still position the crop by hand
+        console.error("Circle detection error:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsDetecting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  return { circle, isDetecting };
+}
@@ -0,0 +1,44 @@
+import { useState, useCallback } from "react";
+import {
+  DEFAULT_PRESET_SET,
+  EnhancementPresetSet,
+  deletePresetSet,
+  loadSavedPresetSets,
+  loadSelectedPresetSetName,
+  savePresetSet,
+  saveSelectedPresetSetName,
+} from "@/lib/enhancementPipeline";
+
+// The built-in and saved enhancement preset sets, and the one chosen for OCR
+export function useEnhancementPresets() {
+  const [savedSets, setSavedSets] = useState<EnhancementPresetSet[]>(loadSavedPresetSets);
+  const [selectedName, setSelectedName] = useState<string>(loadSelectedPresetSetName);
+
+  const presetSets = [DEFAULT_PRESET_SET, ...savedSets];
+  // A selection whose set was deleted elsewhere falls back to the built-in set
+  const selected = presetSets.find(set => set.name === selectedName) ?? DEFAULT_PRESET_SET;
+
+  const select = useCallback((name: string) => {
+    saveSelectedPresetSetName(name);
+    setSelectedName(name);
+  }, []);
+
+  // Save a set (replacing one of the same name) and choose it
+  const save = useCallback((presetSet: EnhancementPresetSet) => {
+    setSavedSets(savePresetSet(presetSet));
+    saveSelectedPresetSetName(presetSet.name);
+    setSelectedName(presetSet.name);
+  }, []);
+
+  // Delete a saved set; if it was chosen, the built-in set takes over
+  const remove = useCallback((name: string) => {
+    setSavedSets(deletePresetSet(name));
+    setSelectedName(current => {
+      if (current !== name) return current;
+      saveSelectedPresetSetName(DEFAULT_PRESET_SET.name);
+      return DEFAULT_PRESET_SET.name;
+    });
+  }, []);
+
+  return { presetSets, selected, select, save, remove };
+}
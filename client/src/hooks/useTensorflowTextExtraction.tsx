@@ -1,8 +1,16 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import * as tf from '@tensorflow/tfjs';
 import * as cocoSsd from '@tensorflow-models/coco-ssd';
 import Tesseract from 'tesseract.js';
-import { createEnhancedImageVariants } from '@/lib/imageEnhancer';
+import {
+  EnhancedVariant,
+  isAbortError,
+  isFailedVariant,
+  releaseImageVariants,
+  streamEnhancedImageVariants
+} from '@/lib/imageEnhancer';
+import { DEFAULT_PRESET_SET, EnhancementPresetSet } from '@/lib/enhancementPipeline';
+import { unwrapRing, stripBoxToCircle, RingBand, UnwrapDirection } from '@/lib/polarUnwrap';
 
 // Load TensorFlow models only once
 let cocoModel: cocoSsd.ObjectDetection | null = null;
@@ -42,10 +50,53 @@ const initializeWorkers = async () => {
   }
 };
 
+// Minimum Tesseract confidence for text read from an unwrapped ring; the strip for the
+// other reading direction is upside down and only produces low-confidence noise
+const MIN_RING_CONFIDENCE = 60;
+
+// Unwrap a ring of the circular crop in both reading directions and OCR the strips.
+// Word boxes are mapped back onto the circle crop.
+const recognizeRingText = async (imageData: string, band: RingBand) => {
+  const lines: string[] = [];
+  const regions: Array<{ bbox: [number, number, number, number]; text: string }> = [];
+  const worker = await Tesseract.createWorker('eng');
+  
+  try {
+    for (const direction of ['outward', 'inward'] as UnwrapDirection[]) {
+      const { imageData: strip, geometry } = await unwrapRing(imageData, band, direction);
+      const result = await worker.recognize(strip, {}, { text: true, blocks: true });
+      
+      for (const block of result.data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            const text = line.text.trim();
+            if (!text || line.confidence < MIN_RING_CONFIDENCE) continue;
+            lines.push(text);
+            
+            for (const word of line.words) {
+              // Words starting in the repeated overlap were already read at the start of the strip
+              if (word.confidence < MIN_RING_CONFIDENCE || word.bbox.x0 >= geometry.loopWidth) continue;
+              regions.push({
+                bbox: stripBoxToCircle(geometry, word.bbox),
+                text: word.text
+              });
+            }
+          }
+        }
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+  
+  return { lines, regions };
+};
+
 // Preload models on component mount
 loadModels().catch(err => console.error('Failed to load TensorFlow models:', err));
 
-export function useTensorflowTextExtraction() {
+// presetSet: the enhancement pipelines tried on each image; a change applies from the next extraction
+export function useTensorflowTextExtraction(presetSet: EnhancementPresetSet = DEFAULT_PRESET_SET) {
   const [extractedText, setExtractedText] = useState<string>('');
   const [isExtracting, setIsExtracting] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -55,6 +106,13 @@ export function useTensorflowTextExtraction() {
     text: string;
   }>>([]);
   const [bestImageVariant, setBestImageVariant] = useState<string | null>(null);
+  // Enhancement pipelines that failed during the last extraction, as "<name>: <message>"
+  const [variantErrors, setVariantErrors] = useState<string[]>([]);
+  // The running extraction, and the variants whose object URLs are still in use
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const variantsRef = useRef<EnhancedVariant[]>([]);
+  const presetSetRef = useRef(presetSet);
+  presetSetRef.current = presetSet;
 
   // Preload the model when the hook is initialized
   useEffect(() => {
@@ -68,9 +126,11 @@ export function useTensorflowTextExtraction() {
       console.error('Failed to initialize Tesseract workers:', err);
     });
     
-    // Cleanup scheduler on unmount
+    // Cleanup scheduler, running enhancement jobs and variant images on unmount
     return () => {
       scheduler.terminate();
+      abortControllerRef.current?.abort();
+      releaseImageVariants(variantsRef.current);
     };
   }, []);
   
@@ -297,10 +357,21 @@ export function useTensorflowTextExtraction() {
   };
 
   // Advanced text extraction with multi-variant processing
-  const extractTextFromImage = useCallback(async (imageData: string) => {
+  // ringBand: ring of the circular crop to unwrap for rim text, or null to skip that pass
+  // Resolves to null when the extraction was cancelled
+  const extractTextFromImage = useCallback(async (imageData: string, ringBand: RingBand | null = null): Promise<string | null> => {
+    // A new extraction replaces any that is still running
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+    releaseImageVariants(variantsRef.current);
+    variantsRef.current = [];
+    
     setIsExtracting(true);
     setProgress(0);
     setError(null);
+    setVariantErrors([]);
     setTextRegions([]);
     setBestImageVariant(null);
     
@@ -308,22 +379,18 @@ export function useTensorflowTextExtraction() {
       // Start progress indication
       setProgress(5);
       
-      // Create enhanced image variants
-      setProgress(10);
-      const imageVariants = await createEnhancedImageVariants(imageData);
-      setProgress(15);
-      
       // Load the original image
       const img = await createImageElement(imageData);
       
       // Detect regions in the original image
-      setProgress(20);
+      setProgress(10);
       const regions = await detectTextRegions(img);
-      setProgress(25);
+      signal.throwIfAborted();
+      setProgress(15);
       
       // Extract text from each variant
       const variantResults = [];
-      let bestVariantIndex = 0;
+      let bestVariant: EnhancedVariant | null = null;
       let bestTextLength = 0;
       let bestConfidence = 0;
       
@@ -332,23 +399,35 @@ export function useTensorflowTextExtraction() {
         await initializeWorkers();
       }
       
-      // Process full image variants
-      for (let i = 0; i < imageVariants.length; i++) {
-        setProgress(Math.round(25 + (i / imageVariants.length) * 40)); // 25-65%
+      // Enhanced variants are produced in background workers; each one is read
+      // as soon as it is ready while the others are still being enhanced
+      const { pipelines } = presetSetRef.current;
+      const variantCount = pipelines.length + 1;
+      const failures: string[] = [];
+      for await (const variant of streamEnhancedImageVariants(imageData, pipelines, signal)) {
+        if (isFailedVariant(variant)) {
+          console.error(`Enhancement pipeline "${variant.label}" failed:`, variant.error);
+          failures.push(`${variant.label}: ${variant.error instanceof Error ? variant.error.message : String(variant.error)}`);
+          setVariantErrors([...failures]);
+          continue;
+        }
+        variantsRef.current.push(variant);
+        setProgress(Math.round(15 + (variantResults.length / variantCount) * 50)); // 15-65%
         
         try {
           // Process this variant with Tesseract
-          const variantResult = await Tesseract.recognize(imageVariants[i], 'eng', {
+          const variantResult = await Tesseract.recognize(variant.image, 'eng', {
             logger: (m: any) => {
               if (m.status === 'recognizing text' && m.progress !== undefined) {
-                // Only update progress for the first variant to avoid jumpy progress
-                if (i === 0) {
-                  const adjustedProgress = Math.round(25 + (m.progress * 20)); // Scale to fit our progress range
+                // Only update progress for the original image to avoid jumpy progress
+                if (variant.index === 0) {
+                  const adjustedProgress = Math.round(15 + (m.progress * 20)); // Scale to fit our progress range
                   setProgress(adjustedProgress);
                 }
               }
             }
           });
+          signal.throwIfAborted();
           
           const text = variantResult.data.text.trim();
           const confidence = variantResult.data.confidence || 0;
@@ -357,21 +436,22 @@ export function useTensorflowTextExtraction() {
           const textQuality = text.length * confidence;
           
           // Track best variant
-          if (textQuality > bestTextLength * bestConfidence) {
+          if (!bestVariant || textQuality > bestTextLength * bestConfidence) {
             bestTextLength = text.length;
             bestConfidence = confidence;
-            bestVariantIndex = i;
+            bestVariant = variant;
             
             // Save the best variant image for display
-            setBestImageVariant(imageVariants[i]);
+            setBestImageVariant(variant.url);
           }
           
           variantResults.push({
             text,
             confidence,
-            variant: i
+            variant: variant.index
           });
         } catch (e) {
+          if (isAbortError(e)) throw e;
           console.warn('Error processing image variant:', e);
           // Continue with other variants
         }
@@ -380,7 +460,7 @@ export function useTensorflowTextExtraction() {
       // Process detected regions if any
       const regionTexts = [];
       
-      if (regions.length > 0) {
+      if (regions.length > 0 && bestVariant) {
         const canvas = document.createElement('canvas');
         const ctx = canvas.getContext('2d');
         
@@ -400,21 +480,15 @@ export function useTensorflowTextExtraction() {
             canvas.height = height;
             
             try {
-              // Use the best variant for this region
-              const bestVariantImg = await createImageElement(imageVariants[bestVariantIndex]);
-              
-              // Draw the region from the best variant
-              ctx.drawImage(
-                bestVariantImg, 
-                x, y, width, height,
-                0, 0, width, height
-              );
+              // Copy the region out of the best variant's pixels
+              ctx.putImageData(bestVariant.pixels, -x, -y);
               
               // Get the region as data URL
               const regionDataUrl = canvas.toDataURL('image/jpeg');
               
               // Extract text from the region using Tesseract directly
               const regionResult = await Tesseract.recognize(regionDataUrl, 'eng');
+              signal.throwIfAborted();
               const regionText = regionResult.data.text.trim();
               
               if (regionText) {
@@ -424,6 +498,7 @@ export function useTensorflowTextExtraction() {
                 });
               }
             } catch (e) {
+              if (isAbortError(e)) throw e;
               console.warn('Error processing region:', e);
               // Continue with other regions
             }
@@ -431,6 +506,20 @@ export function useTensorflowTextExtraction() {
         }
       }
       
+      // Read text running around the rim from an unwrapped strip
+      let ringResult: Awaited<ReturnType<typeof recognizeRingText>> | null = null;
+      if (ringBand) {
+        setProgress(90);
+        try {
+          ringResult = await recognizeRingText(imageData, ringBand);
+          signal.throwIfAborted();
+        } catch (e) {
+          if (isAbortError(e)) throw e;
+          console.warn('Error processing unwrapped ring:', e);
+          // Continue with the full-image and region results
+        }
+      }
+      
       // Determine the best result
       let finalText = '';
       
@@ -499,9 +588,10 @@ export function useTensorflowTextExtraction() {
         finalText = fullImageText;
       }
       
-      // Save the best image variant
-      if (bestVariantIndex >= 0 && bestVariantIndex < imageVariants.length) {
-        setBestImageVariant(imageVariants[bestVariantIndex]);
+      // Merge rim text with the normal pass; near-duplicate lines collapse into the longer one
+      if (ringResult && ringResult.lines.length > 0) {
+        finalText = removeDuplicateLines([finalText, ...ringResult.lines].filter(Boolean).join('\n'));
+        setTextRegions([...regionTexts, ...ringResult.regions]);
       }
       
       setProgress(95);
@@ -515,13 +605,30 @@ export function useTensorflowTextExtraction() {
       
       return finalText;
     } catch (err) {
+      if (isAbortError(err)) {
+        // Leave the state alone if a newer extraction has taken over
+        if (abortControllerRef.current === controller) {
+          setIsExtracting(false);
+          setProgress(0);
+        }
+        return null;
+      }
       console.error('Text extraction error:', err);
       setError(err instanceof Error ? err.message : 'Failed to extract text');
       setIsExtracting(false);
       return '';
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
     }
   }, []);
   
+  // Stop the running extraction; its extractTextFromImage call resolves to null
+  const cancelExtraction = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+  
   // Helper function to remove duplicate lines when combining text from multiple sources
   const removeDuplicateLines = (text: string): string => {
     if (!text) return '';
@@ -601,8 +708,10 @@ export function useTensorflowTextExtraction() {
     isExtracting,
     progress,
     error,
+    variantErrors,
     textRegions,
     bestImageVariant,
-    extractTextFromImage
+    extractTextFromImage,
+    cancelExtraction
   };
 }
\ No newline at end of file
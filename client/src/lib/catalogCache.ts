@@ -0,0 +1,145 @@
+/**
+ * Offline Catalog Cache
+ * Keeps the last downloaded product catalog in IndexedDB so products can still be
+ * identified without a connection. A cached catalog is used right away and then
+ * revalidated in the background with its ETag: the server answers 304 when the
+ * catalog hasn't changed, and a newer catalog replaces the cached one.
+ */
+
+const DB_NAME = "product-catalog";
+const DB_VERSION = 1;
+const STORE_NAME = "catalogs";
+
+export interface CachedCatalog {
+  url: string; // Catalogs are cached per download URL, i.e. per format
+  etag: string | null;
+  body: ArrayBuffer;
+  fetchedAt: string; // ISO timestamp of the download
+}
+
+export type CatalogSyncStatus =
+  | "updated" // A newer catalog was downloaded
+  | "not-modified" // The cached catalog is current
+  | "empty" // The server has no catalog
+  | "invalid" // The downloaded catalog was rejected; the cached one, if any, stays in use
+  | "offline"; // The server couldn't be reached; the cached catalog is in use
+
+export interface CatalogSyncResult {
+  status: CatalogSyncStatus;
+  fetchedAt: string | null; // When the catalog in use was downloaded
+}
+
+/**
+ * Receives each catalog to use: the cached copy, then a newer download. Null means the
+ * server has no catalog. Returns whether the catalog was usable; rejected downloads
+ * aren't cached.
+ */
+export type CatalogConsumer = (body: ArrayBuffer | null, source: "cache" | "network") => boolean;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'url' });
+  };
+  return requestResult(request);
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await requestResult(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * The cached catalog for a URL, or null if there is none or storage is unavailable
+ */
+export async function readCachedCatalog(url: string): Promise<CachedCatalog | null> {
+  try {
+    return (await withStore<CachedCatalog | undefined>('readonly', store => store.get(url))) ?? null;
+  } catch (error) {
+    console.warn('Catalog cache unavailable:', error);
+    return null;
+  }
+}
+
+// Caching is best effort: without storage the app simply needs a connection
+async function writeCachedCatalog(catalog: CachedCatalog): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.put(catalog));
+  } catch (error) {
+    console.warn('Could not cache the product catalog:', error);
+  }
+}
+
+async function deleteCachedCatalog(url: string): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.delete(url));
+  } catch (error) {
+    console.warn('Could not clear the cached product catalog:', error);
+  }
+}
+
+/**
+ * Load a catalog cache-first, then bring it up to date from the server
+ *
+ * @param url The catalog download URL
+ * @param consume Applies each catalog; see CatalogConsumer
+ * @returns How the catalog was brought up to date
+ * @throws Error if there is no cached catalog and the download fails
+ */
+export async function syncCatalog(url: string, consume: CatalogConsumer): Promise<CatalogSyncResult> {
+  const cached = await readCachedCatalog(url);
+  // A cached catalog that can't be used any more, e.g. after an app update, is replaced
+  const cacheUsable = cached !== null && consume(cached.body, 'cache');
+  const fallback = cacheUsable ? cached : null;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: fallback?.etag ? { 'If-None-Match': fallback.etag } : {},
+      cache: 'no-store', // Revalidation is handled here, not by the HTTP cache
+    });
+  } catch (error) {
+    if (!fallback) throw error;
+    return { status: 'offline', fetchedAt: fallback.fetchedAt };
+  }
+
+  const etag = response.headers.get('ETag');
+  if (fallback && (response.status === 304 || (response.ok && etag !== null && etag === fallback.etag))) {
+    return { status: 'not-modified', fetchedAt: fallback.fetchedAt };
+  }
+
+  if (response.status === 404) {
+    await deleteCachedCatalog(url);
+    consume(null, 'network');
+    return { status: 'empty', fetchedAt: null };
+  }
+
+  if (!response.ok) {
+    if (!fallback) throw new Error(`Failed to download the product catalog (${response.status})`);
+    console.warn(`Catalog refresh failed with status ${response.status}; using the cached catalog`);
+    return { status: 'offline', fetchedAt: fallback.fetchedAt };
+  }
+
+  const body = await response.arrayBuffer();
+  const download: CachedCatalog = { url, etag, body, fetchedAt: new Date().toISOString() };
+  if (!consume(body, 'network')) {
+    return { status: 'invalid', fetchedAt: fallback?.fetchedAt ?? null };
+  }
+
+  await writeCachedCatalog(download);
+  return { status: 'updated', fetchedAt: download.fetchedAt };
+}
@@ -0,0 +1,280 @@
+/**
+ * Circle Detection for Tin Lids
+ * This module finds the dominant circular outline in an image using a
+ * gradient-based Hough transform, so the crop can start framed on the lid.
+ */
+
+export interface DetectedCircle {
+  x: number;          // Center x in source image pixels
+  y: number;          // Center y in source image pixels
+  radius: number;     // Radius in source image pixels
+  confidence: number; // Share of the circumference backed by radial edges, chance-corrected (0-1)
+}
+
+export interface CircleDetectionOptions {
+  minRadius?: number;  // Smallest radius to search, as a fraction of the shorter image side
+  maxRadius?: number;  // Largest radius to search, as a fraction of the shorter image side
+  workingSize?: number; // Longest side (px) the image is downscaled to before voting
+}
+
+// Below this confidence the detection is treated as a miss
+export const CIRCLE_CONFIDENCE_THRESHOLD = 0.4;
+
+const DEFAULT_OPTIONS: Required<CircleDetectionOptions> = {
+  minRadius: 0.15,
+  maxRadius: 0.5,
+  workingSize: 240,
+};
+
+/**
+ * Convert RGBA pixels to a lightly blurred grayscale buffer
+ */
+function toBlurredGrayscale(imageData: ImageData): Float32Array {
+  const { width, height, data } = imageData;
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+  }
+
+  // 3x3 box blur to suppress texture and sensor noise before taking gradients
+  const blurred = new Float32Array(gray);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        for (let kx = -1; kx <= 1; kx++) {
+          sum += gray[(y + ky) * width + (x + kx)];
+        }
+      }
+      blurred[y * width + x] = sum / 9;
+    }
+  }
+
+  return blurred;
+}
+
+/**
+ * Find the strongest circle in the given pixels.
+ * Coordinates in the result are in the pixel space of the given ImageData.
+ *
+ * @param imageData Source pixels (ideally already downscaled)
+ * @param options Radius search range
+ * @returns The best circle found, or null if there are no usable edges
+ */
+export function detectCircleInImageData(
+  imageData: ImageData,
+  options: CircleDetectionOptions = {}
+): DetectedCircle | null {
+  const { minRadius, maxRadius } = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height } = imageData;
+  const shortSide = Math.min(width, height);
+  const rMin = Math.max(3, Math.floor(shortSide * minRadius));
+  const rMax = Math.max(rMin + 1, Math.ceil(shortSide * maxRadius));
+
+  const gray = toBlurredGrayscale(imageData);
+
+  // Sobel gradients
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  const magnitude = new Float32Array(width * height);
+  let magnitudeSum = 0;
+  let magnitudeSqSum = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const dx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+      const dy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+      const mag = Math.sqrt(dx * dx + dy * dy);
+
+      gx[i] = dx;
+      gy[i] = dy;
+      magnitude[i] = mag;
+      magnitudeSum += mag;
+      magnitudeSqSum += mag * mag;
+    }
+  }
+
+  const pixelCount = (width - 2) * (height - 2);
+  const mean = magnitudeSum / pixelCount;
+  const std = Math.sqrt(Math.max(0, magnitudeSqSum / pixelCount - mean * mean));
+  const edgeThreshold = Math.max(20, mean + std);
+
+  // Collect edge pixels with their unit gradient directions
+  const edges: Array<{ x: number; y: number; dx: number; dy: number }> = [];
+  const isEdge = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (magnitude[i] > edgeThreshold) {
+        isEdge[i] = 1;
+        edges.push({ x, y, dx: gx[i] / magnitude[i], dy: gy[i] / magnitude[i] });
+      }
+    }
+  }
+
+  if (edges.length < 10) return null;
+
+  // Each edge pixel votes for centers along its gradient line, in both directions
+  // (the lid may be lighter or darker than the background)
+  const accumulator = new Float32Array(width * height);
+  for (const edge of edges) {
+    for (let r = rMin; r <= rMax; r++) {
+      for (const sign of [1, -1]) {
+        const cx = Math.round(edge.x + sign * r * edge.dx);
+        const cy = Math.round(edge.y + sign * r * edge.dy);
+        if (cx >= 0 && cx < width && cy >= 0 && cy < height) {
+          accumulator[cy * width + cx]++;
+        }
+      }
+    }
+  }
+
+  // Pick the center with the highest 3x3 vote sum
+  let bestVotes = 0;
+  let centerX = 0;
+  let centerY = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let votes = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        for (let kx = -1; kx <= 1; kx++) {
+          votes += accumulator[(y + ky) * width + (x + kx)];
+        }
+      }
+      if (votes > bestVotes) {
+        bestVotes = votes;
+        centerX = x;
+        centerY = y;
+      }
+    }
+  }
+
+  if (bestVotes === 0) return null;
+
+  // Radius histogram of edge distances from the center, normalized by circumference
+  const radiusVotes = new Float32Array(rMax + 2);
+  for (const edge of edges) {
+    const r = Math.round(Math.hypot(edge.x - centerX, edge.y - centerY));
+    if (r >= rMin && r <= rMax) radiusVotes[r]++;
+  }
+
+  let radius = rMin;
+  let bestRadiusScore = 0;
+  for (let r = rMin; r <= rMax; r++) {
+    const score = (radiusVotes[r - 1] + radiusVotes[r] + radiusVotes[r + 1]) / (2 * Math.PI * r);
+    if (score > bestRadiusScore) {
+      bestRadiusScore = score;
+      radius = r;
+    }
+  }
+
+  // Confidence: fraction of sampled points on the circle that sit next to an edge
+  // whose gradient points along the radius (noise edges point anywhere)
+  const samples = 180;
+  let supported = 0;
+  let inBounds = 0;
+  for (let s = 0; s < samples; s++) {
+    const angle = (s / samples) * Math.PI * 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const px = Math.round(centerX + radius * cos);
+    const py = Math.round(centerY + radius * sin);
+    if (px < 1 || px >= width - 1 || py < 1 || py >= height - 1) continue;
+    inBounds++;
+
+    let found = false;
+    for (let ky = -1; ky <= 1 && !found; ky++) {
+      for (let kx = -1; kx <= 1 && !found; kx++) {
+        const i = (py + ky) * width + (px + kx);
+        found = isEdge[i] === 1 &&
+          Math.abs(gx[i] * cos + gy[i] * sin) / magnitude[i] > 0.7;
+      }
+    }
+    if (found) supported++;
+  }
+
+  // Discount the hits a cluttered image would produce by chance
+  const edgeDensity = edges.length / pixelCount;
+  const chanceHit = Math.min(0.99, (1 - Math.pow(1 - edgeDensity, 9)) * 0.5);
+  const support = supported / samples;
+
+  // Circles that are mostly off-screen can't be trusted
+  const confidence = inBounds < samples / 2
+    ? 0
+    : Math.max(0, (support - chanceHit) / (1 - chanceHit));
+
+  return { x: centerX, y: centerY, radius, confidence };
+}
+
+/**
+ * Detect the tin lid in an image data URL.
+ * The image is downscaled for speed; the result is in full-resolution pixels.
+ *
+ * @param imageSrc The source image data URL
+ * @param options Detection options
+ * @returns A Promise resolving to the best circle, or null when none was found
+ */
+export function detectCircleInImage(
+  imageSrc: string,
+  options: CircleDetectionOptions = {}
+): Promise<DetectedCircle | null> {
+  const { workingSize } = { ...DEFAULT_OPTIONS, ...options };
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, workingSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.width * scale));
+      canvas.height = Math.max(1, Math.round(img.height * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const circle = detectCircleInImageData(
+        ctx.getImageData(0, 0, canvas.width, canvas.height),
+        options
+      );
+
+      resolve(circle && {
+        ...circle,
+        x: circle.x / scale,
+        y: circle.y / scale,
+        radius: circle.radius / scale,
+      });
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for circle detection'));
+    };
+
+    img.src = imageSrc;
+  });
+}
+
+/**
+ * Turn a detected circle into a square crop area (in image pixels) that
+ * frames the lid with a little margin and stays inside the image.
+ */
+export function circleToCropArea(
+  circle: DetectedCircle,
+  imageWidth: number,
+  imageHeight: number,
+  margin: number = 1.05
+): { x: number; y: number; width: number; height: number } {
+  const size = Math.min(circle.radius * 2 * margin, imageWidth, imageHeight);
+  const x = Math.min(Math.max(0, circle.x - size / 2), imageWidth - size);
+  const y = Math.min(Math.max(0, circle.y - size / 2), imageHeight - size);
+
+  return { x, y, width: size, height: size };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { hasLightText, invert, normalizePolarity, scoreChannels, toBestChannel } from "./colorChannels";
+import type { PixelBuffer } from "./imageFilters";
+
+type Color = [number, number, number];
+
+const SIZE = 96;
+const RADIUS = SIZE / 2;
+
+const isText = (x: number, y: number) => y > SIZE * 0.3 && y < SIZE * 0.7 && y % 12 < 4 && x % 10 < 4;
+const insideCircle = (x: number, y: number) => (x + 0.5 - RADIUS) ** 2 + (y + 0.5 - RADIUS) ** 2 <= RADIUS * RADIUS;
+
+// A lid of one color with rows of text-like bars, cropped to a circle with transparent corners
+function circularLid(lid: Color, text: Color): PixelBuffer {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      if (insideCircle(x, y)) data.set([...(isText(x, y) ? text : lid), 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+}
+
+// Mean grey level of the opaque text and lid pixels
+function means({ data }: PixelBuffer): { text: number; lid: number } {
+  const sums = { text: 0, lid: 0 };
+  const counts = { text: 0, lid: 0 };
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 4;
+      if (data[i + 3] === 0) continue;
+      const part = isText(x, y) ? "text" : "lid";
+      sums[part] += data[i];
+      counts[part]++;
+    }
+  }
+  return { text: sums.text / counts.text, lid: sums.lid / counts.lid };
+}
+
+describe("scoreChannels", () => {
+  it("prefers a channel that separates colored text of the same brightness", () => {
+    const pixels = circularLid([0, 150, 150], [200, 50, 50]);
+    const scores = scoreChannels(pixels);
+    const score = (channel: string) => scores.find(entry => entry.channel === channel)!.score;
+    expect(scores.map(entry => entry.score)).toEqual([...scores.map(entry => entry.score)].sort((a, b) => b - a));
+    expect(score(scores[0].channel)).toBeGreaterThan(score("lab-l") * 2);
+  });
+
+  it("finds no contrast in a blank lid, however dark its corners are", () => {
+    for (const { score } of scoreChannels(circularLid([90, 90, 90], [90, 90, 90]))) expect(score).toBe(0);
+  });
+
+  it("only scores the requested channels", () => {
+    const scores = scoreChannels(circularLid([220, 220, 220], [40, 40, 40]), ["red", "saturation"]);
+    expect(scores.map(entry => entry.channel).sort()).toEqual(["red", "saturation"]);
+  });
+});
+
+describe("toBestChannel", () => {
+  it("turns red text on teal into grey text with contrast", () => {
+    const pixels = circularLid([0, 150, 150], [200, 50, 50]);
+    toBestChannel(pixels);
+    const { text, lid } = means(pixels);
+    expect(Math.abs(text - lid)).toBeGreaterThan(60);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+      expect(pixels.data[i + 1]).toBe(pixels.data[i]);
+      expect(pixels.data[i + 2]).toBe(pixels.data[i]);
+    }
+  });
+
+  it("uses the only candidate it is given", () => {
+    expect(toBestChannel(circularLid([20, 30, 90], [245, 245, 245]), ["blue"])).toBe("blue");
+  });
+});
+
+describe("hasLightText", () => {
+  it.each([
+    ["light text on a dark lid", [90, 90, 90] as Color, [230, 230, 230] as Color, true],
+    ["dark text on a light lid", [220, 220, 220] as Color, [40, 40, 40] as Color, false],
+    ["white text on navy", [20, 30, 90] as Color, [245, 245, 245] as Color, true],
+  ])("detects %s", (_, lid, text, light) => {
+    expect(hasLightText(circularLid(lid, text))).toBe(light);
+  });
+});
+
+describe("normalizePolarity", () => {
+  it("inverts light text to dark on light", () => {
+    const pixels = circularLid([90, 90, 90], [230, 230, 230]);
+    expect(normalizePolarity(pixels)).toBe(true);
+    const { text, lid } = means(pixels);
+    expect(text).toBeLessThan(lid);
+  });
+
+  it("leaves dark text alone", () => {
+    const pixels = circularLid([220, 220, 220], [40, 40, 40]);
+    const before = new Uint8ClampedArray(pixels.data);
+    expect(normalizePolarity(pixels)).toBe(false);
+    expect(pixels.data).toEqual(before);
+  });
+});
+
+describe("invert", () => {
+  it("inverts the color channels but not alpha", () => {
+    const pixels: PixelBuffer = { data: new Uint8ClampedArray([10, 100, 255, 0, 0, 128, 200, 255]), width: 2, height: 1 };
+    invert(pixels);
+    expect(Array.from(pixels.data)).toEqual([245, 155, 0, 0, 255, 127, 55, 255]);
+  });
+});
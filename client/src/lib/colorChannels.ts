@@ -0,0 +1,268 @@
+/**
+ * Color Channel and Polarity Selection
+ * Averaging red, green and blue throws away the contrast of colored print, such as
+ * red text on an orange lid. This module scores candidate channels (RGB, HSV
+ * saturation and value, Lab, and the principal components of the lid's colors) by
+ * how text-like their contrast is and converts the image to the best one. It also
+ * detects light-on-dark text so it can be inverted to the dark-on-light text OCR
+ * expects. Like imageFilters.ts, it runs in the enhancement worker.
+ */
+
+import { otsuSplit, PixelBuffer } from "./imageFilters";
+
+export const colorChannels = [
+  "red", "green", "blue",
+  "saturation", "value", // HSV; hue is left out because it wraps around and is undefined for greys
+  "lab-l", "lab-a", "lab-b",
+  "pc1", "pc2", // Projections onto the first two principal components of the pixel colors
+] as const;
+
+export type ColorChannel = (typeof colorChannels)[number];
+
+export interface ChannelScore {
+  channel: ColorChannel;
+  score: number; // Separability × edge strength; higher is more text-like
+  separability: number; // Otsu between-class / total variance, 0-1
+  edgeStrength: number; // Mean absolute difference between neighbouring pixels, 0-255 scale
+}
+
+// Channels are scored on a subsample of about this many pixels
+const SCORING_PIXELS = 65536;
+
+// Text is the minority class: below this bright share, the bright class is taken to be the text
+const LIGHT_TEXT_FRACTION = 0.4;
+
+// sRGB to linear light, for the Lab conversion
+const LINEAR = Float32Array.from({ length: 256 }, (_, level) => {
+  const c = level / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+const labF = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+// Lab (D65) scaled to 0-255: L from 0-100, a and b offset by 128
+function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = LINEAR[r];
+  const lg = LINEAR[g];
+  const lb = LINEAR[b];
+  const x = labF((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const y = labF(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const z = labF((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+  return [(116 * y - 16) * 2.55, 500 * (x - y) + 128, 200 * (y - z) + 128];
+}
+
+/**
+ * Eigenvectors of a symmetric 3×3 matrix by Jacobi rotations, sorted by
+ * decreasing eigenvalue
+ */
+function eigenvectors3(matrix: number[][]): number[][] {
+  const a = matrix.map(row => [...row]);
+  const v = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  for (let sweep = 0; sweep < 20; sweep++) {
+    const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+    if (offDiagonal < 1e-9) break;
+
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (Math.abs(a[p][q]) < 1e-12) continue;
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k][p];
+        const akq = a[k][q];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p][k];
+        const aqk = a[q][k];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[k][p];
+        const vkq = v[k][q];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+
+  return [0, 1, 2]
+    .sort((i, j) => a[j][j] - a[i][i])
+    .map(i => [v[0][i], v[1][i], v[2][i]]);
+}
+
+// Mean color and principal axes of the opaque pixels' colors
+function principalComponents({ data }: PixelBuffer, step: number) {
+  const mean = [0, 0, 0];
+  let count = 0;
+  for (let i = 0; i < data.length; i += 4 * step) {
+    if (data[i + 3] === 0) continue;
+    mean[0] += data[i];
+    mean[1] += data[i + 1];
+    mean[2] += data[i + 2];
+    count++;
+  }
+  mean.forEach((_, c) => (mean[c] /= Math.max(1, count)));
+
+  const covariance = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (let i = 0; i < data.length; i += 4 * step) {
+    if (data[i + 3] === 0) continue;
+    const d = [data[i] - mean[0], data[i + 1] - mean[1], data[i + 2] - mean[2]];
+    for (let r = 0; r < 3; r++) {
+      for (let c = r; c < 3; c++) covariance[r][c] += d[r] * d[c];
+    }
+  }
+  for (let r = 0; r < 3; r++) {
+    for (let c = r; c < 3; c++) {
+      covariance[r][c] /= Math.max(1, count);
+      covariance[c][r] = covariance[r][c];
+    }
+  }
+
+  return { mean, axes: eigenvectors3(covariance) };
+}
+
+/**
+ * A function reading one channel from an RGB triple, on a 0-255 scale.
+ * Principal components are centered on mid-grey; their sign is arbitrary.
+ */
+function channelReader(channel: ColorChannel, pixels: PixelBuffer, step: number): (r: number, g: number, b: number) => number {
+  switch (channel) {
+    case "red": return r => r;
+    case "green": return (_, g) => g;
+    case "blue": return (_, __, b) => b;
+    case "saturation": return (r, g, b) => {
+      const max = Math.max(r, g, b);
+      return max === 0 ? 0 : ((max - Math.min(r, g, b)) * 255) / max;
+    };
+    case "value": return (r, g, b) => Math.max(r, g, b);
+    case "lab-l": return (r, g, b) => rgbToLab(r, g, b)[0];
+    case "lab-a": return (r, g, b) => rgbToLab(r, g, b)[1];
+    case "lab-b": return (r, g, b) => rgbToLab(r, g, b)[2];
+    case "pc1":
+    case "pc2": {
+      const { mean, axes } = principalComponents(pixels, step);
+      const axis = axes[channel === "pc1" ? 0 : 1];
+      return (r, g, b) => 128 + (r - mean[0]) * axis[0] + (g - mean[1]) * axis[1] + (b - mean[2]) * axis[2];
+    }
+  }
+}
+
+/**
+ * Score each candidate channel by how text-like its contrast is: text splits
+ * cleanly into two tones (Otsu separability) and has many sharp edges. A channel
+ * that is flat apart from noise scores low on both. Transparent pixels, such as
+ * the corners of a circular crop, are left out, and so is the edge around them.
+ *
+ * @returns Scores, best first
+ */
+export function scoreChannels(pixels: PixelBuffer, candidates: readonly ColorChannel[] = colorChannels): ChannelScore[] {
+  const { data, width, height } = pixels;
+  // Subsample rows and columns evenly so neighbours stay neighbours
+  const stride = Math.max(1, Math.round(Math.sqrt((width * height) / SCORING_PIXELS)));
+  const sampleWidth = Math.ceil(width / stride);
+  const sampleHeight = Math.ceil(height / stride);
+  const values = new Float32Array(sampleWidth * sampleHeight);
+  const opaque = new Uint8Array(sampleWidth * sampleHeight);
+  for (let sy = 0; sy < sampleHeight; sy++) {
+    for (let sx = 0; sx < sampleWidth; sx++) {
+      opaque[sy * sampleWidth + sx] = data[(sy * stride * width + sx * stride) * 4 + 3] === 0 ? 0 : 1;
+    }
+  }
+  const histogram = new Uint32Array(256);
+
+  return candidates
+    .map(channel => {
+      const read = channelReader(channel, pixels, stride * stride);
+      histogram.fill(0);
+      for (let sy = 0; sy < sampleHeight; sy++) {
+        for (let sx = 0; sx < sampleWidth; sx++) {
+          if (!opaque[sy * sampleWidth + sx]) continue;
+          const i = (sy * stride * width + sx * stride) * 4;
+          const value = Math.min(255, Math.max(0, read(data[i], data[i + 1], data[i + 2])));
+          values[sy * sampleWidth + sx] = value;
+          histogram[Math.round(value)]++;
+        }
+      }
+
+      let edges = 0;
+      let pairs = 0;
+      for (let sy = 0; sy < sampleHeight; sy++) {
+        for (let sx = 0; sx < sampleWidth; sx++) {
+          if (!opaque[sy * sampleWidth + sx]) continue;
+          const value = values[sy * sampleWidth + sx];
+          if (sx + 1 < sampleWidth && opaque[sy * sampleWidth + sx + 1]) {
+            edges += Math.abs(values[sy * sampleWidth + sx + 1] - value);
+            pairs++;
+          }
+          if (sy + 1 < sampleHeight && opaque[(sy + 1) * sampleWidth + sx]) {
+            edges += Math.abs(values[(sy + 1) * sampleWidth + sx] - value);
+            pairs++;
+          }
+        }
+      }
+
+      const { separability } = otsuSplit(histogram);
+      const edgeStrength = pairs > 0 ? edges / pairs : 0;
+      return { channel, score: separability * edgeStrength, separability, edgeStrength };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Convert the image to grayscale using its most text-like channel
+ *
+ * @returns The channel used
+ */
+export function toBestChannel(pixels: PixelBuffer, candidates: readonly ColorChannel[] = colorChannels): ColorChannel {
+  const [best] = scoreChannels(pixels, candidates);
+  const channel = best?.channel ?? "value";
+  const read = channelReader(channel, pixels, 1);
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = read(data[i], data[i + 1], data[i + 2]);
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+  }
+  return channel;
+}
+
+/**
+ * Whether the text looks light on a dark background. Text covers less of a lid
+ * than its background, so when the bright side of the Otsu split is clearly the
+ * smaller one, the bright side is taken to be the text. Transparent pixels are
+ * ignored; a crop's corners would otherwise count as dark background.
+ */
+export function hasLightText({ data }: PixelBuffer): boolean {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram[Math.round((data[i] + data[i + 1] + data[i + 2]) / 3)]++;
+  }
+  return otsuSplit(histogram).brightFraction < LIGHT_TEXT_FRACTION;
+}
+
+export function invert({ data }: PixelBuffer): void {
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = 255 - data[i];
+    data[i + 1] = 255 - data[i + 1];
+    data[i + 2] = 255 - data[i + 2];
+  }
+}
+
+/**
+ * Invert the image if its text is light on dark, so text ends up dark on light
+ *
+ * @returns Whether the image was inverted
+ */
+export function normalizePolarity(pixels: PixelBuffer): boolean {
+  const light = hasLightText(pixels);
+  if (light) invert(pixels);
+  return light;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PRESET_SET,
+  describeStep,
+  parsePresetSet,
+  parsePresetSetJSON,
+  PRESET_SET_VERSION,
+  serializePresetSet,
+} from "./enhancementPipeline";
+
+function errorPaths(json: string): string[] {
+  const result = parsePresetSetJSON(json);
+  if (result.success) throw new Error("Expected the preset set to be rejected");
+  return result.errors.map(error => error.path);
+}
+
+describe("parsePresetSetJSON", () => {
+  it("round-trips the default preset set", () => {
+    expect(parsePresetSetJSON(serializePresetSet(DEFAULT_PRESET_SET))).toEqual({
+      success: true,
+      presetSet: DEFAULT_PRESET_SET,
+    });
+  });
+
+  it("fills in step defaults", () => {
+    const result = parsePresetSetJSON(JSON.stringify({
+      version: 1,
+      name: "Minimal",
+      pipelines: [{ name: "Threshold", steps: [{ op: "binarize" }, { op: "clahe" }] }],
+    }));
+    expect(result.success && result.presetSet.pipelines[0].steps).toEqual([
+      { op: "binarize", method: "otsu", threshold: 128 },
+      { op: "clahe", tiles: 8, clipLimit: 2 },
+    ]);
+  });
+
+  it("wraps a single pipeline in a set named after it", () => {
+    const result = parsePresetSetJSON(JSON.stringify({ name: "Sharp", steps: [{ op: "sharpen" }] }));
+    expect(result).toEqual({
+      success: true,
+      presetSet: { version: PRESET_SET_VERSION, name: "Sharp", pipelines: [{ name: "Sharp", steps: [{ op: "sharpen" }] }] },
+    });
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(parsePresetSetJSON("{ pipelines: ")).toEqual({
+      success: false,
+      errors: [{ path: "", message: "Not valid JSON" }],
+    });
+  });
+
+  it("rejects sets from a newer version with a single error", () => {
+    const result = parsePresetSetJSON(JSON.stringify({ ...DEFAULT_PRESET_SET, version: PRESET_SET_VERSION + 1 }));
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      { path: "version", message: expect.stringContaining("newer than supported") },
+    ]);
+  });
+
+  it("reports the path of each invalid field", () => {
+    expect(errorPaths(JSON.stringify({
+      version: 1,
+      name: "Broken",
+      pipelines: [
+        { name: "Ok", steps: [{ op: "grayscale" }] },
+        { name: "Bad", steps: [{ op: "gamma", gamma: 9 }, { op: "rotate" }] },
+      ],
+    }))).toEqual(["pipelines.1.steps.0.gamma", "pipelines.1.steps.1.op"]);
+  });
+
+  it.each([
+    ["no pipelines", { version: 1, name: "Empty", pipelines: [] }, "pipelines"],
+    ["a blank name", { version: 1, name: "  ", pipelines: [{ name: "A", steps: [] }] }, "name"],
+    ["an unknown channel", { version: 1, name: "C", pipelines: [{ name: "A", steps: [{ op: "bestChannel", channels: ["alpha"] }] }] }, "pipelines.0.steps.0.channels.0"],
+  ])("rejects %s", (_, raw, path) => {
+    const result = parsePresetSet(raw);
+    expect(!result.success && result.errors.map(error => error.path)).toContain(path);
+  });
+});
+
+describe("describeStep", () => {
+  it.each([
+    [{ op: "binarize", method: "sauvola", threshold: 128 } as const, "Binarize (sauvola)"],
+    [{ op: "binarize", method: "fixed", threshold: 100 } as const, "Binarize (threshold 100)"],
+    [{ op: "gamma", gamma: "auto" } as const, "Gamma (auto)"],
+    [{ op: "contrast", contrast: 1.5, brightness: -10 } as const, "Contrast 1.5, brightness -10"],
+  ])("describes %o", (step, description) => {
+    expect(describeStep(step)).toBe(description);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Enhancement Pipelines
+ * A declarative format for the image enhancement run before OCR. A pipeline is an
+ * ordered list of typed steps with parameters, applied in exactly that order; a
+ * preset set is the group of pipelines tried on every image. Preset sets can be
+ * saved in the browser and shared or imported as JSON files.
+ */
+
+import { z } from "zod";
+import { colorChannels } from "./colorChannels";
+
+export const PRESET_SET_VERSION = 1;
+
+/**
+ * How binarization picks its threshold:
+ * - fixed: the `threshold` parameter for the whole image
+ * - otsu: one threshold for the whole image, chosen from its histogram
+ * - sauvola / niblack: a threshold per pixel from the mean and spread of its
+ *   neighbourhood, which copes with gradients and uneven lighting
+ */
+export const binarizationMethods = ["fixed", "otsu", "sauvola", "niblack"] as const;
+
+export const enhancementStepSchema = z.discriminatedUnion("op", [
+  // Neutralize color casts (gray-world)
+  z.object({ op: z.literal("whiteBalance") }),
+  // Replace each pixel with the average of its channels
+  z.object({ op: z.literal("grayscale") }),
+  // Grayscale from the most text-like color channel; by default all candidates are tried
+  z.object({
+    op: z.literal("bestChannel"),
+    channels: z.array(z.enum(colorChannels)).min(1).optional(),
+  }),
+  // Invert when the text looks light on dark, so it ends up dark on light
+  z.object({ op: z.literal("autoInvert") }),
+  z.object({ op: z.literal("invert") }),
+  // Below 1 brightens; "auto" brings the mean brightness to mid-grey
+  z.object({
+    op: z.literal("gamma"),
+    gamma: z.union([z.number().min(0.1).max(5), z.literal("auto")]).default("auto"),
+  }),
+  // Contrast-limited adaptive histogram equalization
+  z.object({
+    op: z.literal("clahe"),
+    tiles: z.number().int().min(1).max(32).default(8), // Grid size per side
+    clipLimit: z.number().min(1).max(10).default(2), // Multiple of the mean histogram bin height
+  }),
+  // 1.0 is normal contrast; brightness 0 is normal, positive values brighten
+  z.object({
+    op: z.literal("contrast"),
+    contrast: z.number().min(0).max(10).default(1),
+    brightness: z.number().min(-255).max(255).default(0),
+  }),
+  z.object({ op: z.literal("sharpen") }),
+  z.object({
+    op: z.literal("binarize"),
+    method: z.enum(binarizationMethods).default("otsu"),
+    threshold: z.number().int().min(0).max(255).default(128), // Used by "fixed"
+    windowSize: z.number().int().min(3).max(255).optional(), // Neighbourhood for "sauvola" and "niblack"
+    k: z.number().min(-1).max(1).optional(), // Sensitivity; Sauvola defaults to 0.34, Niblack to -0.2
+  }),
+  // 3×3 median filter against noise
+  z.object({ op: z.literal("despeckle") }),
+]);
+
+const stepListSchema = z.array(enhancementStepSchema).max(20);
+
+export const enhancementPipelineSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  steps: stepListSchema,
+  // Used instead of steps when the image is unevenly lit, where one global threshold fails
+  unevenLighting: stepListSchema.optional(),
+});
+
+export const presetSetSchema = z.object({
+  version: z.literal(PRESET_SET_VERSION),
+  name: z.string().trim().min(1).max(60),
+  pipelines: z.array(enhancementPipelineSchema).min(1).max(24),
+});
+
+export type BinarizationMethod = (typeof binarizationMethods)[number];
+export type EnhancementStep = z.infer<typeof enhancementStepSchema>;
+export type EnhancementOperation = EnhancementStep["op"];
+export type EnhancementPipeline = z.infer<typeof enhancementPipelineSchema>;
+export type EnhancementPresetSet = z.infer<typeof presetSetSchema>;
+
+export interface PresetSetIssue {
+  path: string; // Dotted path to the offending field, empty for the whole file
+  message: string;
+}
+
+export type PresetSetParseResult =
+  | { success: true; presetSet: EnhancementPresetSet }
+  | { success: false; errors: PresetSetIssue[] };
+
+// Labels for the pipeline editor, and each step with its default parameters
+export const ENHANCEMENT_OPERATIONS: Record<EnhancementOperation, { label: string; defaults: EnhancementStep }> = {
+  whiteBalance: { label: "White balance", defaults: { op: "whiteBalance" } },
+  grayscale: { label: "Grayscale", defaults: { op: "grayscale" } },
+  bestChannel: { label: "Best color channel", defaults: { op: "bestChannel" } },
+  autoInvert: { label: "Dark text on light (auto invert)", defaults: { op: "autoInvert" } },
+  invert: { label: "Invert", defaults: { op: "invert" } },
+  gamma: { label: "Gamma", defaults: { op: "gamma", gamma: "auto" } },
+  clahe: { label: "Adaptive equalization (CLAHE)", defaults: { op: "clahe", tiles: 8, clipLimit: 2 } },
+  contrast: { label: "Contrast / brightness", defaults: { op: "contrast", contrast: 1.5, brightness: 0 } },
+  sharpen: { label: "Sharpen", defaults: { op: "sharpen" } },
+  binarize: { label: "Binarize", defaults: { op: "binarize", method: "otsu", threshold: 128 } },
+  despeckle: { label: "Despeckle", defaults: { op: "despeckle" } },
+};
+
+// Grayscale from the most text-like channel, with light-on-dark text inverted; this
+// replaces the separate light-text pipelines that guessed at brightness settings
+const TEXT_CHANNEL: EnhancementStep[] = [{ op: "bestChannel" }, { op: "autoInvert" }];
+
+/**
+ * The built-in pipelines tried on every image, in addition to the original
+ */
+export const DEFAULT_PRESET_SET: EnhancementPresetSet = {
+  version: PRESET_SET_VERSION,
+  name: "Default",
+  pipelines: [
+    {
+      // Plain channel average, in case the channel choice goes wrong
+      name: "Grayscale with increased contrast",
+      steps: [{ op: "grayscale" }, { op: "contrast", contrast: 1.5, brightness: 0 }],
+    },
+    {
+      name: "Sharpened best channel",
+      steps: [...TEXT_CHANNEL, { op: "contrast", contrast: 1.2, brightness: 0 }, { op: "sharpen" }],
+    },
+    {
+      name: "Binarized (black and white)",
+      steps: [...TEXT_CHANNEL, { op: "binarize", method: "otsu", threshold: 128 }],
+      unevenLighting: [...TEXT_CHANNEL, { op: "binarize", method: "sauvola", threshold: 128 }],
+    },
+    {
+      name: "Despeckled high contrast",
+      steps: [...TEXT_CHANNEL, { op: "contrast", contrast: 1.7, brightness: 10 }, { op: "despeckle" }],
+    },
+    {
+      name: "Dark text optimization",
+      steps: [...TEXT_CHANNEL, { op: "contrast", contrast: 2.0, brightness: -10 }],
+    },
+    {
+      // Special for small text - very high contrast and sharp
+      name: "Small text",
+      steps: [...TEXT_CHANNEL, { op: "contrast", contrast: 2.5, brightness: 0 }, { op: "sharpen" }, { op: "despeckle" }],
+    },
+    {
+      // Common in product packaging; a lower threshold preserves small dark text
+      name: "Small dark text on light background",
+      steps: [
+        ...TEXT_CHANNEL,
+        { op: "contrast", contrast: 3.0, brightness: -5 },
+        { op: "sharpen" },
+        { op: "binarize", method: "fixed", threshold: 100 },
+      ],
+      unevenLighting: [
+        ...TEXT_CHANNEL,
+        { op: "contrast", contrast: 1.5, brightness: 0 },
+        { op: "sharpen" },
+        { op: "binarize", method: "sauvola", threshold: 128, k: 0.2 },
+      ],
+    },
+    {
+      name: "Edge-enhanced for text boundaries",
+      steps: [...TEXT_CHANNEL, { op: "contrast", contrast: 2.2, brightness: 0 }, { op: "sharpen" }],
+    },
+    {
+      // Dark matte tins: lift the shadows, then bring out local contrast
+      name: "Gamma-corrected and equalized",
+      steps: [{ op: "whiteBalance" }, ...TEXT_CHANNEL, { op: "gamma", gamma: "auto" }, { op: "clahe", tiles: 8, clipLimit: 2.5 }],
+    },
+    {
+      // Glossy tins: a low clip limit keeps glare from swamping nearby print
+      name: "Locally equalized",
+      steps: [{ op: "whiteBalance" }, ...TEXT_CHANNEL, { op: "clahe", tiles: 4, clipLimit: 1.5 }, { op: "sharpen" }],
+    },
+  ],
+};
+
+/**
+ * One-line summary of a step and its parameters, e.g. "Binarize (sauvola)"
+ */
+export function describeStep(step: EnhancementStep): string {
+  const { label } = ENHANCEMENT_OPERATIONS[step.op];
+  switch (step.op) {
+    case "bestChannel":
+      return step.channels ? `${label} (${step.channels.join(", ")})` : label;
+    case "gamma":
+      return `${label} ${step.gamma === "auto" ? "(auto)" : step.gamma}`;
+    case "clahe":
+      return `CLAHE ${step.tiles}×${step.tiles}, clip ${step.clipLimit}`;
+    case "contrast":
+      return `Contrast ${step.contrast}${step.brightness ? `, brightness ${step.brightness > 0 ? "+" : ""}${step.brightness}` : ""}`;
+    case "binarize":
+      return `${label} (${step.method === "fixed" ? `threshold ${step.threshold}` : step.method})`;
+    default:
+      return label;
+  }
+}
+
+/**
+ * Validate an imported preset set. A single pipeline is accepted too and becomes
+ * a set of its own.
+ */
+export function parsePresetSet(raw: unknown): PresetSetParseResult {
+  const single = enhancementPipelineSchema.safeParse(raw);
+  const candidate = single.success
+    ? { version: PRESET_SET_VERSION, name: single.data.name, pipelines: [single.data] }
+    : raw;
+
+  if (typeof candidate === "object" && candidate !== null && "version" in candidate &&
+      typeof candidate.version === "number" && candidate.version > PRESET_SET_VERSION) {
+    return {
+      success: false,
+      errors: [{ path: "version", message: `Preset set version ${candidate.version} is newer than supported (${PRESET_SET_VERSION})` }],
+    };
+  }
+
+  const parsed = presetSetSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+    };
+  }
+  return { success: true, presetSet: parsed.data };
+}
+
+/**
+ * Parse preset set JSON, e.g. a shared file or pasted text
+ */
+export function parsePresetSetJSON(json: string): PresetSetParseResult {
+  try {
+    return parsePresetSet(JSON.parse(json));
+  } catch {
+    return { success: false, errors: [{ path: "", message: "Not valid JSON" }] };
+  }
+}
+
+export function serializePresetSet(presetSet: EnhancementPresetSet): string {
+  return JSON.stringify(presetSet, null, 2);
+}
+
+const PRESET_SETS_STORAGE_KEY = "enhancementPresetSets";
+const SELECTED_PRESET_SET_STORAGE_KEY = "enhancementPresetSet";
+
+/**
+ * Preset sets saved in this browser; entries that no longer validate are skipped
+ */
+export function loadSavedPresetSets(): EnhancementPresetSet[] {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(PRESET_SETS_STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap(entry => {
+    const result = parsePresetSet(entry);
+    if (!result.success) {
+      console.warn("Ignoring an invalid saved preset set:", result.errors);
+      return [];
+    }
+    return [result.presetSet];
+  });
+}
+
+/**
+ * Save a preset set, replacing a saved set of the same name
+ *
+ * @throws Error if the name is that of the built-in set
+ */
+export function savePresetSet(presetSet: EnhancementPresetSet): EnhancementPresetSet[] {
+  if (presetSet.name === DEFAULT_PRESET_SET.name) {
+    throw new Error(`"${DEFAULT_PRESET_SET.name}" is the built-in preset set; choose another name`);
+  }
+  const sets = [...loadSavedPresetSets().filter(set => set.name !== presetSet.name), presetSet];
+  localStorage.setItem(PRESET_SETS_STORAGE_KEY, JSON.stringify(sets));
+  return sets;
+}
+
+export function deletePresetSet(name: string): EnhancementPresetSet[] {
+  const sets = loadSavedPresetSets().filter(set => set.name !== name);
+  localStorage.setItem(PRESET_SETS_STORAGE_KEY, JSON.stringify(sets));
+  return sets;
+}
+
+// The name of the preset set chosen for OCR
+export function loadSelectedPresetSetName(): string {
+  return localStorage.getItem(SELECTED_PRESET_SET_STORAGE_KEY) || DEFAULT_PRESET_SET.name;
+}
+
+export function saveSelectedPresetSetName(name: string) {
+  localStorage.setItem(SELECTED_PRESET_SET_STORAGE_KEY, name);
+}
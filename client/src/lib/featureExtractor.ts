@@ -0,0 +1,317 @@
+/**
+ * Visual Feature Extraction for Product Identification
+ * Computes a handcrafted color, texture and shape descriptor from a circular lid crop.
+ * Every component is rotation invariant, since tins are photographed at any angle.
+ *
+ * The extractor is pure (no DOM access) so the catalog build script can run the
+ * exact same code in Node on reference images.
+ */
+
+// Identifies the extractor a catalog was built with; bump when the descriptor changes
+export const FEATURE_EXTRACTOR_ID = "handcrafted-v1";
+
+// Minimal RGBA pixel container, satisfied by both ImageData and decoded JPEGs
+export interface PixelData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+// Side of the grid the crop is resampled to before measuring
+const GRID_SIZE = 96;
+
+const HUE_BINS = 8;
+const SATURATION_BINS = 3;
+const VALUE_BINS = 3;
+const RING_COUNT = 3;
+const GRADIENT_BINS = 8;
+const LBP_BINS = 10; // Rotation-invariant uniform patterns for 8 neighbours, plus "non-uniform"
+const EDGE_RINGS = 4;
+
+// Relative influence of each block on the final similarity
+const BLOCK_WEIGHTS = {
+  colorHistogram: 1.0,
+  ringColors: 0.6,
+  gradients: 0.5,
+  texture: 0.6,
+  edgeProfile: 0.4,
+};
+
+export const FEATURE_DIMENSION =
+  HUE_BINS * SATURATION_BINS * VALUE_BINS +
+  RING_COUNT * 3 +
+  GRADIENT_BINS +
+  LBP_BINS +
+  EDGE_RINGS;
+
+export type FeatureBlock = keyof typeof BLOCK_WEIGHTS;
+
+// Descriptor layout, in vector order
+const BLOCK_SIZES: Record<FeatureBlock, number> = {
+  colorHistogram: HUE_BINS * SATURATION_BINS * VALUE_BINS,
+  ringColors: RING_COUNT * 3,
+  gradients: GRADIENT_BINS,
+  texture: LBP_BINS,
+  edgeProfile: EDGE_RINGS,
+};
+
+export const FEATURE_BLOCK_LABELS: Record<FeatureBlock, string> = {
+  colorHistogram: "Color histogram",
+  ringColors: "Ring colors",
+  gradients: "Edge strength",
+  texture: "Texture",
+  edgeProfile: "Edge layout",
+};
+
+// 45° hue sectors starting at red
+const HUE_NAMES = ["red", "orange", "yellow-green", "green", "cyan", "blue", "purple", "pink"];
+const SATURATION_NAMES = ["grey", "muted", "vivid"];
+const VALUE_NAMES = ["dark", "mid-tone", "bright"];
+const RING_NAMES = ["center", "middle ring", "rim"];
+const CHANNEL_NAMES = ["red", "green", "blue"];
+
+/**
+ * Describe one dimension of the descriptor, e.g. for explaining a match
+ *
+ * @param index Position in a vector from extractFeatureVector
+ * @returns The block the dimension belongs to and a readable label
+ */
+export function describeFeatureDimension(index: number): { block: FeatureBlock; label: string } {
+  let offset = index;
+  for (const block of Object.keys(BLOCK_SIZES) as FeatureBlock[]) {
+    if (offset >= BLOCK_SIZES[block]) {
+      offset -= BLOCK_SIZES[block];
+      continue;
+    }
+
+    switch (block) {
+      case "colorHistogram": {
+        const vBin = offset % VALUE_BINS;
+        const sBin = Math.floor(offset / VALUE_BINS) % SATURATION_BINS;
+        const hBin = Math.floor(offset / (VALUE_BINS * SATURATION_BINS));
+        // Hue barely matters for unsaturated pixels, so those read as tinted greys
+        return {
+          block,
+          label: sBin === 0
+            ? `${VALUE_NAMES[vBin]} grey pixels with a ${HUE_NAMES[hBin]} tint`
+            : `${VALUE_NAMES[vBin]} ${SATURATION_NAMES[sBin]} ${HUE_NAMES[hBin]} pixels`,
+        };
+      }
+      case "ringColors":
+        return { block, label: `${CHANNEL_NAMES[offset % 3]} level of the ${RING_NAMES[Math.floor(offset / 3)]}` };
+      case "gradients":
+        return { block, label: `Gradients of ${2 ** offset - 1}–${2 ** (offset + 1) - 1}` };
+      case "texture":
+        return {
+          block,
+          label: offset === LBP_BINS - 1 ? "Irregular texture" : `Texture with ${offset} of 8 brighter neighbours`,
+        };
+      case "edgeProfile":
+        return { block, label: `Edge density, ring ${offset + 1} of ${EDGE_RINGS} from the center` };
+    }
+  }
+  throw new RangeError(`Feature dimension ${index} is out of range`);
+}
+
+/**
+ * Area-average the square inscribed in the image down to GRID_SIZE x GRID_SIZE.
+ * Transparent pixels (outside a circular crop) are skipped.
+ */
+function resampleToGrid(pixels: PixelData): { rgb: Float32Array; valid: Uint8Array } {
+  const { width, height, data } = pixels;
+  const side = Math.min(width, height);
+  const offsetX = (width - side) / 2;
+  const offsetY = (height - side) / 2;
+  const cell = side / GRID_SIZE;
+
+  const rgb = new Float32Array(GRID_SIZE * GRID_SIZE * 3);
+  const valid = new Uint8Array(GRID_SIZE * GRID_SIZE);
+
+  for (let gy = 0; gy < GRID_SIZE; gy++) {
+    for (let gx = 0; gx < GRID_SIZE; gx++) {
+      const x0 = Math.floor(offsetX + gx * cell);
+      const y0 = Math.floor(offsetY + gy * cell);
+      const x1 = Math.max(x0 + 1, Math.floor(offsetX + (gx + 1) * cell));
+      const y1 = Math.max(y0 + 1, Math.floor(offsetY + (gy + 1) * cell));
+      let r = 0, g = 0, b = 0, count = 0;
+
+      for (let y = y0; y < y1 && y < height; y++) {
+        for (let x = x0; x < x1 && x < width; x++) {
+          const i = (y * width + x) * 4;
+          if (data[i + 3] < 128) continue;
+          r += data[i];
+          g += data[i + 1];
+          b += data[i + 2];
+          count++;
+        }
+      }
+
+      const cellIndex = gy * GRID_SIZE + gx;
+      if (count > 0) {
+        rgb[cellIndex * 3] = r / count;
+        rgb[cellIndex * 3 + 1] = g / count;
+        rgb[cellIndex * 3 + 2] = b / count;
+        valid[cellIndex] = 1;
+      }
+    }
+  }
+
+  return { rgb, valid };
+}
+
+function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let hue = 0;
+
+  if (delta > 0) {
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+
+  return [hue, max === 0 ? 0 : delta / max, max / 255];
+}
+
+function normalizeBlock(values: number[], weight: number): number[] {
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? values.map(() => 0) : values.map(v => (v / norm) * weight);
+}
+
+/**
+ * Compute the descriptor for a lid crop.
+ * Only the circle inscribed in the image contributes.
+ *
+ * @param pixels RGBA pixels of a (roughly square) crop centered on the lid
+ * @returns An L2-normalized vector of length FEATURE_DIMENSION
+ */
+export function extractFeatureVector(pixels: PixelData): number[] {
+  const { rgb, valid } = resampleToGrid(pixels);
+  const center = (GRID_SIZE - 1) / 2;
+  const radius = GRID_SIZE / 2;
+
+  // Normalized distance from the center for every grid cell, and the circle mask
+  const radial = new Float32Array(GRID_SIZE * GRID_SIZE);
+  const mask = new Uint8Array(GRID_SIZE * GRID_SIZE);
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      const i = y * GRID_SIZE + x;
+      radial[i] = Math.hypot(x - center, y - center) / radius;
+      mask[i] = radial[i] <= 1 && valid[i] ? 1 : 0;
+    }
+  }
+
+  const gray = new Float32Array(GRID_SIZE * GRID_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgb[i * 3] + 0.587 * rgb[i * 3 + 1] + 0.114 * rgb[i * 3 + 2];
+  }
+
+  // 1. HSV color histogram
+  const colorHistogram = new Array(HUE_BINS * SATURATION_BINS * VALUE_BINS).fill(0);
+  // 2. Mean color of concentric rings (coarse layout: rim vs. center)
+  const ringSums = new Array(RING_COUNT * 3).fill(0);
+  const ringCounts = new Array(RING_COUNT).fill(0);
+
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const r = rgb[i * 3], g = rgb[i * 3 + 1], b = rgb[i * 3 + 2];
+    const [h, s, v] = rgbToHsv(r, g, b);
+
+    const hBin = Math.min(HUE_BINS - 1, Math.floor((h / 360) * HUE_BINS));
+    const sBin = Math.min(SATURATION_BINS - 1, Math.floor(s * SATURATION_BINS));
+    const vBin = Math.min(VALUE_BINS - 1, Math.floor(v * VALUE_BINS));
+    colorHistogram[(hBin * SATURATION_BINS + sBin) * VALUE_BINS + vBin]++;
+
+    const ring = Math.min(RING_COUNT - 1, Math.floor(radial[i] * RING_COUNT));
+    ringSums[ring * 3] += r / 255;
+    ringSums[ring * 3 + 1] += g / 255;
+    ringSums[ring * 3 + 2] += b / 255;
+    ringCounts[ring]++;
+  }
+
+  const ringColors = ringSums.map((sum, i) => {
+    const count = ringCounts[Math.floor(i / 3)];
+    return count ? sum / count : 0;
+  });
+
+  // 3. Gradient magnitude histogram, 4. rotation-invariant LBP, 5. radial edge profile
+  const gradients = new Array(GRADIENT_BINS).fill(0);
+  const texture = new Array(LBP_BINS).fill(0);
+  const edgeCounts = new Array(EDGE_RINGS).fill(0);
+  const edgeTotals = new Array(EDGE_RINGS).fill(0);
+  const neighbours = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+
+  for (let y = 1; y < GRID_SIZE - 1; y++) {
+    for (let x = 1; x < GRID_SIZE - 1; x++) {
+      const i = y * GRID_SIZE + x;
+      if (!mask[i]) continue;
+
+      const dx = gray[i + 1] - gray[i - 1];
+      const dy = gray[i + GRID_SIZE] - gray[i - GRID_SIZE];
+      const magnitude = Math.hypot(dx, dy);
+
+      // Log-spaced bins so flat areas and strong print edges both register
+      const gBin = Math.min(GRADIENT_BINS - 1, Math.floor(Math.log2(1 + magnitude)));
+      gradients[gBin]++;
+
+      const ring = Math.min(EDGE_RINGS - 1, Math.floor(radial[i] * EDGE_RINGS));
+      edgeTotals[ring]++;
+      if (magnitude > 40) edgeCounts[ring]++;
+
+      // Uniform LBP: count of brighter neighbours when there are at most two 0/1 transitions
+      const bits = neighbours.map(([nx, ny]) => (gray[i + ny * GRID_SIZE + nx] >= gray[i] ? 1 : 0));
+      let transitions = 0;
+      for (let k = 0; k < 8; k++) {
+        if (bits[k] !== bits[(k + 1) % 8]) transitions++;
+      }
+      const ones = bits.reduce<number>((sum, bit) => sum + bit, 0);
+      texture[transitions <= 2 ? ones : LBP_BINS - 1]++;
+    }
+  }
+
+  const edgeProfile = edgeCounts.map((count, i) => (edgeTotals[i] ? count / edgeTotals[i] : 0));
+
+  const vector = [
+    ...normalizeBlock(colorHistogram, BLOCK_WEIGHTS.colorHistogram),
+    ...normalizeBlock(ringColors, BLOCK_WEIGHTS.ringColors),
+    ...normalizeBlock(gradients, BLOCK_WEIGHTS.gradients),
+    ...normalizeBlock(texture, BLOCK_WEIGHTS.texture),
+    ...normalizeBlock(edgeProfile, BLOCK_WEIGHTS.edgeProfile),
+  ];
+
+  return normalizeBlock(vector, 1);
+}
+
+/**
+ * Compute the descriptor for an image data URL (e.g. the circular crop on the Result page)
+ *
+ * @param imageSrc The cropped lid image data URL
+ * @returns A Promise that resolves to the feature vector
+ */
+export function extractFeatureVectorFromImage(imageSrc: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, 0, 0);
+      resolve(extractFeatureVector(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for feature extraction'));
+    };
+
+    img.src = imageSrc;
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * Live Camera Frame Analysis
+ * Helpers for sampling the part of the video that sits under the CircleOverlay
+ * and measuring how usable that region is.
+ */
+
+/**
+ * Map an overlay size in CSS pixels to the video's intrinsic pixels.
+ * The overlay and the video are both centered in the camera container.
+ */
+export function overlaySizeInVideoPixels(video: HTMLVideoElement, overlaySize: number): number {
+  if (!video.clientWidth) return overlaySize;
+  return overlaySize * (video.videoWidth / video.clientWidth);
+}
+
+/**
+ * Grab a centered square of the current video frame, downscaled to outputSize.
+ *
+ * @param video The playing video element
+ * @param regionSize Side of the square in video pixels
+ * @param outputSize Side of the returned ImageData in pixels
+ * @param canvas A scratch canvas, reused between frames
+ * @returns The region pixels, or null when the video has no frame yet
+ */
+export function captureCenterRegion(
+  video: HTMLVideoElement,
+  regionSize: number,
+  outputSize: number,
+  canvas: HTMLCanvasElement
+): ImageData | null {
+  if (video.readyState < 2 || !video.videoWidth || !video.videoHeight) {
+    return null;
+  }
+
+  const size = Math.min(regionSize, video.videoWidth, video.videoHeight);
+  const sx = (video.videoWidth - size) / 2;
+  const sy = (video.videoHeight - size) / 2;
+
+  canvas.width = outputSize;
+  canvas.height = outputSize;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, sx, sy, size, size, 0, 0, outputSize, outputSize);
+  return ctx.getImageData(0, 0, outputSize, outputSize);
+}
+
+/**
+ * Sharpness as the variance of the Laplacian of the grayscale image.
+ * Higher is sharper; motion blur and misfocus push it towards zero.
+ *
+ * @param imageData Pixels to measure
+ * @param mask Optional per-pixel mask (1 = include) restricting the measurement
+ */
+export function laplacianVariance(imageData: ImageData, mask?: Uint8Array): number {
+  const { width, height, data } = imageData;
+  const gray = new Float32Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3;
+  }
+
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (mask && !mask[i]) continue;
+
+      const laplacian =
+        gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSq += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+}
+
+export interface CaptureQuality {
+  sharpness: number;         // Variance of the Laplacian inside the circle
+  clippedHighlights: number; // Fraction of circle pixels blown out to white (0-1)
+  clippedShadows: number;    // Fraction of circle pixels crushed to black (0-1)
+  glare: number;             // Fraction of circle pixels that look like specular reflections (0-1)
+}
+
+export interface CapturedFrame {
+  imageData: string;               // Screenshot data URL
+  quality: CaptureQuality | null;  // Scores for the region under the overlay, when measurable
+}
+
+export interface CaptureQualityThresholds {
+  minSharpness: number;
+  maxClippedHighlights: number;
+  maxClippedShadows: number;
+  maxGlare: number;
+}
+
+// Calibrated for a 160px analysis square
+export const DEFAULT_QUALITY_THRESHOLDS: CaptureQualityThresholds = {
+  minSharpness: 80,
+  maxClippedHighlights: 0.05,
+  maxClippedShadows: 0.15,
+  maxGlare: 0.03,
+};
+
+/**
+ * Mask selecting the circle inscribed in a size x size square
+ */
+export function circleMask(size: number): Uint8Array {
+  const mask = new Uint8Array(size * size);
+  const center = (size - 1) / 2;
+  const radiusSq = (size / 2) * (size / 2);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = x - center;
+      const dy = y - center;
+      if (dx * dx + dy * dy <= radiusSq) mask[y * size + x] = 1;
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Score sharpness, exposure and glare for the circle inscribed in a square region.
+ *
+ * @param imageData Square region pixels
+ * @returns Quality scores for the region inside the circle
+ */
+export function measureCaptureQuality(imageData: ImageData): CaptureQuality {
+  const { width, height, data } = imageData;
+  const mask = circleMask(Math.min(width, height));
+  let highlights = 0;
+  let shadows = 0;
+  let glare = 0;
+  let count = 0;
+
+  for (let i = 0; i < width * height; i++) {
+    if (!mask[i]) continue;
+
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    if (luminance >= 250) highlights++;
+    if (luminance <= 5) shadows++;
+
+    // Specular reflections are near-white and colorless, unlike white print on a colored lid
+    const saturation = max === 0 ? 0 : (max - min) / max;
+    if (luminance >= 235 && saturation < 0.1) glare++;
+
+    count++;
+  }
+
+  return {
+    sharpness: laplacianVariance(imageData, mask),
+    clippedHighlights: count ? highlights / count : 0,
+    clippedShadows: count ? shadows / count : 0,
+    glare: count ? glare / count : 0,
+  };
+}
+
+/**
+ * List the human-readable problems with a capture, empty when it's good enough
+ */
+export function getCaptureQualityIssues(
+  quality: CaptureQuality,
+  thresholds: CaptureQualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+): string[] {
+  const issues: string[] = [];
+
+  if (quality.sharpness < thresholds.minSharpness) issues.push("Image is blurry");
+  if (quality.clippedHighlights > thresholds.maxClippedHighlights) issues.push("Image is overexposed");
+  if (quality.clippedShadows > thresholds.maxClippedShadows) issues.push("Image is too dark");
+  if (quality.glare > thresholds.maxGlare) issues.push("Glare on the lid");
+
+  return issues;
+}
@@ -1,304 +1,332 @@
 /**
  * Image Enhancement Utilities for Text Extraction
- * This file contains functions to improve text visibility in images before OCR
+ * This file contains functions to improve text visibility in images before OCR.
+ * The filters run in a pool of Web Workers so the page stays responsive; pixel
+ * buffers are transferred rather than copied, jobs can be cancelled with an
+ * AbortSignal, and variants are delivered as soon as each one is ready.
  */
 
+import { measureLightingUnevenness } from "./imageFilters";
+import { runPipeline } from "./pipelineRunner";
+import { DEFAULT_PRESET_SET, EnhancementPipeline, EnhancementStep } from "./enhancementPipeline";
+import type { EnhancementRequest, EnhancementResponse } from "./imageEnhancer.worker";
+
+export interface EnhancementResult {
+  pixels: ImageData;
+  blob: Blob; // PNG encoding of the pixels
+}
+
+export interface EnhancedVariant {
+  index: number; // 0 is the unmodified image, then the pipelines in order
+  label: string;
+  pixels: ImageData;
+  image: Blob | string; // What OCR reads: the PNG, or the source data URL for the original
+  url: string; // For display; object URLs are freed with releaseImageVariants
+}
+
+// A pipeline that threw instead of producing its variant
+export interface FailedVariant {
+  index: number;
+  label: string;
+  error: unknown;
+}
+
+export type StreamedVariant = EnhancedVariant | FailedVariant;
+
+export function isFailedVariant(variant: StreamedVariant): variant is FailedVariant {
+  return 'error' in variant;
+}
+
+// Lighting spread (see measureLightingUnevenness) above which pipelines use their unevenLighting steps
+export const UNEVEN_LIGHTING_SPREAD = 60;
+
+// Leave a core for the page and for Tesseract's own workers
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1));
+
+function abortError(): DOMException {
+  return new DOMException('Image enhancement was cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+interface EnhancementJob {
+  request: EnhancementRequest;
+  signal?: AbortSignal;
+  resolve: (result: EnhancementResult) => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
 /**
- * Enhances an image for better text detection by applying various filters.
- * 
- * @param imageData The source image data URL
- * @param options Enhancement options
- * @returns A Promise that resolves to an enhanced image data URL
+ * A fixed number of enhancement workers sharing a job queue. Filters run
+ * synchronously inside a worker, so cancelling a running job terminates its
+ * worker; a fresh one is started for the next job.
  */
-export async function enhanceImageForTextRecognition(
-  imageData: string,
-  options: {
-    contrast?: number;  // 1.0 is normal, 2.0 is twice the contrast
-    brightness?: number; // 0 is normal, positive values brighten, negative darken
-    sharpen?: boolean; // Whether to apply sharpening
-    grayscale?: boolean; // Convert to grayscale
-    binarize?: boolean; // Convert to black and white
-    threshold?: number; // Threshold for binarization (0-255)
-    despeckle?: boolean; // Remove noise
-  } = {}
-): Promise<string> {
+class EnhancementWorkerPool {
+  private idle: Worker[] = [];
+  private busy = new Map<Worker, EnhancementJob>();
+  private queue: EnhancementJob[] = [];
+  private nextId = 1;
+
+  constructor(private size: number) {}
+
+  run(pixels: ImageData, steps: EnhancementStep[], signal?: AbortSignal): Promise<EnhancementResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const job: EnhancementJob = {
+        request: {
+          id: this.nextId++,
+          width: pixels.width,
+          height: pixels.height,
+          buffer: pixels.data.buffer as ArrayBuffer,
+          steps
+        },
+        signal,
+        resolve,
+        reject,
+        onAbort: () => this.cancel(job)
+      };
+      signal?.addEventListener('abort', job.onAbort, { once: true });
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0 && (this.idle.length > 0 || this.busy.size < this.size)) {
+      const job = this.queue.shift()!;
+      const worker = this.idle.pop() ?? this.createWorker();
+      this.busy.set(worker, job);
+      worker.postMessage(job.request, { transfer: [job.request.buffer] });
+    }
+  }
+
+  private createWorker(): Worker {
+    const worker = new Worker(new URL('./imageEnhancer.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<EnhancementResponse>) => {
+      const job = this.busy.get(worker);
+      if (!job || job.request.id !== event.data.id) return;
+      this.busy.delete(worker);
+      this.idle.push(worker);
+      this.settle(job, event.data);
+      this.dispatch();
+    };
+
+    worker.onerror = (event) => {
+      const job = this.busy.get(worker);
+      this.busy.delete(worker);
+      worker.terminate();
+      if (job) this.settle(job, { id: job.request.id, error: event.message || 'Enhancement worker failed' });
+      this.dispatch();
+    };
+
+    return worker;
+  }
+
+  private settle(job: EnhancementJob, response: EnhancementResponse) {
+    job.signal?.removeEventListener('abort', job.onAbort);
+    if ('error' in response) {
+      job.reject(new Error(response.error));
+    } else {
+      job.resolve({
+        pixels: new ImageData(new Uint8ClampedArray(response.buffer), response.width, response.height),
+        blob: response.blob
+      });
+    }
+  }
+
+  private cancel(job: EnhancementJob) {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+    } else {
+      for (const [worker, running] of Array.from(this.busy)) {
+        if (running !== job) continue;
+        this.busy.delete(worker);
+        worker.terminate();
+      }
+    }
+    job.reject(abortError());
+    this.dispatch();
+  }
+}
+
+let pool: EnhancementWorkerPool | null = null;
+
+const workersSupported = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Without worker support the filters run on the main thread
+async function enhanceOnMainThread(pixels: ImageData, steps: EnhancementStep[]): Promise<EnhancementResult> {
+  const enhanced = runPipeline(pixels, steps);
+  const result = new ImageData(enhanced.data, enhanced.width, enhanced.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = result.width;
+  canvas.height = result.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.putImageData(result, 0, 0);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not encode the enhanced image');
+  return { pixels: result, blob };
+}
+
+/**
+ * Decode an image data URL into its pixels
+ */
+export function loadImagePixels(imageData: string): Promise<ImageData> {
   return new Promise((resolve, reject) => {
-    // Create an image element from the data URL
     const img = new Image();
     img.onload = () => {
-      try {
-        // Create a canvas to apply the enhancements
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        
-        if (!ctx) {
-          reject(new Error('Could not get canvas context'));
-          return;
-        }
-        
-        // Draw the original image
-        ctx.drawImage(img, 0, 0);
-        
-        // Apply grayscale if requested
-        if (options.grayscale) {
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          for (let i = 0; i < data.length; i += 4) {
-            const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
-            data[i] = avg; // red
-            data[i + 1] = avg; // green
-            data[i + 2] = avg; // blue
-          }
-          
-          ctx.putImageData(imageData, 0, 0);
-        }
-        
-        // Apply contrast and brightness adjustments
-        if (options.contrast !== undefined || options.brightness !== undefined) {
-          const contrast = options.contrast !== undefined ? options.contrast : 1.0;
-          const brightness = options.brightness !== undefined ? options.brightness : 0;
-          
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          for (let i = 0; i < data.length; i += 4) {
-            // Apply contrast (multiply)
-            data[i] = Math.min(255, Math.max(0, ((data[i] - 128) * contrast) + 128 + brightness));
-            data[i + 1] = Math.min(255, Math.max(0, ((data[i + 1] - 128) * contrast) + 128 + brightness));
-            data[i + 2] = Math.min(255, Math.max(0, ((data[i + 2] - 128) * contrast) + 128 + brightness));
-          }
-          
-          ctx.putImageData(imageData, 0, 0);
-        }
-        
-        // Apply sharpening
-        if (options.sharpen) {
-          // Sharpening using a convolution filter
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const sharpenedData = applySharpenFilter(imageData);
-          ctx.putImageData(sharpenedData, 0, 0);
-        }
-        
-        // Apply binarization (convert to black and white)
-        if (options.binarize) {
-          const threshold = options.threshold !== undefined ? options.threshold : 128;
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const data = imageData.data;
-          
-          for (let i = 0; i < data.length; i += 4) {
-            // Calculate grayscale value
-            const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
-            
-            // Apply threshold
-            const val = avg > threshold ? 255 : 0;
-            
-            data[i] = val;     // Red
-            data[i + 1] = val; // Green
-            data[i + 2] = val; // Blue
-          }
-          
-          ctx.putImageData(imageData, 0, 0);
-        }
-        
-        // Apply despeckling (noise reduction)
-        if (options.despeckle) {
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-          const denoisedData = applyMedianFilter(imageData);
-          ctx.putImageData(denoisedData, 0, 0);
-        }
-        
-        // Return the enhanced image as a data URL
-        resolve(canvas.toDataURL('image/jpeg', 0.95));
-      } catch (err) {
-        reject(err);
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
       }
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
     };
-    
-    img.onerror = (err) => {
-      reject(new Error('Failed to load image for enhancement'));
-    };
-    
+    img.onerror = () => reject(new Error('Failed to load image for enhancement'));
     img.src = imageData;
   });
 }
 
 /**
- * Applies a sharpening filter to an image
+ * Enhances an image for better text detection by running a pipeline of filters.
+ *
+ * @param pixels The source image; its buffer is transferred to a worker, so it
+ *   can't be used afterwards — pass a copy to keep it
+ * @param steps The pipeline steps, applied in order
+ * @param signal Cancels the job
+ * @returns A Promise that resolves to the enhanced pixels and their PNG encoding
+ * @throws DOMException named AbortError when cancelled
  */
-function applySharpenFilter(imageData: ImageData): ImageData {
-  const width = imageData.width;
-  const height = imageData.height;
-  const data = imageData.data;
-  const buffer = new Uint8ClampedArray(data);
-  const sharpenKernel = [
-    0, -1, 0,
-    -1, 5, -1,
-    0, -1, 0
-  ];
-
-  // Skip the edge pixels
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const offset = (y * width + x) * 4;
-      
-      for (let c = 0; c < 3; c++) {
-        let val = 0;
-        
-        // Apply convolution
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const idx = ((y + ky) * width + (x + kx)) * 4 + c;
-            val += data[idx] * sharpenKernel[(ky + 1) * 3 + (kx + 1)];
-          }
-        }
-        
-        buffer[offset + c] = Math.min(255, Math.max(0, val));
-      }
-    }
+export function enhanceImageForTextRecognition(
+  pixels: ImageData,
+  steps: EnhancementStep[],
+  signal?: AbortSignal
+): Promise<EnhancementResult> {
+  if (!workersSupported()) {
+    if (signal?.aborted) return Promise.reject(abortError());
+    return enhanceOnMainThread(pixels, steps);
   }
-  
-  return new ImageData(buffer, width, height);
+  pool ??= new EnhancementWorkerPool(POOL_SIZE);
+  return pool.run(pixels, steps, signal);
 }
 
 /**
- * Applies a median filter to reduce noise
+ * The steps each pipeline runs on an image: pipelines with unevenLighting steps,
+ * typically local (Sauvola/Niblack) thresholds, use them when the lighting is uneven
  */
-function applyMedianFilter(imageData: ImageData): ImageData {
-  const width = imageData.width;
-  const height = imageData.height;
-  const data = imageData.data;
-  const buffer = new Uint8ClampedArray(data);
-  
-  // Skip the edge pixels
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const offset = (y * width + x) * 4;
-      
-      for (let c = 0; c < 3; c++) {
-        const values = [];
-        
-        // Collect values from the 3x3 neighborhood
-        for (let ky = -1; ky <= 1; ky++) {
-          for (let kx = -1; kx <= 1; kx++) {
-            const idx = ((y + ky) * width + (x + kx)) * 4 + c;
-            values.push(data[idx]);
-          }
-        }
-        
-        // Sort and find median
-        values.sort((a, b) => a - b);
-        buffer[offset + c] = values[4]; // Middle value (4) in a sorted 9-element array
+export function selectPipelineSteps(pixels: ImageData, pipelines: EnhancementPipeline[]): EnhancementStep[][] {
+  const uneven = measureLightingUnevenness(pixels) > UNEVEN_LIGHTING_SPREAD;
+  return pipelines.map(pipeline => (uneven && pipeline.unevenLighting) || pipeline.steps);
+}
+
+/**
+ * Creates multiple versions of an image with different enhancement pipelines
+ * for better OCR accuracy, yielding each one as soon as it is ready: the
+ * original first, then the pipelines in the order they finish. A pipeline that
+ * fails yields a FailedVariant with its error, and the others carry on. Stopping
+ * the iteration early cancels the remaining work.
+ *
+ * @param imageData The source image data URL
+ * @param pipelines The pipelines to run, by default those of the built-in preset set
+ * @param signal Cancels the remaining variants; iteration then throws an AbortError
+ */
+export async function* streamEnhancedImageVariants(
+  imageData: string,
+  pipelines: EnhancementPipeline[] = DEFAULT_PRESET_SET.pipelines,
+  signal?: AbortSignal
+): AsyncGenerator<StreamedVariant> {
+  const source = await loadImagePixels(imageData);
+  signal?.throwIfAborted();
+
+  // Linked to the caller's signal, and also aborted when the consumer stops early
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  type Settled = { index: number; result?: EnhancementResult; error?: unknown };
+  const pending = new Map<number, Promise<Settled>>();
+  selectPipelineSteps(source, pipelines).forEach((steps, i) => {
+    const index = i + 1;
+    const copy = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+    pending.set(index, enhanceImageForTextRecognition(copy, steps, controller.signal).then(
+      result => ({ index, result }),
+      error => ({ index, error })
+    ));
+  });
+
+  try {
+    yield { index: 0, label: 'Original', pixels: source, image: imageData, url: imageData };
+
+    while (pending.size > 0) {
+      const { index, result, error } = await Promise.race(pending.values());
+      pending.delete(index);
+      signal?.throwIfAborted();
+
+      const label = pipelines[index - 1].name;
+      if (!result) {
+        yield { index, label, error };
+        continue;
       }
+      yield {
+        index,
+        label,
+        pixels: result.pixels,
+        image: result.blob,
+        url: URL.createObjectURL(result.blob)
+      };
     }
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
+    controller.abort();
   }
-  
-  return new ImageData(buffer, width, height);
 }
 
 /**
- * Creates multiple versions of an image with different enhancement settings
- * for better OCR accuracy
- * 
+ * Creates all enhanced versions of an image, in pipeline order
+ *
  * @param imageData The source image data URL
+ * @param pipelines The pipelines to run, by default those of the built-in preset set
+ * @param signal Cancels the work
  * @returns An array of enhanced image variants
+ * @throws The error of the first pipeline that failed
  */
-export async function createEnhancedImageVariants(imageData: string): Promise<string[]> {
-  const variants = [];
-  
+export async function createEnhancedImageVariants(
+  imageData: string,
+  pipelines: EnhancementPipeline[] = DEFAULT_PRESET_SET.pipelines,
+  signal?: AbortSignal
+): Promise<EnhancedVariant[]> {
+  const variants: EnhancedVariant[] = [];
   try {
-    // Original image
-    variants.push(imageData);
-    
-    // Grayscale with increased contrast
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      contrast: 1.5
-    }));
-    
-    // Sharpened grayscale
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      sharpen: true,
-      contrast: 1.2
-    }));
-    
-    // Binarized (black and white)
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      binarize: true,
-      threshold: 128
-    }));
-    
-    // Despeckled high contrast
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      despeckle: true,
-      contrast: 1.7,
-      brightness: 10
-    }));
-    
-    // Dark text optimization
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      contrast: 2.0,
-      brightness: -10
-    }));
-    
-    // Light text optimization
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      contrast: 2.0,
-      brightness: 30,
-      binarize: true,
-      threshold: 180
-    }));
-    
-    // Special for small text - very high contrast and sharp
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      sharpen: true,
-      contrast: 2.5,
-      brightness: 0,
-      despeckle: true
-    }));
-    
-    // Small dark text on light background - common in product packaging
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      contrast: 3.0,
-      brightness: -5,
-      sharpen: true,
-      binarize: true,
-      threshold: 100 // Lower threshold to preserve small dark text
-    }));
-    
-    // Small light text on dark background - also common in packaging
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      contrast: 3.0,
-      brightness: 15,
-      sharpen: true,
-      binarize: true,
-      threshold: 150 // Higher threshold to preserve small light text
-    }));
-    
-    // Edge-enhanced for text boundaries
-    variants.push(await enhanceImageForTextRecognition(imageData, {
-      grayscale: true,
-      sharpen: true,
-      contrast: 2.2,
-      brightness: 0,
-      binarize: false
-    }));
-    
+    for await (const variant of streamEnhancedImageVariants(imageData, pipelines, signal)) {
+      if (isFailedVariant(variant)) throw variant.error;
+      variants.push(variant);
+    }
   } catch (error) {
-    console.error("Error creating image variants:", error);
-    // Return at least the original image if enhancement fails
-    return [imageData];
+    releaseImageVariants(variants);
+    throw error;
   }
-  
-  return variants;
-}
\ No newline at end of file
+  return variants.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Free the object URLs of variants that are no longer displayed
+ */
+export function releaseImageVariants(variants: EnhancedVariant[]) {
+  for (const variant of variants) {
+    if (variant.url.startsWith('blob:')) URL.revokeObjectURL(variant.url);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Image Enhancement Worker
+ * Runs one enhancement pipeline at a time for the pool in imageEnhancer.ts. Pixel
+ * buffers are transferred in both directions rather than copied, and the result
+ * is also encoded to PNG on an OffscreenCanvas so OCR can read it directly.
+ */
+
+import { runPipeline } from "./pipelineRunner";
+import type { EnhancementStep } from "./enhancementPipeline";
+
+export interface EnhancementRequest {
+  id: number;
+  width: number;
+  height: number;
+  buffer: ArrayBuffer; // RGBA pixels, transferred to the worker
+  steps: EnhancementStep[];
+}
+
+export type EnhancementResponse =
+  | { id: number; width: number; height: number; buffer: ArrayBuffer; blob: Blob }
+  | { id: number; error: string };
+
+self.onmessage = async (event: MessageEvent<EnhancementRequest>) => {
+  const { id, width, height, buffer, steps } = event.data;
+
+  try {
+    const enhanced = runPipeline({ data: new Uint8ClampedArray(buffer), width, height }, steps);
+    const pixels = new ImageData(enhanced.data, width, height);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    ctx.putImageData(pixels, 0, 0);
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+
+    const response: EnhancementResponse = { id, width, height, buffer: pixels.data.buffer as ArrayBuffer, blob };
+    self.postMessage(response, { transfer: [response.buffer] });
+  } catch (error) {
+    const response: EnhancementResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
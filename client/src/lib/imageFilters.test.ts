@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  measureLightingUnevenness,
+  otsuSplit,
+  otsuThreshold,
+  PixelBuffer,
+  sauvolaBinarize,
+} from "./imageFilters";
+
+const SIZE = 64;
+
+// A grey image from a function of the pixel position; null leaves the pixel transparent
+function image(grey: (x: number, y: number) => number | null): PixelBuffer {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const value = grey(x, y);
+      if (value === null) continue;
+      data.set([value, value, value, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+}
+
+const insideCircle = (x: number, y: number) => (x + 0.5 - SIZE / 2) ** 2 + (y + 0.5 - SIZE / 2) ** 2 <= (SIZE / 2) ** 2;
+const isText = (x: number, y: number) => y % 16 >= 6 && y % 16 < 10 && x % 8 < 4;
+
+describe("otsuSplit", () => {
+  it("splits two peaks between them and reports them as well separated", () => {
+    const histogram = new Uint32Array(256);
+    histogram[40] = 300;
+    histogram[200] = 100;
+    const split = otsuSplit(histogram);
+    expect(split.threshold).toBeGreaterThanOrEqual(40);
+    expect(split.threshold).toBeLessThan(200);
+    expect(split.separability).toBeCloseTo(1);
+    expect(split.brightFraction).toBeCloseTo(0.25);
+  });
+
+  it("falls back to the middle for an empty histogram", () => {
+    expect(otsuSplit(new Uint32Array(256))).toEqual({ threshold: 128, separability: 0, brightFraction: 0 });
+  });
+});
+
+describe("otsuThreshold", () => {
+  it("ignores the transparent corners of a circular crop", () => {
+    // Light text on a mid-grey lid; counting the black corners would split them off the lid instead
+    const lid = image((x, y) => (insideCircle(x, y) ? (isText(x, y) ? 220 : 120) : null));
+    const threshold = otsuThreshold(lid);
+    expect(threshold).toBeGreaterThanOrEqual(120);
+    expect(threshold).toBeLessThan(220);
+  });
+});
+
+describe("sauvolaBinarize", () => {
+  it("keeps dark text under a lighting gradient and leaves transparent pixels alone", () => {
+    const lit = (x: number) => 120 + x * 2;
+    const pixels = image((x, y) => (insideCircle(x, y) ? (isText(x, y) ? lit(x) - 90 : lit(x)) : null));
+    sauvolaBinarize(pixels, 15);
+
+    let textDark = 0;
+    let textCount = 0;
+    let backgroundLight = 0;
+    let backgroundCount = 0;
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const i = (y * SIZE + x) * 4;
+        if (!insideCircle(x, y)) {
+          expect(pixels.data[i + 3]).toBe(0);
+          continue;
+        }
+        if (isText(x, y)) {
+          textCount++;
+          if (pixels.data[i] === 0) textDark++;
+        } else {
+          backgroundCount++;
+          if (pixels.data[i] === 255) backgroundLight++;
+        }
+      }
+    }
+    expect(textDark / textCount).toBeGreaterThan(0.95);
+    expect(backgroundLight / backgroundCount).toBeGreaterThan(0.9);
+  });
+});
+
+describe("measureLightingUnevenness", () => {
+  it("is zero for an evenly lit lid, transparent corners included", () => {
+    expect(measureLightingUnevenness(image((x, y) => (insideCircle(x, y) ? 150 : null)))).toBe(0);
+  });
+
+  it("measures a lighting gradient", () => {
+    const spread = measureLightingUnevenness(image((x) => 60 + x * 2));
+    expect(spread).toBeGreaterThan(80);
+  });
+});
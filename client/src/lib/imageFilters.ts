@@ -0,0 +1,441 @@
+/**
+ * Image Enhancement Filters
+ * The pixel operations behind the OCR enhancement pipelines. They work on raw RGBA
+ * buffers and never touch the DOM, so the same code runs inside the enhancement
+ * worker and, where workers are unavailable, on the main thread.
+ */
+
+// An RGBA image; ImageData satisfies it
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const SHARPEN_KERNEL = [
+  0, -1, 0,
+  -1, 5, -1,
+  0, -1, 0
+];
+
+/**
+ * Replace each pixel with the average of its channels
+ */
+export function toGrayscale({ data }: PixelBuffer): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    data[i] = avg;
+    data[i + 1] = avg;
+    data[i + 2] = avg;
+  }
+}
+
+/**
+ * Gray-world white balance: scale each channel so its mean matches the overall
+ * mean. Gains are limited so a lid that really is one strong color isn't turned grey.
+ */
+export function balanceWhite({ data }: PixelBuffer): void {
+  const totals = [0, 0, 0];
+  for (let i = 0; i < data.length; i += 4) {
+    totals[0] += data[i];
+    totals[1] += data[i + 1];
+    totals[2] += data[i + 2];
+  }
+  const grey = (totals[0] + totals[1] + totals[2]) / 3;
+  const gains = totals.map(total => (total > 0 ? Math.min(2, Math.max(0.5, grey / total)) : 1));
+
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] *= gains[0];
+    data[i + 1] *= gains[1];
+    data[i + 2] *= gains[2];
+  }
+}
+
+/**
+ * The gamma that maps the image's mean brightness to mid-grey, limited to 0.3-3
+ */
+export function estimateGamma({ data }: PixelBuffer): number {
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    total += (data[i] + data[i + 1] + data[i + 2]) / 3;
+  }
+  const mean = total / (data.length / 4) / 255;
+  if (mean <= 0 || mean >= 1) return 1;
+  return Math.min(3, Math.max(0.3, Math.log(0.5) / Math.log(mean)));
+}
+
+/**
+ * Gamma correction, out = 255·(in/255)^gamma
+ */
+export function applyGamma({ data }: PixelBuffer, gamma: number): void {
+  const table = new Uint8ClampedArray(256);
+  for (let level = 0; level < 256; level++) {
+    table[level] = 255 * Math.pow(level / 255, gamma);
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = table[data[i]];
+    data[i + 1] = table[data[i + 1]];
+    data[i + 2] = table[data[i + 2]];
+  }
+}
+
+/**
+ * Contrast-limited adaptive histogram equalization (CLAHE). Each tile of a grid
+ * gets its own equalization curve, with histogram bins clipped at clipLimit times
+ * the mean bin height so flat areas and noise aren't blown up; pixels blend the
+ * curves of the four nearest tiles. Works on brightness and keeps colors' ratios.
+ */
+export function equalizeAdaptive({ data, width, height }: PixelBuffer, tiles = 8, clipLimit = 2.0): void {
+  const tilesX = Math.max(1, Math.min(tiles, width));
+  const tilesY = Math.max(1, Math.min(tiles, height));
+  const tileWidth = width / tilesX;
+  const tileHeight = height / tilesY;
+
+  const luminance = new Uint8Array(width * height);
+  for (let p = 0; p < luminance.length; p++) {
+    luminance[p] = Math.round((data[p * 4] + data[p * 4 + 1] + data[p * 4 + 2]) / 3);
+  }
+
+  // One 256-entry mapping per tile
+  const maps = new Uint8Array(tilesX * tilesY * 256);
+  const histogram = new Uint32Array(256);
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = Math.floor(tx * tileWidth);
+      const x1 = Math.floor((tx + 1) * tileWidth);
+      const y0 = Math.floor(ty * tileHeight);
+      const y1 = Math.floor((ty + 1) * tileHeight);
+      const count = (x1 - x0) * (y1 - y0);
+      if (count === 0) continue;
+
+      histogram.fill(0);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) histogram[luminance[y * width + x]]++;
+      }
+
+      // Clip the histogram and spread the excess evenly over all bins
+      const limit = Math.max(1, Math.floor((clipLimit * count) / 256));
+      let excess = 0;
+      for (let level = 0; level < 256; level++) {
+        if (histogram[level] > limit) {
+          excess += histogram[level] - limit;
+          histogram[level] = limit;
+        }
+      }
+      const share = excess / 256;
+
+      const map = (ty * tilesX + tx) * 256;
+      let cumulative = 0;
+      for (let level = 0; level < 256; level++) {
+        cumulative += histogram[level] + share;
+        maps[map + level] = Math.min(255, Math.round((cumulative * 255) / count));
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    // Position between tile centers, clamped at the borders
+    const gy = Math.min(tilesY - 1, Math.max(0, (y + 0.5) / tileHeight - 0.5));
+    const ty0 = Math.floor(gy);
+    const ty1 = Math.min(tilesY - 1, ty0 + 1);
+    const fy = gy - ty0;
+
+    for (let x = 0; x < width; x++) {
+      const gx = Math.min(tilesX - 1, Math.max(0, (x + 0.5) / tileWidth - 0.5));
+      const tx0 = Math.floor(gx);
+      const tx1 = Math.min(tilesX - 1, tx0 + 1);
+      const fx = gx - tx0;
+
+      const level = luminance[y * width + x];
+      const top = maps[(ty0 * tilesX + tx0) * 256 + level] * (1 - fx) + maps[(ty0 * tilesX + tx1) * 256 + level] * fx;
+      const bottom = maps[(ty1 * tilesX + tx0) * 256 + level] * (1 - fx) + maps[(ty1 * tilesX + tx1) * 256 + level] * fx;
+      const equalized = top * (1 - fy) + bottom * fy;
+
+      const i = (y * width + x) * 4;
+      if (level === 0) {
+        data[i] = equalized;
+        data[i + 1] = equalized;
+        data[i + 2] = equalized;
+      } else {
+        const scale = equalized / level;
+        data[i] *= scale;
+        data[i + 1] *= scale;
+        data[i + 2] *= scale;
+      }
+    }
+  }
+}
+
+/**
+ * Scale the channels around mid-grey and shift them by a brightness offset
+ */
+export function adjustContrast({ data }: PixelBuffer, contrast: number, brightness: number): void {
+  // Uint8ClampedArray clamps to 0-255 on assignment
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - 128) * contrast + 128 + brightness;
+    data[i + 1] = (data[i + 1] - 128) * contrast + 128 + brightness;
+    data[i + 2] = (data[i + 2] - 128) * contrast + 128 + brightness;
+  }
+}
+
+/**
+ * Set pixels whose channel average is above the threshold to white, the rest to black
+ */
+export function binarize({ data }: PixelBuffer, threshold: number): void {
+  for (let i = 0; i < data.length; i += 4) {
+    const avg = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    const val = avg > threshold ? 255 : 0;
+    data[i] = val;
+    data[i + 1] = val;
+    data[i + 2] = val;
+  }
+}
+
+/**
+ * Otsu's threshold: the grey level that best separates the histogram into two
+ * classes (maximum between-class variance). Transparent pixels, such as the
+ * corners of a circular crop, are left out.
+ */
+export function otsuThreshold({ data }: PixelBuffer): number {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    histogram[Math.round((data[i] + data[i + 1] + data[i + 2]) / 3)]++;
+  }
+  return otsuSplit(histogram).threshold;
+}
+
+/**
+ * Otsu's split of a 256-bin histogram
+ *
+ * @returns The threshold (levels above it form the bright class), the separability
+ *   (between-class over total variance, 0-1; two clean peaks score near 1) and the
+ *   share of values in the bright class
+ */
+export function otsuSplit(histogram: ArrayLike<number>): { threshold: number; separability: number; brightFraction: number } {
+  let total = 0;
+  let weightedTotal = 0;
+  let squaredTotal = 0;
+  for (let level = 0; level < 256; level++) {
+    total += histogram[level];
+    weightedTotal += level * histogram[level];
+    squaredTotal += level * level * histogram[level];
+  }
+  if (total === 0) return { threshold: 128, separability: 0, brightFraction: 0 };
+
+  let background = 0;
+  let weightedBackground = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+  let brightCount = 0;
+  for (let level = 0; level < 256; level++) {
+    background += histogram[level];
+    if (background === 0) continue;
+    const foreground = total - background;
+    if (foreground === 0) break;
+
+    weightedBackground += level * histogram[level];
+    const meanBackground = weightedBackground / background;
+    const meanForeground = (weightedTotal - weightedBackground) / foreground;
+    const variance = background * foreground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+      brightCount = foreground;
+    }
+  }
+
+  const mean = weightedTotal / total;
+  const totalVariance = squaredTotal / total - mean * mean;
+  return {
+    threshold,
+    separability: totalVariance > 0 ? Math.max(0, bestVariance) / (total * total) / totalVariance : 0,
+    brightFraction: brightCount / total,
+  };
+}
+
+// Default neighbourhood for local thresholding: about a sixteenth of the smaller side,
+// large enough to span a character stroke and its background
+function defaultWindowSize(width: number, height: number): number {
+  return Math.max(15, Math.round(Math.min(width, height) / 16)) | 1;
+}
+
+/**
+ * Binarize with a threshold per pixel computed from the mean and standard
+ * deviation of its neighbourhood. Window sums come from integral images, so the
+ * cost doesn't depend on the window size. Transparent pixels are neither counted
+ * in the neighbourhood nor changed, so a crop's corners don't darken the lid's rim.
+ */
+function localBinarize(
+  pixels: PixelBuffer,
+  windowSize: number,
+  threshold: (mean: number, deviation: number) => number
+): void {
+  const { data, width, height } = pixels;
+  const stride = width + 1;
+  // Integral images of the opaque pixels' grey values, their squares and their count,
+  // with a zero first row and column
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  const counts = new Uint32Array(stride * (height + 1));
+  const grey = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    let rowCount = 0;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] !== 0) {
+        const value = (data[i] + data[i + 1] + data[i + 2]) / 3;
+        grey[y * width + x] = value;
+        rowSum += value;
+        rowSquares += value * value;
+        rowCount++;
+      }
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + rowSum;
+      squares[(y + 1) * stride + x + 1] = squares[y * stride + x + 1] + rowSquares;
+      counts[(y + 1) * stride + x + 1] = counts[y * stride + x + 1] + rowCount;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - half);
+    const bottom = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      const left = Math.max(0, x - half);
+      const right = Math.min(width, x + half + 1);
+      const count = counts[bottom * stride + right] - counts[top * stride + right] -
+        counts[bottom * stride + left] + counts[top * stride + left];
+
+      const sum = sums[bottom * stride + right] - sums[top * stride + right] -
+        sums[bottom * stride + left] + sums[top * stride + left];
+      const sumSquares = squares[bottom * stride + right] - squares[top * stride + right] -
+        squares[bottom * stride + left] + squares[top * stride + left];
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+
+      const val = grey[y * width + x] > threshold(mean, deviation) ? 255 : 0;
+      data[i] = val;
+      data[i + 1] = val;
+      data[i + 2] = val;
+    }
+  }
+}
+
+/**
+ * Sauvola binarization, T = m·(1 + k·(s/128 − 1)). Flat areas stay background,
+ * which suits dark print on a light lid.
+ */
+export function sauvolaBinarize(pixels: PixelBuffer, windowSize?: number, k = 0.34): void {
+  localBinarize(
+    pixels,
+    windowSize ?? defaultWindowSize(pixels.width, pixels.height),
+    (mean, deviation) => mean * (1 + k * (deviation / 128 - 1))
+  );
+}
+
+/**
+ * Niblack binarization, T = m + k·s. A negative k keeps dark text, a positive k
+ * light text on a dark lid; flat areas come out noisy.
+ */
+export function niblackBinarize(pixels: PixelBuffer, windowSize?: number, k = -0.2): void {
+  localBinarize(
+    pixels,
+    windowSize ?? defaultWindowSize(pixels.width, pixels.height),
+    (mean, deviation) => mean + k * deviation
+  );
+}
+
+// Blocks less opaque than this (e.g. the corners of a circular crop) don't say much about the lighting
+const MIN_OPAQUE_BLOCK_SHARE = 0.5;
+
+/**
+ * How unevenly an image is lit: the spread between the darker and brighter
+ * parts of a coarse grid of block means (10th to 90th percentile), 0-255.
+ * Gradients, glare and shadows across a lid score high. Transparent pixels
+ * are ignored, and so are blocks that are mostly transparent.
+ */
+export function measureLightingUnevenness({ data, width, height }: PixelBuffer, grid = 8): number {
+  const blockSums = new Float64Array(grid * grid);
+  const blockCounts = new Uint32Array(grid * grid);
+  const blockSizes = new Uint32Array(grid * grid);
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(grid - 1, Math.floor((y * grid) / height));
+    for (let x = 0; x < width; x++) {
+      const block = row * grid + Math.min(grid - 1, Math.floor((x * grid) / width));
+      const i = (y * width + x) * 4;
+      blockSizes[block]++;
+      if (data[i + 3] === 0) continue;
+      blockSums[block] += (data[i] + data[i + 1] + data[i + 2]) / 3;
+      blockCounts[block]++;
+    }
+  }
+
+  const means = Array.from(blockSums, (sum, block) => sum / Math.max(1, blockCounts[block]))
+    .filter((_, block) => blockCounts[block] > 0 && blockCounts[block] >= blockSizes[block] * MIN_OPAQUE_BLOCK_SHARE)
+    .sort((a, b) => a - b);
+  if (means.length === 0) return 0;
+  return means[Math.floor(means.length * 0.9)] - means[Math.floor(means.length * 0.1)];
+}
+
+/**
+ * Sharpen with a 3×3 convolution; edge pixels are left as they are
+ */
+export function sharpen({ data, width, height }: PixelBuffer): PixelBuffer {
+  const output = new Uint8ClampedArray(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const offset = (y * width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        let val = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          for (let kx = -1; kx <= 1; kx++) {
+            val += data[offset + (ky * width + kx) * 4 + c] * SHARPEN_KERNEL[(ky + 1) * 3 + (kx + 1)];
+          }
+        }
+        output[offset + c] = val;
+      }
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+/**
+ * Reduce noise with a 3×3 median filter; edge pixels are left as they are
+ */
+export function medianFilter({ data, width, height }: PixelBuffer): PixelBuffer {
+  const output = new Uint8ClampedArray(data);
+  // Reused for every pixel; an insertion sort of 9 bytes is much cheaper than Array.sort
+  const window = new Uint8Array(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const offset = (y * width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        let count = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          for (let kx = -1; kx <= 1; kx++) {
+            const value = data[offset + (ky * width + kx) * 4 + c];
+            let j = count++;
+            while (j > 0 && window[j - 1] > value) {
+              window[j] = window[j - 1];
+              j--;
+            }
+            window[j] = value;
+          }
+        }
+        output[offset + c] = window[4];
+      }
+    }
+  }
+
+  return { data: output, width, height };
+}
@@ -99,3 +99,136 @@ export const dataURLtoBlob = (dataURL: string): Blob => {
   
   return new Blob([u8arr], { type: mime });
 };
+
+// Formats the upload path accepts; HEIC and friends can't be decoded by most browsers
+export const SUPPORTED_UPLOAD_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Longest edge (in pixels) an uploaded photo is scaled down to before cropping
+export const MAX_UPLOAD_DIMENSION = 2048;
+
+export interface LoadedImage {
+  imageData: string;
+  width: number;
+  height: number;
+}
+
+// Read the EXIF orientation tag (1-8) from a JPEG, returning 1 when absent
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  
+  // Not a JPEG (no SOI marker)
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+  
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+    
+    // APP1 segment holding "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      const entryCount = view.getUint16(ifdStart, littleEndian);
+      
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          return view.getUint16(entry + 8, littleEndian);
+        }
+      }
+      return 1;
+    }
+    
+    // Stop at start of scan; orientation must come before the image data
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    offset += 2 + segmentLength;
+  }
+  
+  return 1;
+};
+
+// Modern browsers already rotate images according to EXIF when decoding
+const browserAppliesExifOrientation = (): boolean =>
+  typeof CSS !== "undefined" && CSS.supports("image-orientation", "from-image");
+
+// Load an image File into a data URL, fixing orientation and downscaling large photos
+export const loadImageFile = (
+  file: File,
+  maxDimension: number = MAX_UPLOAD_DIMENSION
+): Promise<LoadedImage> => {
+  if (!SUPPORTED_UPLOAD_TYPES.includes(file.type)) {
+    const format = file.type || file.name.split(".").pop() || "unknown";
+    return Promise.reject(
+      new Error(`Unsupported image format (${format}). Please use a JPEG, PNG or WebP photo.`)
+    );
+  }
+  
+  return file.arrayBuffer().then((buffer) => {
+    const orientation =
+      file.type === "image/jpeg" && !browserAppliesExifOrientation()
+        ? readExifOrientation(buffer)
+        : 1;
+    const objectUrl = URL.createObjectURL(file);
+    
+    return new Promise<LoadedImage>((resolve, reject) => {
+      const image = new Image();
+      
+      image.onload = () => {
+        URL.revokeObjectURL(objectUrl);
+        
+        // Orientations 5-8 swap width and height
+        const swapsAxes = orientation >= 5 && orientation <= 8;
+        const sourceWidth = swapsAxes ? image.naturalHeight : image.naturalWidth;
+        const sourceHeight = swapsAxes ? image.naturalWidth : image.naturalHeight;
+        const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+        const width = Math.round(sourceWidth * scale);
+        const height = Math.round(sourceHeight * scale);
+        
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        
+        const ctx = canvas.getContext("2d");
+        if (!ctx) {
+          reject(new Error("Could not get canvas context"));
+          return;
+        }
+        
+        // Map the stored pixel grid onto the upright canvas
+        switch (orientation) {
+          case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+          case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+          case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+          case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+          case 6: ctx.setTransform(0, 1, -1, 0, width, 0); break;
+          case 7: ctx.setTransform(0, -1, -1, 0, width, height); break;
+          case 8: ctx.setTransform(0, -1, 1, 0, 0, height); break;
+        }
+        
+        // Draw size is in the image's own (pre-rotation) axes
+        ctx.drawImage(
+          image,
+          0,
+          0,
+          swapsAxes ? height : width,
+          swapsAxes ? width : height
+        );
+        
+        resolve({
+          imageData: canvas.toDataURL("image/jpeg", 0.92),
+          width,
+          height,
+        });
+      };
+      
+      image.onerror = () => {
+        URL.revokeObjectURL(objectUrl);
+        reject(new Error("Failed to decode the image file. It may be corrupted."));
+      };
+      
+      image.src = objectUrl;
+    });
+  });
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { calibrateConfidence, decideMatch, thresholdForProduct, CalibrationParams } from "./matchDecision";
+import type { HybridMatch, ProductVector } from "./vectorDatabase";
+
+const CALIBRATION: CalibrationParams = { slope: 20, midpoint: 0.8 };
+
+function match(id: string, similarity: number, threshold?: number): HybridMatch {
+  const product: ProductVector = { id, name: id, vector: [], threshold };
+  return { product, similarity, visualScore: similarity, textScore: null, textMatch: null };
+}
+
+describe("calibrateConfidence", () => {
+  it("puts 50% at the midpoint and rises with the score", () => {
+    expect(calibrateConfidence(0.8, CALIBRATION)).toBeCloseTo(0.5);
+    expect(calibrateConfidence(0.9, CALIBRATION)).toBeGreaterThan(0.85);
+    expect(calibrateConfidence(0.7, CALIBRATION)).toBeLessThan(0.15);
+  });
+});
+
+describe("thresholdForProduct", () => {
+  it("prefers caller overrides, then the catalog threshold, then the global one", () => {
+    const product = match("P1", 0.9, 0.7).product;
+    expect(thresholdForProduct(product, { minConfidence: 0.5, minMargin: 0 })).toBe(0.7);
+    expect(thresholdForProduct(product, { minConfidence: 0.5, minMargin: 0, perProduct: { P1: 0.6 } })).toBe(0.6);
+    expect(thresholdForProduct(match("P2", 0.9).product, { minConfidence: 0.5, minMargin: 0 })).toBe(0.5);
+  });
+});
+
+describe("decideMatch", () => {
+  it("identifies a confident match with a clear lead", () => {
+    const decision = decideMatch([match("P1", 0.92), match("P2", 0.7)], CALIBRATION);
+    expect(decision.status).toBe("identified");
+    expect(decision.margin).toBeCloseTo(0.22);
+  });
+
+  it("reports an empty catalog", () => {
+    expect(decideMatch([], CALIBRATION)).toMatchObject({ status: "unknown", reason: "empty-catalog" });
+  });
+
+  it("refuses to decide without a calibration for the metric", () => {
+    const decision = decideMatch([match("P1", 0.99), match("P2", 0.5)], null);
+    expect(decision).toMatchObject({ status: "unknown", reason: "uncalibrated", confidence: 0 });
+  });
+
+  it("rejects low-confidence matches", () => {
+    const decision = decideMatch([match("P1", 0.75), match("P2", 0.5)], CALIBRATION);
+    expect(decision).toMatchObject({ status: "unknown", reason: "low-confidence" });
+  });
+
+  it("rejects matches that barely beat the runner-up", () => {
+    const decision = decideMatch([match("P1", 0.92), match("P2", 0.9)], CALIBRATION);
+    expect(decision).toMatchObject({ status: "unknown", reason: "ambiguous" });
+  });
+
+  it("applies per-product thresholds", () => {
+    const decision = decideMatch([match("P1", 0.85, 0.9), match("P2", 0.5)], CALIBRATION);
+    expect(decision).toMatchObject({ status: "unknown", reason: "low-confidence", threshold: 0.9 });
+  });
+});
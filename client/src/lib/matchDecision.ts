@@ -0,0 +1,110 @@
+/**
+ * Open-Set Match Decisions
+ * The nearest catalog product is not necessarily the photographed one: the tin may
+ * simply not be in the catalog. This module turns raw match scores into a confidence,
+ * using the logistic calibration fitted for the metric in use (see shared/calibration.ts),
+ * and decides between "identified" and "unknown product".
+ */
+
+import type { HybridMatch } from "./vectorDatabase";
+
+// Logistic mapping from a raw match score to a confidence (0-1), fitted to labeled scores
+export interface CalibrationParams {
+  slope: number;
+  midpoint: number; // Raw score that maps to 50% confidence
+}
+
+export interface MatchThresholds {
+  minConfidence: number; // Global rejection threshold on the calibrated confidence
+  minMargin: number; // Required raw-score lead of the best match over the runner-up
+  perProduct?: Record<string, number>; // Confidence thresholds that override the global one
+}
+
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds = {
+  minConfidence: 0.5,
+  minMargin: 0.04,
+};
+
+// "uncalibrated": the catalog has no calibration for the metric in use, so its scores can't be trusted
+export type UnknownReason = "empty-catalog" | "uncalibrated" | "low-confidence" | "ambiguous";
+
+export type MatchDecision =
+  | {
+      status: "identified";
+      match: HybridMatch;
+      confidence: number;
+      margin: number;
+      threshold: number;
+    }
+  | {
+      status: "unknown";
+      reason: UnknownReason;
+      bestMatch: HybridMatch | null;
+      confidence: number;
+      margin: number;
+      threshold: number;
+    };
+
+/**
+ * Map a raw match score to a calibrated confidence
+ */
+export function calibrateConfidence(score: number, calibration: CalibrationParams): number {
+  return 1 / (1 + Math.exp(-calibration.slope * (score - calibration.midpoint)));
+}
+
+/**
+ * Confidence a match needs to be accepted for the given product.
+ * Caller overrides win over a threshold stored in the catalog, which wins over the global value.
+ */
+export function thresholdForProduct(
+  product: HybridMatch["product"],
+  thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS
+): number {
+  return thresholds.perProduct?.[product.id] ?? product.threshold ?? thresholds.minConfidence;
+}
+
+/**
+ * Decide whether the best match identifies the product or the tin is unknown
+ *
+ * @param matches Ranked matches, best first
+ * @param calibration Score-to-confidence mapping for the metric the matches were scored
+ *   with; without one every tin is reported unknown
+ * @param thresholds Rejection thresholds
+ * @returns The decision with the confidence and margin it was based on
+ */
+export function decideMatch(
+  matches: HybridMatch[],
+  calibration: CalibrationParams | null,
+  thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS
+): MatchDecision {
+  if (matches.length === 0) {
+    return {
+      status: "unknown",
+      reason: "empty-catalog",
+      bestMatch: null,
+      confidence: 0,
+      margin: 0,
+      threshold: thresholds.minConfidence,
+    };
+  }
+
+  const [best, runnerUp] = matches;
+  // With a single catalog entry there is nothing to be confused with
+  const margin = runnerUp ? best.similarity - runnerUp.similarity : best.similarity;
+  const threshold = thresholdForProduct(best.product, thresholds);
+
+  if (!calibration) {
+    return { status: "unknown", reason: "uncalibrated", bestMatch: best, confidence: 0, margin, threshold };
+  }
+  const confidence = calibrateConfidence(best.similarity, calibration);
+
+  if (confidence < threshold) {
+    return { status: "unknown", reason: "low-confidence", bestMatch: best, confidence, margin, threshold };
+  }
+
+  if (margin < thresholds.minMargin) {
+    return { status: "unknown", reason: "ambiguous", bestMatch: best, confidence, margin, threshold };
+  }
+
+  return { status: "identified", match: best, confidence, margin, threshold };
+}
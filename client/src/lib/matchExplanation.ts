@@ -0,0 +1,123 @@
+/**
+ * Match Explanations
+ * Breaks a hybrid match down for reviewers: how much of the combined score came
+ * from the visual and the text side, which OCR tokens agreed with the catalog,
+ * and which descriptor dimensions (color histogram bins, ring colors, texture,
+ * edges) contributed most to the visual similarity.
+ */
+
+import {
+  describeFeatureDimension,
+  FeatureBlock,
+  FEATURE_DIMENSION,
+} from "./featureExtractor";
+import { dotProduct, l2Normalize } from "@shared/similarityMetrics";
+import { tokenize } from "./textMatching";
+import type { HybridMatch, HybridWeights, ProductVector } from "./vectorDatabase";
+
+export interface ScoreShares {
+  visual: number; // Fraction of the combined score, 0-1
+  text: number;
+}
+
+export interface FeatureContribution {
+  dimension: number;
+  block: FeatureBlock;
+  label: string;
+  query: number; // Normalized descriptor values
+  product: number;
+  contribution: number; // query × product; the contributions sum to the cosine similarity
+}
+
+export interface VisualExplanation {
+  view: number; // The product view that matched best (0 = main vector)
+  similarity: number; // Cosine similarity of the descriptors
+  contributions: FeatureContribution[]; // Largest first
+  blocks: Array<{ block: FeatureBlock; contribution: number }>; // Totals per block, largest first
+}
+
+// A piece of the OCR text, flagged when it agreed with the product
+export interface OcrSegment {
+  text: string;
+  matched: boolean;
+}
+
+/**
+ * Split a match's combined score into its visual and text parts, using the same
+ * weighting as findNearestProductsHybrid
+ */
+export function scoreShares(match: HybridMatch, weights: HybridWeights): ScoreShares {
+  if (match.textScore === null) return { visual: 1, text: 0 };
+  const visual = weights.visual * match.visualScore;
+  const text = weights.text * match.textScore;
+  const total = visual + text;
+  return total > 0 ? { visual: visual / total, text: text / total } : { visual: 0, text: 0 };
+}
+
+/**
+ * Explain the visual similarity between a query descriptor and a product. Contributions
+ * are measured on the raw descriptors with cosine similarity, whatever metric ranked
+ * the products, because only the raw dimensions have a meaning.
+ *
+ * @param queryVector Descriptor of the photographed lid
+ * @param product The matched product; its closest view is explained
+ * @returns Null when the vectors don't come from the current feature extractor
+ */
+export function explainVisualMatch(queryVector: number[], product: ProductVector): VisualExplanation | null {
+  const views = [product.vector, ...(product.views ?? [])];
+  if (queryVector.length !== FEATURE_DIMENSION || views.some(view => view.length !== FEATURE_DIMENSION)) {
+    return null;
+  }
+
+  const query = l2Normalize(queryVector);
+  const normalizedViews = views.map(view => l2Normalize(view));
+  let view = 0;
+  normalizedViews.forEach((candidate, i) => {
+    if (dotProduct(query, candidate) > dotProduct(query, normalizedViews[view])) view = i;
+  });
+  const reference = normalizedViews[view];
+
+  const contributions: FeatureContribution[] = Array.from(query, (value, dimension) => ({
+    dimension,
+    ...describeFeatureDimension(dimension),
+    query: value,
+    product: reference[dimension],
+    contribution: value * reference[dimension],
+  }));
+
+  const blockTotals = new Map<FeatureBlock, number>();
+  contributions.forEach(({ block, contribution }) =>
+    blockTotals.set(block, (blockTotals.get(block) ?? 0) + contribution)
+  );
+
+  return {
+    view,
+    similarity: contributions.reduce((sum, { contribution }) => sum + contribution, 0),
+    contributions: contributions
+      .filter(({ contribution }) => contribution > 0)
+      .sort((a, b) => b.contribution - a.contribution),
+    blocks: Array.from(blockTotals, ([block, contribution]) => ({ block, contribution }))
+      .sort((a, b) => b.contribution - a.contribution),
+  };
+}
+
+/**
+ * Split OCR text into words and separators, flagging the words that matched a catalog field
+ *
+ * @param ocrText The raw OCR text, whose layout is kept
+ * @param matchedTokens TextMatchResult.matchedTokens; strengths appear there as e.g. "11mg"
+ */
+export function highlightOcrText(ocrText: string, matchedTokens: string[]): OcrSegment[] {
+  const matched = new Set(matchedTokens);
+  return ocrText
+    .split(/(\s+)/)
+    .filter(part => part.length > 0)
+    .map(part => {
+      const tokens = tokenize(part);
+      // "11", "11mg" or "11mg/g" all show a matched strength of 11 mg
+      const strength = parseFloat(part.replace(",", "."));
+      const isMatch = tokens.some(token => matched.has(token)) ||
+        (!Number.isNaN(strength) && matched.has(`${strength}mg`));
+      return { text: part, matched: isMatch };
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * Match Feedback
+ * Sends the user's confirmation or correction of an identification to the
+ * server, which learns from it, and applies the resulting catalog changes
+ * (new views, thresholds and match calibrations) to the loaded catalog.
+ */
+
+import type { FeedbackAction, FeedbackSubmitResult, FeedbackVerdict } from "@shared/feedback";
+import { apiRequest } from "./queryClient";
+import { addCatalogProduct, getSimilarity, HybridMatch, setMatchCalibration } from "./vectorDatabase";
+import type { MatchDecision } from "./matchDecision";
+
+export interface FeedbackOptions {
+  verdict: FeedbackVerdict;
+  correctProductId?: string; // Required for "corrected"
+  featureVector?: number[]; // Lets the server add the scan as a reference view
+  ocrText?: string;
+}
+
+/**
+ * The candidate the user is asked about: the identified product, or the closest
+ * one when the tin was declared unknown
+ */
+export function feedbackCandidate(decision: MatchDecision): HybridMatch | null {
+  return decision.status === "identified" ? decision.match : decision.bestMatch;
+}
+
+/**
+ * Record feedback on an identification
+ *
+ * @param decision The decision that was shown to the user
+ * @param matches The ranked matches behind it
+ * @param options The verdict and what the server may learn from
+ * @returns The stored feedback and the catalog changes it caused
+ */
+export async function submitMatchFeedback(
+  decision: MatchDecision,
+  matches: HybridMatch[],
+  options: FeedbackOptions
+): Promise<FeedbackSubmitResult> {
+  const candidate = feedbackCandidate(decision);
+  if (!candidate) {
+    throw new Error("There is no candidate to give feedback on");
+  }
+
+  const { metric, normalization } = getSimilarity();
+  const response = await apiRequest("POST", "/api/feedback", {
+    decision: decision.status,
+    predictedProductId: candidate.product.id,
+    verdict: options.verdict,
+    correctProductId: options.correctProductId,
+    confidence: decision.confidence,
+    threshold: decision.threshold,
+    candidates: matches.map(match => ({
+      productId: match.product.id,
+      score: Math.min(1, Math.max(0, match.similarity)),
+    })),
+    metric,
+    normalization,
+    vector: options.featureVector,
+    ocrText: options.ocrText?.trim() || undefined,
+  });
+  const result: FeedbackSubmitResult = await response.json();
+
+  result.updatedProducts.forEach(product => addCatalogProduct(product));
+  result.feedback.actions.forEach(action => {
+    if (action.type === "calibration-fitted") setMatchCalibration(action.calibration);
+  });
+  return result;
+}
+
+/**
+ * One-line summary of what the catalog learned from a piece of feedback
+ */
+export function describeFeedbackActions(actions: FeedbackAction[]): string {
+  if (actions.length === 0) return "Thanks, your feedback was saved.";
+  return actions
+    .map(action => {
+      switch (action.type) {
+        case "view-added":
+          return `Added this photo as a reference view of ${action.productId}.`;
+        case "threshold-adjusted":
+          return `Adjusted ${action.productId}'s confidence threshold to ${(action.to * 100).toFixed(0)}%.`;
+        case "calibration-fitted":
+          return `Refitted the ${action.calibration.metric} match calibration to ${action.calibration.samples} rated scores.`;
+      }
+    })
+    .join(" ");
+}
@@ -0,0 +1,352 @@
+/**
+ * Perspective Correction for Tilted Tins
+ * A tilted lid shows up as an ellipse. This module fits that ellipse and
+ * warps the photo with a homography so the lid becomes a true circle again.
+ */
+
+import { detectCircleInImage, CIRCLE_CONFIDENCE_THRESHOLD } from "./circleDetection";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Ellipse {
+  cx: number;
+  cy: number;
+  rx: number;    // Semi-axis along `angle`
+  ry: number;    // Semi-axis perpendicular to `angle`
+  angle: number; // Radians
+}
+
+// Row-major 3x3 matrix
+export type Homography = number[];
+
+/**
+ * Solve A·x = b with Gaussian elimination and partial pivoting
+ */
+function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Compute the homography mapping four source points onto four destination points
+ */
+export function computeHomography(src: Point[], dst: Point[]): Homography | null {
+  const A: number[][] = [];
+  const b: number[] = [];
+
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinearSystem(A, b);
+  return h ? [...h, 1] : null;
+}
+
+/**
+ * Invert a 3x3 homography
+ */
+export function invertHomography(h: Homography): Homography | null {
+  const [a, b, c, d, e, f, g, k, l] = h;
+  const det = a * (e * l - f * k) - b * (d * l - f * g) + c * (d * k - e * g);
+  if (Math.abs(det) < 1e-12) return null;
+
+  return [
+    (e * l - f * k) / det, (c * k - b * l) / det, (b * f - c * e) / det,
+    (f * g - d * l) / det, (a * l - c * g) / det, (c * d - a * f) / det,
+    (d * k - e * g) / det, (b * g - a * k) / det, (a * e - b * d) / det,
+  ];
+}
+
+export function applyHomography(h: Homography, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w,
+  };
+}
+
+/**
+ * Least-squares ellipse fit of the conic x² + Bxy + Cy² + Dx + Ey + F = 0
+ *
+ * @param points At least five points on the outline
+ * @returns The ellipse, or null if the points don't describe one
+ */
+export function fitEllipse(points: Point[]): Ellipse | null {
+  if (points.length < 5) return null;
+
+  // Center the points for numerical stability
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+
+  const normal = Array.from({ length: 5 }, () => new Array(5).fill(0));
+  const rhs = new Array(5).fill(0);
+  for (const p of points) {
+    const x = p.x - meanX;
+    const y = p.y - meanY;
+    const row = [x * y, y * y, x, y, 1];
+    for (let i = 0; i < 5; i++) {
+      rhs[i] += row[i] * -(x * x);
+      for (let j = 0; j < 5; j++) normal[i][j] += row[i] * row[j];
+    }
+  }
+
+  const solution = solveLinearSystem(normal, rhs);
+  if (!solution) return null;
+
+  const A = 1;
+  const [B, C, D, E, F] = solution;
+
+  // Must be an ellipse, not a parabola or hyperbola
+  if (B * B - 4 * A * C >= 0) return null;
+
+  const det = 4 * A * C - B * B;
+  const x0 = (B * E - 2 * C * D) / det;
+  const y0 = (B * D - 2 * A * E) / det;
+  const centerValue = A * x0 * x0 + B * x0 * y0 + C * y0 * y0 + D * x0 + E * y0 + F;
+
+  const angle = 0.5 * Math.atan2(B, A - C);
+  const mean = (A + C) / 2;
+  const spread = Math.sqrt(((A - C) / 2) ** 2 + (B / 2) ** 2);
+  const lambdaAlong = mean + spread;
+  const lambdaAcross = mean - spread;
+
+  if (-centerValue / lambdaAlong <= 0 || -centerValue / lambdaAcross <= 0) return null;
+
+  return {
+    cx: x0 + meanX,
+    cy: y0 + meanY,
+    rx: Math.sqrt(-centerValue / lambdaAlong),
+    ry: Math.sqrt(-centerValue / lambdaAcross),
+    angle,
+  };
+}
+
+/**
+ * The four axis endpoints of an ellipse, used as the draggable control points
+ */
+export function ellipseControlPoints(ellipse: Ellipse): Point[] {
+  const cos = Math.cos(ellipse.angle);
+  const sin = Math.sin(ellipse.angle);
+
+  return [
+    { x: ellipse.cx + ellipse.rx * cos, y: ellipse.cy + ellipse.rx * sin },
+    { x: ellipse.cx - ellipse.ry * sin, y: ellipse.cy + ellipse.ry * cos },
+    { x: ellipse.cx - ellipse.rx * cos, y: ellipse.cy - ellipse.rx * sin },
+    { x: ellipse.cx + ellipse.ry * sin, y: ellipse.cy - ellipse.ry * cos },
+  ];
+}
+
+/**
+ * Where the four control points should land for the lid to be a circle.
+ * Opposite points span the two diameters; they meet at right angles and share
+ * the length of the longer one.
+ */
+export function circleTargetPoints(controlPoints: Point[]): Point[] {
+  const [p0, p1, p2, p3] = controlPoints;
+  const center = {
+    x: (p0.x + p1.x + p2.x + p3.x) / 4,
+    y: (p0.y + p1.y + p2.y + p3.y) / 4,
+  };
+  const radius = Math.max(
+    Math.hypot(p2.x - p0.x, p2.y - p0.y),
+    Math.hypot(p3.x - p1.x, p3.y - p1.y)
+  ) / 2;
+  const angle = Math.atan2(p0.y - p2.y, p0.x - p2.x);
+
+  return [0, 1, 2, 3].map(i => ({
+    x: center.x + radius * Math.cos(angle + (i * Math.PI) / 2),
+    y: center.y + radius * Math.sin(angle + (i * Math.PI) / 2),
+  }));
+}
+
+const loadImage = (imageSrc: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for perspective correction"));
+    img.src = imageSrc;
+  });
+
+/**
+ * Fit an ellipse to the lid outline in an image.
+ * Starts from the circle detector's estimate (or the image center), then looks for
+ * the strongest edge along rays cast outward from it.
+ *
+ * @param imageSrc The source image data URL
+ * @returns The lid ellipse in image pixels, or null when no outline was found
+ */
+export async function fitLidEllipse(imageSrc: string): Promise<Ellipse | null> {
+  const img = await loadImage(imageSrc);
+  const circle = await detectCircleInImage(imageSrc);
+
+  const workingSize = 400;
+  const scale = Math.min(1, workingSize / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray = (x: number, y: number) => {
+    const i = (Math.round(y) * width + Math.round(x)) * 4;
+    return (data[i] + data[i + 1] + data[i + 2]) / 3;
+  };
+
+  const confident = circle && circle.confidence >= CIRCLE_CONFIDENCE_THRESHOLD;
+  const cx = confident ? circle.x * scale : width / 2;
+  const cy = confident ? circle.y * scale : height / 2;
+  const radius = confident ? circle.radius * scale : Math.min(width, height) * 0.35;
+
+  // Strongest brightness step along each ray; tilt stretches the outline up to ~40% either way
+  const points: Point[] = [];
+  const rays = 90;
+  for (let i = 0; i < rays; i++) {
+    const theta = (i / rays) * Math.PI * 2;
+    const dx = Math.cos(theta);
+    const dy = Math.sin(theta);
+    let bestStep = 0;
+    let bestPoint: Point | null = null;
+
+    for (let r = radius * 0.6; r <= radius * 1.4; r++) {
+      const x = cx + r * dx;
+      const y = cy + r * dy;
+      if (x < 2 || y < 2 || x >= width - 2 || y >= height - 2) break;
+
+      const step = Math.abs(gray(x + 2 * dx, y + 2 * dy) - gray(x - 2 * dx, y - 2 * dy));
+      if (step > bestStep) {
+        bestStep = step;
+        bestPoint = { x, y };
+      }
+    }
+
+    if (bestPoint && bestStep > 20) points.push(bestPoint);
+  }
+
+  let ellipse = fitEllipse(points);
+  if (!ellipse) return null;
+
+  // Refit without the worst fifth of the points (background clutter, print on the lid)
+  const current = ellipse;
+  const residual = (p: Point) => {
+    const cos = Math.cos(current.angle);
+    const sin = Math.sin(current.angle);
+    const u = ((p.x - current.cx) * cos + (p.y - current.cy) * sin) / current.rx;
+    const v = (-(p.x - current.cx) * sin + (p.y - current.cy) * cos) / current.ry;
+    return Math.abs(Math.sqrt(u * u + v * v) - 1);
+  };
+  const inliers = [...points]
+    .sort((a, b) => residual(a) - residual(b))
+    .slice(0, Math.ceil(points.length * 0.8));
+  ellipse = fitEllipse(inliers) ?? ellipse;
+
+  return {
+    cx: ellipse.cx / scale,
+    cy: ellipse.cy / scale,
+    rx: ellipse.rx / scale,
+    ry: ellipse.ry / scale,
+    angle: ellipse.angle,
+  };
+}
+
+/**
+ * Warp an image so the four control points land on a circle.
+ * The output keeps the source dimensions; areas outside the source are black.
+ *
+ * @param imageSrc The source image data URL
+ * @param controlPoints Four points on the lid outline, in order around it
+ * @returns A Promise resolving to the rectified image data URL
+ */
+export async function rectifyImage(imageSrc: string, controlPoints: Point[]): Promise<string> {
+  const img = await loadImage(imageSrc);
+  const { width, height } = img;
+
+  const forward = computeHomography(controlPoints, circleTargetPoints(controlPoints));
+  const inverse = forward && invertHomography(forward);
+  if (!inverse) throw new Error("Control points are degenerate; move them apart and try again");
+
+  const sourceCanvas = document.createElement("canvas");
+  sourceCanvas.width = width;
+  sourceCanvas.height = height;
+  const sourceCtx = sourceCanvas.getContext("2d", { willReadFrequently: true });
+  if (!sourceCtx) throw new Error("Could not get canvas context");
+  sourceCtx.drawImage(img, 0, 0);
+  const source = sourceCtx.getImageData(0, 0, width, height).data;
+
+  const output = new ImageData(width, height);
+  const out = output.data;
+
+  // Inverse mapping with bilinear sampling so every output pixel gets a value
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = inverse[6] * x + inverse[7] * y + inverse[8];
+      const sx = (inverse[0] * x + inverse[1] * y + inverse[2]) / w;
+      const sy = (inverse[3] * x + inverse[4] * y + inverse[5]) / w;
+      const o = (y * width + x) * 4;
+
+      if (sx < 0 || sy < 0 || sx >= width - 1 || sy >= height - 1) {
+        out[o + 3] = 255;
+        continue;
+      }
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * width + x0) * 4;
+      const i10 = i00 + 4;
+      const i01 = i00 + width * 4;
+      const i11 = i01 + 4;
+
+      for (let c = 0; c < 3; c++) {
+        const top = source[i00 + c] * (1 - fx) + source[i10 + c] * fx;
+        const bottom = source[i01 + c] * (1 - fx) + source[i11 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  const outputCanvas = document.createElement("canvas");
+  outputCanvas.width = width;
+  outputCanvas.height = height;
+  const outputCtx = outputCanvas.getContext("2d");
+  if (!outputCtx) throw new Error("Could not get canvas context");
+  outputCtx.putImageData(output, 0, 0);
+
+  return outputCanvas.toDataURL("image/jpeg", 0.92);
+}
@@ -0,0 +1,92 @@
+/**
+ * Enhancement Pipeline Runner
+ * Applies the steps of an enhancement pipeline (see enhancementPipeline.ts) with
+ * the filters from imageFilters.ts and colorChannels.ts. Used by the enhancement
+ * worker and by the main-thread fallback.
+ */
+
+import type { EnhancementStep } from "./enhancementPipeline";
+import {
+  adjustContrast,
+  applyGamma,
+  balanceWhite,
+  binarize,
+  equalizeAdaptive,
+  estimateGamma,
+  medianFilter,
+  niblackBinarize,
+  otsuThreshold,
+  PixelBuffer,
+  sauvolaBinarize,
+  sharpen,
+  toGrayscale,
+} from "./imageFilters";
+import { invert, normalizePolarity, toBestChannel } from "./colorChannels";
+
+/**
+ * Run the steps of an enhancement pipeline in order
+ *
+ * @param pixels The image; its buffer is modified in place
+ * @param steps Pipeline steps
+ * @returns The enhanced image, which may use a new buffer
+ */
+export function runPipeline(pixels: PixelBuffer, steps: EnhancementStep[]): PixelBuffer {
+  let result = pixels;
+
+  for (const step of steps) {
+    switch (step.op) {
+      case "whiteBalance":
+        balanceWhite(result);
+        break;
+      case "grayscale":
+        toGrayscale(result);
+        break;
+      case "bestChannel":
+        toBestChannel(result, step.channels);
+        break;
+      case "autoInvert":
+        normalizePolarity(result);
+        break;
+      case "invert":
+        invert(result);
+        break;
+      case "gamma":
+        applyGamma(result, step.gamma === "auto" ? estimateGamma(result) : step.gamma);
+        break;
+      case "clahe":
+        equalizeAdaptive(result, step.tiles, step.clipLimit);
+        break;
+      case "contrast":
+        adjustContrast(result, step.contrast, step.brightness);
+        break;
+      case "sharpen":
+        result = sharpen(result);
+        break;
+      case "binarize":
+        applyBinarization(result, step);
+        break;
+      case "despeckle":
+        result = medianFilter(result);
+        break;
+    }
+  }
+
+  return result;
+}
+
+function applyBinarization(pixels: PixelBuffer, step: Extract<EnhancementStep, { op: "binarize" }>) {
+  switch (step.method) {
+    case "fixed":
+      binarize(pixels, step.threshold);
+      break;
+    case "otsu":
+      binarize(pixels, otsuThreshold(pixels));
+      break;
+    case "sauvola":
+      sauvolaBinarize(pixels, step.windowSize, step.k);
+      break;
+    case "niblack":
+      niblackBinarize(pixels, step.windowSize, step.k);
+      break;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Polar Unwrapping of Rim Text
+ * Brand and flavor names often run around the lid's rim. This module unrolls a
+ * ring of the circular crop into a straight strip that OCR can read, and maps
+ * positions on the strip back onto the circle.
+ */
+
+import type { Point } from "./perspective";
+
+export interface RingBand {
+  inner: number; // Inner edge as a fraction of the crop radius (0-1)
+  outer: number; // Outer edge as a fraction of the crop radius (0-1)
+}
+
+// Text along the top reads clockwise with letters pointing outward;
+// text along the bottom reads counter-clockwise with letters pointing inward
+export type UnwrapDirection = "outward" | "inward";
+
+export interface UnwrapGeometry {
+  centerX: number;
+  centerY: number;
+  innerRadius: number;
+  outerRadius: number;
+  direction: UnwrapDirection;
+  loopWidth: number;   // Strip pixels covering one full turn
+  stripWidth: number;  // loopWidth plus the repeated overlap
+  stripHeight: number;
+}
+
+export const RING_BAND_PRESETS: Record<string, { label: string; band: RingBand }> = {
+  rim: { label: "Outer rim", band: { inner: 0.7, outer: 0.98 } },
+  middle: { label: "Middle ring", band: { inner: 0.4, outer: 0.75 } },
+};
+
+// Part of the turn repeated at the end so words crossing the seam are read whole
+const SEAM_OVERLAP = 0.25;
+// The seam sits at 9 o'clock, away from the top and bottom where rim text usually is
+const START_ANGLE = Math.PI;
+
+/**
+ * Map a point on the strip to the circle crop's pixel coordinates
+ */
+export function stripPointToCircle(geometry: UnwrapGeometry, point: Point): Point {
+  const { centerX, centerY, innerRadius, outerRadius, direction, loopWidth, stripHeight } = geometry;
+  const turn = (point.x / loopWidth) * Math.PI * 2;
+  const depth = point.y / stripHeight;
+
+  const angle = direction === "outward" ? START_ANGLE + turn : START_ANGLE - turn;
+  const radius = direction === "outward"
+    ? outerRadius - depth * (outerRadius - innerRadius)
+    : innerRadius + depth * (outerRadius - innerRadius);
+
+  return {
+    x: centerX + radius * Math.cos(angle),
+    y: centerY + radius * Math.sin(angle),
+  };
+}
+
+/**
+ * Map a box on the strip to an axis-aligned [x, y, width, height] box on the circle crop
+ */
+export function stripBoxToCircle(
+  geometry: UnwrapGeometry,
+  box: { x0: number; y0: number; x1: number; y1: number }
+): [number, number, number, number] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  // Sample along the box edges since arcs bulge between the corners
+  for (let t = 0; t <= 1; t += 0.25) {
+    for (const p of [
+      { x: box.x0 + t * (box.x1 - box.x0), y: box.y0 },
+      { x: box.x0 + t * (box.x1 - box.x0), y: box.y1 },
+      { x: box.x0, y: box.y0 + t * (box.y1 - box.y0) },
+      { x: box.x1, y: box.y0 + t * (box.y1 - box.y0) },
+    ]) {
+      const mapped = stripPointToCircle(geometry, p);
+      xs.push(mapped.x);
+      ys.push(mapped.y);
+    }
+  }
+
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return [minX, minY, Math.max(...xs) - minX, Math.max(...ys) - minY];
+}
+
+/**
+ * Unroll a ring of a circular crop into a rectangular strip.
+ *
+ * @param imageSrc The circular crop data URL (center and radius are implied by its size)
+ * @param band Which ring to unroll
+ * @param direction Reading direction of the text in that ring
+ * @returns A Promise resolving to the strip image and the geometry needed to map back
+ */
+export function unwrapRing(
+  imageSrc: string,
+  band: RingBand,
+  direction: UnwrapDirection
+): Promise<{ imageData: string; geometry: UnwrapGeometry }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const size = Math.min(img.width, img.height);
+        const radius = size / 2;
+        const innerRadius = radius * band.inner;
+        const outerRadius = radius * band.outer;
+        const loopWidth = Math.round(Math.PI * (innerRadius + outerRadius));
+
+        const geometry: UnwrapGeometry = {
+          centerX: img.width / 2,
+          centerY: img.height / 2,
+          innerRadius,
+          outerRadius,
+          direction,
+          loopWidth,
+          stripWidth: Math.round(loopWidth * (1 + SEAM_OVERLAP)),
+          stripHeight: Math.max(1, Math.round(outerRadius - innerRadius)),
+        };
+
+        const sourceCanvas = document.createElement('canvas');
+        sourceCanvas.width = img.width;
+        sourceCanvas.height = img.height;
+        const sourceCtx = sourceCanvas.getContext('2d', { willReadFrequently: true });
+        if (!sourceCtx) {
+          reject(new Error('Could not get canvas context'));
+          return;
+        }
+        sourceCtx.drawImage(img, 0, 0);
+        const source = sourceCtx.getImageData(0, 0, img.width, img.height).data;
+
+        const strip = new ImageData(geometry.stripWidth, geometry.stripHeight);
+        const out = strip.data;
+
+        // Bilinear sample of the circle at each strip pixel
+        for (let y = 0; y < geometry.stripHeight; y++) {
+          for (let x = 0; x < geometry.stripWidth; x++) {
+            const p = stripPointToCircle(geometry, { x: x + 0.5, y: y + 0.5 });
+            const o = (y * geometry.stripWidth + x) * 4;
+            const x0 = Math.floor(p.x);
+            const y0 = Math.floor(p.y);
+
+            if (x0 < 0 || y0 < 0 || x0 >= img.width - 1 || y0 >= img.height - 1) {
+              out[o] = out[o + 1] = out[o + 2] = 255;
+              out[o + 3] = 255;
+              continue;
+            }
+
+            const fx = p.x - x0;
+            const fy = p.y - y0;
+            const i00 = (y0 * img.width + x0) * 4;
+            const i10 = i00 + 4;
+            const i01 = i00 + img.width * 4;
+            const i11 = i01 + 4;
+
+            for (let c = 0; c < 3; c++) {
+              const top = source[i00 + c] * (1 - fx) + source[i10 + c] * fx;
+              const bottom = source[i01 + c] * (1 - fx) + source[i11 + c] * fx;
+              out[o + c] = top * (1 - fy) + bottom * fy;
+            }
+            out[o + 3] = 255;
+          }
+        }
+
+        const stripCanvas = document.createElement('canvas');
+        stripCanvas.width = geometry.stripWidth;
+        stripCanvas.height = geometry.stripHeight;
+        const stripCtx = stripCanvas.getContext('2d');
+        if (!stripCtx) {
+          reject(new Error('Could not get canvas context'));
+          return;
+        }
+        stripCtx.putImageData(strip, 0, 0);
+
+        resolve({ imageData: stripCanvas.toDataURL('image/png'), geometry });
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for unwrapping'));
+    };
+
+    img.src = imageSrc;
+  });
+}
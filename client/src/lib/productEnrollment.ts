@@ -0,0 +1,288 @@
+/**
+ * Product Enrollment
+ * Turns a scanned lid into catalog data: suggests product fields from the OCR
+ * text and saves new products, or extra reference views of existing ones,
+ * through the catalog API.
+ */
+
+import { CatalogProduct, CatalogStrength, EmbeddingModel, productFormats } from "@shared/catalog";
+import { apiRequest } from "./queryClient";
+import { tokenize, tokenSimilarity } from "./textMatching";
+import { productVectors, addCatalogProduct } from "./vectorDatabase";
+import { FEATURE_EXTRACTOR_ID } from "./featureExtractor";
+
+export type ProductFormat = (typeof productFormats)[number];
+
+// Form state of the enrollment dialog; numbers stay strings until saved
+export interface EnrollmentFields {
+  id: string;
+  name: string;
+  brand: string;
+  flavor: string;
+  strengthMg: string;
+  strengthUnit: "pouch" | "gram";
+  format: ProductFormat | "";
+  ean: string;
+}
+
+// Reference photos are stored at the size the bundled catalog uses
+const REFERENCE_IMAGE_SIZE = 256;
+
+// OCR tokens at least this close to a known brand or flavor word are taken as that word
+const MIN_SUGGESTION_SIMILARITY = 0.8;
+
+// Common flavor words on lids, extended with the words of flavors already in the catalog
+const FLAVOR_WORDS = [
+  "mint", "spearmint", "peppermint", "menthol", "ice", "cool", "frost", "freeze",
+  "citrus", "lemon", "lime", "orange", "grapefruit", "berry", "blueberry", "strawberry",
+  "raspberry", "cherry", "grape", "apple", "mango", "melon", "watermelon", "peach",
+  "tropical", "fruit", "cola", "coffee", "licorice", "cinnamon", "vanilla", "black",
+];
+
+// Words printed on most lids that never name the brand
+const NON_BRAND_WORDS = new Set([
+  "nicotine", "pouches", "pouch", "free", "strong", "extra", "slim", "mini", "white", "portion", "original",
+]);
+
+const titleCase = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+function bestMatch(token: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestSimilarity = MIN_SUGGESTION_SIMILARITY;
+  for (const candidate of candidates) {
+    const similarity = tokenSimilarity(token, candidate.toLowerCase());
+    if (similarity >= bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
+// Brands already in the catalog, matched word by word against the OCR tokens
+function suggestBrand(ocrTokens: string[]): { brand: string; tokens: Set<string> } | null {
+  const brands = Array.from(new Set(productVectors.map(p => p.brand).filter((b): b is string => !!b)));
+  let best: { brand: string; tokens: Set<string> } | null = null;
+
+  for (const brand of brands) {
+    const tokens = new Set<string>();
+    const brandTokens = tokenize(brand);
+    for (const brandToken of brandTokens) {
+      const found = ocrTokens.find(token => tokenSimilarity(brandToken, token) >= MIN_SUGGESTION_SIMILARITY);
+      if (found) tokens.add(found);
+    }
+    // Every word of the brand must be present; prefer the longest such brand
+    if (tokens.size === brandTokens.length && (!best || brand.length > best.brand.length)) {
+      best = { brand, tokens };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Suggest enrollment fields from the text read off the lid.
+ * Brands are recognized when they are already in the catalog; otherwise the first
+ * word that isn't a flavor or a strength is offered. The user corrects the rest.
+ *
+ * @param ocrText Text extracted from the lid (may be empty)
+ */
+export function suggestProductFields(ocrText: string): Partial<EnrollmentFields> {
+  const ocrTokens = tokenize(ocrText);
+  const suggestion: Partial<EnrollmentFields> = {};
+
+  const knownBrand = suggestBrand(ocrTokens);
+  const brandTokens = knownBrand?.tokens ?? new Set<string>();
+
+  const flavorVocabulary = Array.from(new Set([
+    ...FLAVOR_WORDS,
+    ...productVectors.flatMap(p => (p.flavor ? tokenize(p.flavor) : [])),
+  ]));
+  const flavorWords: string[] = [];
+  for (const token of ocrTokens) {
+    if (brandTokens.has(token) || /\d/.test(token)) continue;
+    const word = bestMatch(token, flavorVocabulary);
+    if (word && !flavorWords.includes(word)) flavorWords.push(word);
+  }
+
+  if (knownBrand) {
+    suggestion.brand = knownBrand.brand;
+  } else {
+    const word = ocrTokens.find(token =>
+      /^[a-z]{3,}$/.test(token) && !NON_BRAND_WORDS.has(token) && !bestMatch(token, flavorVocabulary)
+    );
+    if (word) suggestion.brand = word.toUpperCase();
+  }
+  if (flavorWords.length > 0) suggestion.flavor = flavorWords.map(titleCase).join(" ");
+
+  const strength = ocrText.match(/(\d+(?:[.,]\d+)?)\s*mg(\s*\/\s*g)?/i);
+  if (strength) {
+    suggestion.strengthMg = strength[1].replace(",", ".");
+    suggestion.strengthUnit = strength[2] ? "gram" : "pouch";
+  }
+
+  const name = [suggestion.brand, suggestion.flavor].filter(Boolean).join(" ");
+  if (name) suggestion.name = name;
+
+  return suggestion;
+}
+
+/**
+ * Next free id in the catalog's "P001" numbering
+ */
+export function nextProductId(): string {
+  const numbers = productVectors
+    .map(p => /^P(\d+)$/.exec(p.id))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => parseInt(match[1], 10));
+  return `P${String(Math.max(0, ...numbers) + 1).padStart(3, '0')}`;
+}
+
+export function emptyEnrollmentFields(): EnrollmentFields {
+  return {
+    id: nextProductId(),
+    name: "",
+    brand: "",
+    flavor: "",
+    strengthMg: "",
+    strengthUnit: "pouch",
+    format: "",
+    ean: "",
+  };
+}
+
+function toStrength(fields: EnrollmentFields): CatalogStrength | undefined {
+  const mg = parseFloat(fields.strengthMg.replace(",", "."));
+  if (!Number.isFinite(mg)) return undefined;
+  return fields.strengthUnit === "gram" ? { mgPerGram: mg } : { mgPerPouch: mg };
+}
+
+/**
+ * Downscale the circular crop to a JPEG reference photo
+ */
+export function createReferenceImage(imageData: string, size: number = REFERENCE_IMAGE_SIZE): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = size;
+      canvas.height = size;
+      const ctx = canvas.getContext('2d');
+
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      // JPEG has no transparency; keep the area outside the lid white
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, size, size);
+      ctx.drawImage(img, 0, 0, size, size);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for the reference photo'));
+    };
+
+    img.src = imageData;
+  });
+}
+
+async function uploadReferenceImage(imageData: string): Promise<string> {
+  const response = await apiRequest("POST", "/api/reference-images", {
+    image: await createReferenceImage(imageData),
+  });
+  const { path } = await response.json();
+  return path;
+}
+
+// Delete an uploaded photo whose product request failed, so it isn't left orphaned
+async function discardReferenceImage(path: string): Promise<void> {
+  try {
+    await apiRequest("DELETE", `/api/reference-images/${encodeURIComponent(path.split("/").pop()!)}`);
+  } catch (error) {
+    console.warn('Could not delete the unused reference image:', error);
+  }
+}
+
+// Run a product request that records an uploaded photo, deleting the photo if it fails
+async function withReferenceImage<T>(path: string, request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    await discardReferenceImage(path);
+    throw error;
+  }
+}
+
+/**
+ * Save a new product with the scanned lid as its first reference view
+ *
+ * @param fields The corrected enrollment form
+ * @param vector Feature vector of the crop
+ * @param imageData The cropped lid image data URL
+ * @returns The product as stored; it is also added to the loaded catalog
+ */
+export async function enrollProduct(
+  fields: EnrollmentFields,
+  vector: number[],
+  imageData: string
+): Promise<CatalogProduct> {
+  const embeddingModel: EmbeddingModel = { id: FEATURE_EXTRACTOR_ID, dimension: vector.length };
+  const referenceImage = await uploadReferenceImage(imageData);
+
+  const response = await withReferenceImage(referenceImage, () => apiRequest("POST", "/api/products", {
+    id: fields.id.trim(),
+    name: fields.name.trim(),
+    brand: fields.brand.trim() || undefined,
+    flavor: fields.flavor.trim() || undefined,
+    strength: toStrength(fields),
+    format: fields.format || undefined,
+    ean: fields.ean.trim() || undefined,
+    referenceImages: [referenceImage],
+    vectors: [vector],
+    embeddingModel,
+  }));
+  const product: CatalogProduct = await response.json();
+
+  addCatalogProduct(product, embeddingModel);
+  return product;
+}
+
+/**
+ * Add the scanned lid as another reference view of an existing product,
+ * so photos under different lighting or angles match it more reliably
+ */
+export async function enrollProductView(
+  productId: string,
+  vector: number[],
+  imageData: string
+): Promise<CatalogProduct> {
+  const referenceImage = await uploadReferenceImage(imageData);
+  const response = await withReferenceImage(referenceImage, () =>
+    apiRequest("POST", `/api/products/${encodeURIComponent(productId)}/views`, { vector, referenceImage })
+  );
+  const product: CatalogProduct = await response.json();
+
+  addCatalogProduct(product);
+  return product;
+}
+
+/**
+ * The server's explanation for a failed enrollment request, for display in a toast.
+ * apiRequest errors read "<status>: <response body>".
+ */
+export function describeEnrollmentError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}: /, "");
+  try {
+    const parsed = JSON.parse(body);
+    const [firstIssue] = parsed.errors ?? [];
+    if (firstIssue) return `${firstIssue.path ? `${firstIssue.path}: ` : ""}${firstIssue.message}`;
+    if (parsed.message) return parsed.message;
+  } catch {
+    // Not a JSON response
+  }
+  return body;
+}
@@ -0,0 +1,171 @@
+/**
+ * Fuzzy Text Matching for Product Identification
+ * Scores how well OCR text from a lid agrees with a catalog product's name,
+ * brand, flavor and strength. OCR output is noisy, so tokens are compared by
+ * edit distance rather than exact equality.
+ */
+
+// Catalog fields that can be matched against OCR text
+export type TextField = "brand" | "flavor" | "name" | "strength";
+
+export interface TextMatchableProduct {
+  name: string;
+  brand?: string;
+  flavor?: string;
+  strength?: string;
+}
+
+export interface TextMatchResult {
+  score: number; // 0-1, weighted over the fields the product has
+  fields: Partial<Record<TextField, number>>; // Per-field scores (0-1)
+  matchedTokens: string[]; // OCR tokens that matched a catalog token
+}
+
+// Brand and flavor are the most distinctive words printed on a lid
+const FIELD_WEIGHTS: Record<TextField, number> = {
+  brand: 0.4,
+  flavor: 0.3,
+  name: 0.2,
+  strength: 0.1,
+};
+
+// Token similarity below this counts as no match
+const MIN_TOKEN_SIMILARITY = 0.6;
+// Tokens shorter than this are too ambiguous to match fuzzily (e.g. "mg", "a")
+const MIN_TOKEN_LENGTH = 3;
+
+/**
+ * Split text into lowercase alphanumeric tokens
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two tokens in the range 0-1 (1 = identical)
+ */
+export function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < MIN_TOKEN_LENGTH || b.length < MIN_TOKEN_LENGTH) return 0;
+  return 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Pull nicotine strengths (in mg) out of text such as "11mg", "6 MG/g" or "4.5mg"
+ */
+export function extractStrengths(text: string): number[] {
+  const strengths: number[] = [];
+  for (const match of Array.from(text.matchAll(/(\d+(?:[.,]\d+)?)\s*mg/gi))) {
+    strengths.push(parseFloat(match[1].replace(",", ".")));
+  }
+  return strengths;
+}
+
+// Fraction of the field's tokens found (fuzzily) in the OCR tokens
+function scoreField(
+  fieldValue: string,
+  ocrTokens: string[],
+  matchedTokens: Set<string>
+): number {
+  const fieldTokens = tokenize(fieldValue);
+  if (fieldTokens.length === 0) return 0;
+
+  let total = 0;
+  for (const fieldToken of fieldTokens) {
+    let best = 0;
+    let bestToken: string | null = null;
+    for (const ocrToken of ocrTokens) {
+      const similarity = tokenSimilarity(fieldToken, ocrToken);
+      if (similarity > best) {
+        best = similarity;
+        bestToken = ocrToken;
+      }
+    }
+
+    if (best >= MIN_TOKEN_SIMILARITY && bestToken) {
+      total += best;
+      matchedTokens.add(bestToken);
+    }
+  }
+
+  return total / fieldTokens.length;
+}
+
+// Strength labels like "11mg" are compared numerically, other labels as text
+function scoreStrength(
+  strength: string,
+  ocrText: string,
+  ocrTokens: string[],
+  matchedTokens: Set<string>
+): number {
+  const productStrengths = extractStrengths(strength);
+  if (productStrengths.length === 0) {
+    return scoreField(strength, ocrTokens, matchedTokens);
+  }
+
+  const ocrStrengths = extractStrengths(ocrText);
+  const found = productStrengths.some(mg => ocrStrengths.some(value => Math.abs(value - mg) < 0.01));
+  if (found) matchedTokens.add(`${productStrengths[0]}mg`);
+  return found ? 1 : 0;
+}
+
+/**
+ * Score OCR text against a product's catalog fields.
+ * Fields the product doesn't have are left out of the weighting.
+ *
+ * @param ocrText Text extracted from the lid
+ * @param product The catalog entry to compare against
+ * @returns The overall score with its per-field breakdown
+ */
+export function scoreTextMatch(ocrText: string, product: TextMatchableProduct): TextMatchResult {
+  const ocrTokens = tokenize(ocrText);
+  const matchedTokens = new Set<string>();
+  const fields: Partial<Record<TextField, number>> = {};
+
+  if (ocrTokens.length === 0) {
+    return { score: 0, fields, matchedTokens: [] };
+  }
+
+  if (product.brand) fields.brand = scoreField(product.brand, ocrTokens, matchedTokens);
+  if (product.flavor) fields.flavor = scoreField(product.flavor, ocrTokens, matchedTokens);
+  if (product.name) fields.name = scoreField(product.name, ocrTokens, matchedTokens);
+  if (product.strength) {
+    fields.strength = scoreStrength(product.strength, ocrText, ocrTokens, matchedTokens);
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [field, value] of Object.entries(fields) as Array<[TextField, number]>) {
+    weighted += FIELD_WEIGHTS[field] * value;
+    totalWeight += FIELD_WEIGHTS[field];
+  }
+
+  return {
+    score: totalWeight > 0 ? weighted / totalWeight : 0,
+    fields,
+    matchedTokens: Array.from(matchedTokens),
+  };
+}
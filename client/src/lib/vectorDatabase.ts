@@ -1,62 +1,288 @@
 /**
  * Vector Database for Product Identification
  * This module provides functionality to find the nearest product by vector similarity.
+ * Vectors are compared in the catalog's configured vector space (metric plus
+ * load-time normalization); see similarityMetrics.ts. Catalogs can be loaded
+ * from JSON or from the compact binary format with quantized vectors.
  */
 
+import {
+  parseCatalog,
+  formatStrength,
+  CatalogIssue,
+  CatalogProduct,
+  CatalogSimilarity,
+  EmbeddingModel,
+  MatchCalibration,
+} from "@shared/catalog";
+import { findCalibration, withCalibration } from "@shared/calibration";
+import { scoreTextMatch, TextMatchResult } from "./textMatching";
+import {
+  createVectorIndex,
+  deserializeVectorIndex,
+  fingerprintEntries,
+  QuantizedIndex,
+  VectorIndex,
+  VectorIndexKind,
+} from "@shared/vectorIndex";
+import type { QuantizationOptions } from "@shared/vectorQuantization";
+import { catalogEntryId, decodeBinaryCatalog } from "@shared/binaryCatalog";
+import {
+  assertDimension,
+  createVectorSpace,
+  VectorSpace,
+} from "@shared/similarityMetrics";
+
 // Define the product vector type
 export interface ProductVector {
   id: string;
   name: string;
+  brand?: string;
+  flavor?: string;
   strength?: string;
+  threshold?: number; // Minimum match confidence for this product, overriding the global one
   vector: number[];
+  views?: number[][]; // Vectors of additional reference photos
+  details?: CatalogProduct; // Full catalog entry (format, EAN, reference images, ...)
+}
+
+export type CatalogLoadResult =
+  | { success: true; productCount: number; embeddingModel: EmbeddingModel; migratedFrom: number | null }
+  | { success: false; errors: CatalogIssue[] };
+
+// Relative influence of visual similarity and OCR text agreement on the combined score
+export interface HybridWeights {
+  visual: number;
+  text: number;
+}
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = { visual: 0.6, text: 0.4 };
+
+export interface HybridMatch {
+  product: ProductVector;
+  similarity: number; // Weighted mix of the visual and text scores
+  // The index similarity floored at 0: cosine similarity (0-1) for cosine, the dot product for
+  // dot (above 1 only for vectors longer than unit length), exp(-d²/2) (0-1) for L2 and Mahalanobis
+  visualScore: number;
+  textScore: number | null; // Null when there was no OCR text to compare
+  textMatch: TextMatchResult | null;
 }
 
 // Initial empty array that will be populated from JSON
 export const productVectors: ProductVector[] = [];
 
+// Nearest-neighbor index over productVectors, kept in sync by the load/add/remove functions
+let vectorIndex: VectorIndex = createVectorIndex("brute-force");
+const productsById = new Map<string, ProductVector>();
+let embeddingModel: EmbeddingModel | null = null;
+let maxViewsPerProduct = 1;
+
+export const DEFAULT_SIMILARITY: CatalogSimilarity = { metric: "cosine", normalization: "none" };
+
+// Metric and normalization in use; the vector space is refitted whenever the catalog is re-indexed
+let similarity: CatalogSimilarity = DEFAULT_SIMILARITY;
+let vectorSpace: VectorSpace | null = null;
+
+// The hybrid ranker re-scores this many visual candidates with OCR text
+const HYBRID_CANDIDATE_POOL = 50;
+
+// Index entries are "<product id>" for the main vector and "<product id>#<n>" for extra views
+const productIdOfEntry = (entryId: string) => entryId.split('#')[0];
+
+function productEntries(product: ProductVector): Array<[string, number[]]> {
+  return [product.vector, ...(product.views ?? [])].map((vector, view) => [catalogEntryId(product.id, view), vector]);
+}
+
+// Vectors as the index sees them
+function toIndexSpace(vector: number[]): number[] {
+  return vectorSpace ? vectorSpace.transform(vector) : vector;
+}
+
+function createSpace(config: CatalogSimilarity): VectorSpace | null {
+  const dimension = embeddingModel?.dimension ?? productVectors[0]?.vector.length;
+  if (dimension === undefined) return null;
+  const vectors = productVectors.flatMap(product => productEntries(product).map(([, vector]) => vector));
+  return createVectorSpace(vectors, config, dimension);
+}
+
+function rebuildIndex(
+  kind: VectorIndexKind = vectorIndex.kind,
+  quantization: Partial<QuantizationOptions> = vectorIndex instanceof QuantizedIndex ? vectorIndex.options : {}
+): void {
+  vectorSpace = createSpace(similarity);
+  const entries = productVectors.flatMap(product =>
+    productEntries(product).map(([entryId, vector]) => [entryId, toIndexSpace(vector)] as const)
+  );
+
+  vectorIndex = createVectorIndex(kind, quantization, vectorSpace?.indexMetric);
+  // Quantizers are fitted to the whole catalog before anything is encoded
+  if (vectorIndex instanceof QuantizedIndex) vectorIndex.train(entries.map(([, vector]) => vector));
+  entries.forEach(([entryId, vector]) => vectorIndex.add(entryId, vector));
+  indexProducts();
+}
+
+function indexProducts(): void {
+  productsById.clear();
+  maxViewsPerProduct = 1;
+  productVectors.forEach(product => {
+    productsById.set(product.id, product);
+    maxViewsPerProduct = Math.max(maxViewsPerProduct, 1 + (product.views?.length ?? 0));
+  });
+}
+
+// Search the index and keep each product's best-scoring view
+function searchProducts(queryVector: number[], topK: number): Array<{ product: ProductVector, similarity: number }> {
+  // A query from a different extractor must never be compared on a subset of dimensions
+  assertDimension(embeddingModel?.dimension ?? vectorSpace?.dimension ?? null, queryVector, "Query vector");
+  const entries = vectorIndex.search(toIndexSpace(queryVector), topK * maxViewsPerProduct);
+  const results: Array<{ product: ProductVector, similarity: number }> = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const productId = productIdOfEntry(entry.id);
+    if (seen.has(productId)) continue;
+    seen.add(productId);
+    results.push({ product: productsById.get(productId)!, similarity: entry.similarity });
+    if (results.length === topK) break;
+  }
+
+  return results;
+}
+
 /**
- * Calculate Euclidean distance between two vectors
+ * The embedding model the loaded catalog was built with, or null before a catalog is loaded
  */
-function euclideanDistance(a: number[], b: number[]): number {
-  // Use the shorter vector length to avoid index errors
-  const length = Math.min(a.length, b.length);
-  let sum = 0;
-  
-  for (let i = 0; i < length; i++) {
-    const diff = (a[i] || 0) - (b[i] || 0);
-    sum += diff * diff;
+export function getEmbeddingModel(): EmbeddingModel | null {
+  return embeddingModel;
+}
+
+/**
+ * The metric and normalization vectors are currently compared with
+ */
+export function getSimilarity(): CatalogSimilarity {
+  return similarity;
+}
+
+/**
+ * The catalog's match calibration for the metric and normalization in use, or null if
+ * it has none, in which case its scores can't be turned into a confidence
+ */
+export function getMatchCalibration(): MatchCalibration | null {
+  return findCalibration(similarity);
+}
+
+/**
+ * Store a calibration refitted elsewhere (e.g. by the server from feedback); the index is unaffected
+ */
+export function setMatchCalibration(calibration: MatchCalibration): void {
+  similarity = withCalibration(similarity, calibration);
+}
+
+/**
+ * Compare vectors with a different metric or normalization; the current catalog is re-indexed.
+ * Unspecified settings (including a stored covariance) are kept.
+ *
+ * @throws Error if the configuration can't be used, e.g. Mahalanobis without a covariance;
+ *   the previous configuration stays in effect
+ */
+export function setSimilarity(config: Partial<CatalogSimilarity>): void {
+  const next = { ...similarity, ...config };
+  createSpace(next);
+  similarity = next;
+  rebuildIndex();
+}
+
+/**
+ * Switch the nearest-neighbor index implementation; the current catalog is re-indexed
+ * @param kind "brute-force" for exact results, "hnsw" for large catalogs or "quantized"
+ *   for less memory
+ * @param quantization Encoding of a quantized index; defaults to int8
+ */
+export function setVectorIndexKind(kind: VectorIndexKind, quantization?: Partial<QuantizationOptions>): void {
+  if (kind !== vectorIndex.kind || quantization) rebuildIndex(kind, quantization);
+}
+
+export function getVectorIndex(): VectorIndex {
+  return vectorIndex;
+}
+
+/**
+ * Use a prebuilt binary index instead of indexing the catalog on load.
+ * The index is only accepted when it was built from exactly the loaded products,
+ * vectors and vector space: its catalog fingerprint must match.
+ *
+ * @param buffer Contents of a file written by VectorIndex.serialize()
+ * @returns Whether the index was accepted
+ */
+export function loadVectorIndexFromBinary(buffer: ArrayBuffer): boolean {
+  try {
+    const index = deserializeVectorIndex(buffer);
+    // The index stores transformed vectors, so it must have been built for the same vector space
+    const matchesSpace = index.metric === (vectorSpace?.indexMetric ?? "cosine") &&
+      index.dimension === (vectorSpace?.dimension ?? index.dimension);
+
+    if (!matchesSpace) {
+      console.warn(`Prebuilt vector index uses the ${index.metric} kernel, not the catalog's; ignoring it`);
+      return false;
+    }
+
+    // Entry ids alone don't show edited vectors or a differently fitted normalization
+    const entries = productVectors.flatMap(product =>
+      productEntries(product).map(([entryId, vector]) => [entryId, toIndexSpace(vector)] as const)
+    );
+    if (index.catalogFingerprint === null || index.catalogFingerprint !== fingerprintEntries(entries)) {
+      console.warn('Prebuilt vector index does not match the loaded catalog; ignoring it');
+      return false;
+    }
+
+    vectorIndex = index;
+    console.log(`Loaded prebuilt ${index.kind} index with ${index.size} vectors`);
+    return true;
+  } catch (error) {
+    console.error('Failed to load vector index:', error);
+    return false;
   }
-  
-  return Math.sqrt(sum);
 }
 
 /**
- * Calculate cosine similarity between two vectors
+ * Add a product to the catalog, or replace the one with the same id, without re-indexing
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  // Use the shorter vector length to avoid index errors
-  const length = Math.min(a.length, b.length);
-  let dotProduct = 0;
-  let aMagnitude = 0;
-  let bMagnitude = 0;
-  
-  for (let i = 0; i < length; i++) {
-    const aVal = a[i] || 0;
-    const bVal = b[i] || 0;
-    
-    dotProduct += aVal * bVal;
-    aMagnitude += aVal * aVal;
-    bMagnitude += bVal * bVal;
+export function addProductVector(product: ProductVector): void {
+  const dimension = embeddingModel?.dimension ?? vectorSpace?.dimension ?? null;
+  [product.vector, ...(product.views ?? [])].forEach(vector =>
+    assertDimension(dimension, vector, `Vector of product ${product.id}`)
+  );
+
+  const existing = productVectors.findIndex(p => p.id === product.id);
+  if (existing >= 0) {
+    productEntries(productVectors[existing]).forEach(([entryId]) => vectorIndex.remove(entryId));
   }
-  
-  aMagnitude = Math.sqrt(aMagnitude);
-  bMagnitude = Math.sqrt(bMagnitude);
-  
-  if (aMagnitude === 0 || bMagnitude === 0) {
-    return 0;
+  // The first product of an empty catalog defines the vector space
+  if (!vectorSpace) {
+    vectorSpace = createVectorSpace([], similarity, product.vector.length);
+    vectorIndex = createVectorIndex(vectorIndex.kind, {}, vectorSpace.indexMetric);
   }
-  
-  return dotProduct / (aMagnitude * bMagnitude);
+  productEntries(product).forEach(([entryId, vector]) => vectorIndex.add(entryId, toIndexSpace(vector)));
+
+  if (existing >= 0) productVectors[existing] = product;
+  else productVectors.push(product);
+  productsById.set(product.id, product);
+  maxViewsPerProduct = Math.max(maxViewsPerProduct, 1 + (product.views?.length ?? 0));
+}
+
+/**
+ * Remove a product from the catalog and the index
+ * @returns Whether the product existed
+ */
+export function removeProductVector(id: string): boolean {
+  const existing = productVectors.findIndex(p => p.id === id);
+  if (existing < 0) return false;
+
+  productEntries(productVectors[existing]).forEach(([entryId]) => vectorIndex.remove(entryId));
+  productVectors.splice(existing, 1);
+  // Recount so searches stop over-fetching for a view set that is gone
+  indexProducts();
+  return true;
 }
 
 /**
@@ -64,22 +290,57 @@ function cosineSimilarity(a: number[], b: number[]): number {
  * @param queryVector The vector to search for
  * @param topK Number of results to return
  * @returns Array of nearest products with similarity scores
+ * @throws DimensionMismatchError if the query doesn't have the catalog's dimension
  */
 export function findNearestProducts(
   queryVector: number[], 
   topK: number = 3
 ): Array<{ product: ProductVector, similarity: number }> {
-  // Calculate similarity for each product
-  const similarities = productVectors.map(product => ({
-    product,
-    similarity: cosineSimilarity(queryVector, product.vector)
-  }));
-  
-  // Sort by similarity (highest first)
-  similarities.sort((a, b) => b.similarity - a.similarity);
-  
-  // Return top K results
-  return similarities.slice(0, topK);
+  return searchProducts(queryVector, topK);
+}
+
+/**
+ * Rank products by visual similarity combined with fuzzy OCR text agreement.
+ * Without usable OCR text the ranking falls back to visual similarity alone.
+ *
+ * @param queryVector The feature vector of the photographed lid
+ * @param ocrText Text extracted from the lid (may be empty)
+ * @param weights Relative weights of the visual and text scores
+ * @param topK Number of results to return
+ * @returns Array of best matches with their score breakdown
+ * @throws DimensionMismatchError if the query doesn't have the catalog's dimension
+ */
+export function findNearestProductsHybrid(
+  queryVector: number[],
+  ocrText: string,
+  weights: HybridWeights = DEFAULT_HYBRID_WEIGHTS,
+  topK: number = 3
+): HybridMatch[] {
+  // Only the visually closest products are considered, so large catalogs stay fast
+  const candidates = searchProducts(queryVector, Math.max(topK, HYBRID_CANDIDATE_POOL));
+  const textMatches = ocrText.trim().length > 0 && weights.text > 0
+    ? candidates.map(candidate => scoreTextMatch(ocrText, candidate.product))
+    : null;
+  // OCR output that matches no product at all is noise; don't let it drag every score down
+  const hasText = textMatches !== null && textMatches.some(match => match.score > 0);
+  const totalWeight = hasText ? weights.visual + weights.text : weights.visual;
+
+  const matches = candidates.map((candidate, index) => {
+    const product = candidate.product;
+    const visualScore = Math.max(0, candidate.similarity);
+    const textMatch = hasText && textMatches ? textMatches[index] : null;
+    const textScore = textMatch ? textMatch.score : null;
+
+    const similarity = totalWeight > 0
+      ? (weights.visual * visualScore + (hasText ? weights.text * (textScore ?? 0) : 0)) / totalWeight
+      : 0;
+
+    return { product, similarity, visualScore, textScore, textMatch };
+  });
+
+  matches.sort((a, b) => b.similarity - a.similarity);
+
+  return matches.slice(0, topK);
 }
 
 /**
@@ -98,45 +359,127 @@ export function loadProductVectors(vectors: any[]): void {
       vector: vector
     });
   });
+
+  embeddingModel = null;
+  // Raw vector lists carry no similarity settings
+  similarity = DEFAULT_SIMILARITY;
+  rebuildIndex();
+}
+
+// Flatten a validated catalog entry into the in-memory product representation
+function toProductVector(product: CatalogProduct): ProductVector {
+  const [vector, ...views] = product.vectors;
+  return {
+    id: product.id,
+    name: product.name,
+    brand: product.brand,
+    flavor: product.flavor,
+    strength: formatStrength(product.strength),
+    threshold: product.threshold,
+    vector,
+    views: views.length > 0 ? views : undefined,
+    details: product,
+  };
 }
 
 /**
- * Load product vectors from JSON string
- * @param jsonData JSON string containing vectors and product metadata
+ * Add or replace a product from its catalog entry, e.g. one just enrolled on the server
+ * @param model The embedding model the product was saved with; adopted when no catalog is loaded yet
  */
-export function loadProductVectorsFromJSON(jsonData: string): void {
+export function addCatalogProduct(product: CatalogProduct, model?: EmbeddingModel): void {
+  if (!embeddingModel && model) embeddingModel = model;
+  addProductVector(toProductVector(product));
+}
+
+// Replace the loaded catalog with a parsed one. The quantized index of a binary catalog
+// is searched as shipped when it was built for the catalog's vector space.
+function loadCatalog(raw: unknown, index?: QuantizedIndex): CatalogLoadResult {
+  const result = parseCatalog(raw);
+  if (!result.success) return result;
+
+  const { catalog, migratedFrom } = result;
+  const previous = { products: [...productVectors], embeddingModel, similarity, vectorIndex };
+  productVectors.length = 0;
+  productVectors.push(...catalog.products.map(toProductVector));
+  embeddingModel = catalog.embeddingModel;
+  similarity = catalog.similarity ?? DEFAULT_SIMILARITY;
+
   try {
-    const data = JSON.parse(jsonData);
-    
-    if (data && data.vectors && Array.isArray(data.vectors)) {
-      // Clear existing vectors
-      productVectors.length = 0;
-      
-      // Add vectors with product information if available
-      data.vectors.forEach((vector: number[], index: number) => {
-        let productInfo = {
-          id: `P${String(index + 1).padStart(3, '0')}`,
-          name: `Product ${index + 1}`,
-          vector: vector
-        };
-        
-        // Use product metadata if available
-        if (data.products && Array.isArray(data.products) && data.products[index]) {
-          const productData = data.products[index];
-          productInfo = {
-            ...productInfo,
-            id: productData.id || productInfo.id,
-            name: productData.name || productInfo.name,
-            strength: productData.strength
-          };
-        }
-        
-        productVectors.push(productInfo);
-      });
-      
-      console.log(`Loaded ${productVectors.length} product vectors`);
+    vectorSpace = createSpace(similarity);
+    // Normalized or whitened spaces change the vectors, so the codes would no longer match
+    const usable = index && vectorSpace?.normalization === "none" && vectorSpace.metric !== "mahalanobis" &&
+      index.metric === vectorSpace.indexMetric;
+    if (usable) {
+      vectorIndex = index;
+      indexProducts();
+    } else {
+      rebuildIndex(index ? "quantized" : vectorIndex.kind, index?.options);
     }
   } catch (error) {
-    console.error('Failed to parse vector JSON:', error);
+    // Keep the previous catalog usable
+    productVectors.length = 0;
+    productVectors.push(...previous.products);
+    embeddingModel = previous.embeddingModel;
+    similarity = previous.similarity;
+    vectorIndex = previous.vectorIndex;
+    rebuildIndex();
+    return {
+      success: false,
+      errors: [{ path: 'similarity', message: error instanceof Error ? error.message : String(error) }]
+    };
+  }
+
+  if (migratedFrom !== null) {
+    console.log(`Migrated product catalog from version ${migratedFrom}`);
   }
-}
\ No newline at end of file
+  console.log(`Loaded ${productVectors.length} product vectors`);
+
+  return {
+    success: true,
+    productCount: productVectors.length,
+    embeddingModel: catalog.embeddingModel,
+    migratedFrom
+  };
+}
+
+/**
+ * Load product vectors from a catalog JSON string.
+ * Older catalog versions are migrated; invalid catalogs leave the loaded products untouched.
+ *
+ * @param jsonData JSON string containing a product catalog
+ * @returns The number of products loaded, or the problems that prevented loading
+ */
+export function loadProductVectorsFromJSON(jsonData: string): CatalogLoadResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonData);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [{ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }]
+    };
+  }
+
+  return loadCatalog(raw);
+}
+
+/**
+ * Load product vectors from a binary catalog (see binaryCatalog.ts). Products keep the
+ * vectors reconstructed from the codes, and the quantized vectors become the index.
+ *
+ * @param buffer Contents of a binary catalog file
+ * @returns The number of products loaded, or the problems that prevented loading
+ */
+export function loadProductVectorsFromBinary(buffer: ArrayBuffer): CatalogLoadResult {
+  let decoded: ReturnType<typeof decodeBinaryCatalog>;
+  try {
+    decoded = decodeBinaryCatalog(buffer);
+  } catch (error) {
+    return {
+      success: false,
+      errors: [{ path: '', message: error instanceof Error ? error.message : String(error) }]
+    };
+  }
+
+  return loadCatalog(decoded.catalog, decoded.index);
+}
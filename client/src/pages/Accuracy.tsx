@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { FeedbackReport, ReportBucket } from "@shared/feedback";
+import { productVectors } from "@/lib/vectorDatabase";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, Loader } from "lucide-react";
+
+const chartConfig = {
+  accuracy: { label: "Accuracy", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+export default function Accuracy() {
+  const [, setLocation] = useLocation();
+  const [bucket, setBucket] = useState<ReportBucket>("day");
+  const { data: report, isLoading, error } = useQuery<FeedbackReport>({
+    queryKey: [`/api/feedback/report?bucket=${bucket}`],
+    staleTime: 0,
+  });
+
+  // Product names are only known once a catalog has been loaded on the Result page
+  const productName = (id: string) => productVectors.find(product => product.id === id)?.name ?? id;
+
+  return (
+    <div className="flex-1 flex flex-col p-4 gap-4">
+      <div className="text-center">
+        <h2 className="text-xl font-semibold text-gray-800">Identification Accuracy</h2>
+        <p className="text-gray-600 text-sm">Based on confirmations and corrections of matches</p>
+      </div>
+
+      <Tabs value={bucket} onValueChange={value => setBucket(value as ReportBucket)}>
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="day">Daily</TabsTrigger>
+          <TabsTrigger value="week">Weekly</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading && (
+        <div className="flex justify-center text-gray-500">
+          <Loader className="h-5 w-5 animate-spin" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 text-center">Failed to load the accuracy report</p>}
+
+      {report && report.total === 0 && (
+        <p className="text-sm text-gray-500 text-center">
+          No feedback yet. Confirm or correct identifications on the result page to track accuracy.
+        </p>
+      )}
+
+      {report && report.total > 0 && (
+        <>
+          <div className="bg-white rounded-lg shadow-sm p-4 text-center">
+            <div className="text-3xl font-semibold text-gray-800">{percent(report.accuracy)}</div>
+            <div className="text-xs text-gray-500">
+              {report.correct} of {report.total} identifications decided correctly
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm p-4">
+            <ChartContainer config={chartConfig} className="h-48 w-full">
+              <LineChart data={report.buckets} margin={{ left: -20, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="start" tickLine={false} axisLine={false} tickFormatter={start => start.slice(5)} />
+                <YAxis domain={[0, 1]} tickFormatter={percent} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="accuracy" type="monotone" stroke="var(--color-accuracy)" strokeWidth={2} dot />
+              </LineChart>
+            </ChartContainer>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm p-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">By predicted product</h3>
+            <div className="space-y-1">
+              {report.products.map(product => (
+                <div key={product.productId} className="flex justify-between text-xs text-gray-600">
+                  <span>{productName(product.productId)}</span>
+                  <span>
+                    {percent(product.accuracy)} of {product.predicted}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      <Button
+        variant="outline"
+        onClick={() => setLocation("/")}
+        className="border border-gray-300 text-gray-700 py-3 flex items-center justify-center"
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Camera
+      </Button>
+    </div>
+  );
+}
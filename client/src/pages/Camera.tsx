@@ -1,10 +1,13 @@
 import { useEffect } from "react";
 import { useLocation } from "wouter";
 import CameraView from "@/components/CameraView";
+import PhotoUpload from "@/components/PhotoUpload";
 import StepIndicator from "@/components/StepIndicator";
 import { useAppContext } from "@/context/AppContext";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { LoadedImage } from "@/lib/imageUtils";
+import { CaptureQuality, CapturedFrame } from "@/lib/frameAnalysis";
 
 export default function Camera() {
   const [, setLocation] = useLocation();
@@ -15,7 +18,11 @@ export default function Camera() {
     setStep(1);
   }, [setStep]);
 
-  const handleCapture = (imageData: string) => {
+  const handleCapture = (
+    imageData: string,
+    quality?: CaptureQuality,
+    burstFrames?: CapturedFrame[]
+  ) => {
     if (!imageData) {
       toast({
         variant: "destructive",
@@ -32,6 +39,9 @@ export default function Camera() {
         imageData,
         width: img.width,
         height: img.height,
+        source: "camera",
+        quality,
+        burstFrames,
       });
       setLocation("/crop");
     };
@@ -45,6 +55,11 @@ export default function Camera() {
     img.src = imageData;
   };
 
+  const handleUpload = (image: LoadedImage) => {
+    setPhotoData({ ...image, source: "upload" });
+    setLocation("/crop");
+  };
+
   return (
     <div className="flex-1 flex flex-col">
       <StepIndicator currentStep={1} totalSteps={3} />
@@ -55,6 +70,7 @@ export default function Camera() {
       
       <div className="flex-1 flex flex-col p-4">
         <CameraView onCapture={handleCapture} />
+        <PhotoUpload onUpload={handleUpload} />
       </div>
     </div>
   );
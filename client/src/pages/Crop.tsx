@@ -1,15 +1,17 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import StepIndicator from "@/components/StepIndicator";
 import { useAppContext } from "@/context/AppContext";
 import { Button } from "@/components/ui/button";
 import ImageCropper from "@/components/ImageCropper";
+import PerspectiveEditor from "@/components/PerspectiveEditor";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, ArrowRight } from "lucide-react";
+import { ArrowLeft, ArrowRight, Scan } from "lucide-react";
 
 export default function Crop() {
   const [, setLocation] = useLocation();
-  const { step, setStep, photoData, croppedAreaPixels, setCroppedAreaPixels } = useAppContext();
+  const { step, setStep, photoData, setPhotoData, croppedAreaPixels, setCroppedAreaPixels } = useAppContext();
+  const [isCorrectingPerspective, setIsCorrectingPerspective] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -42,6 +44,19 @@ export default function Crop() {
     setLocation("/result");
   };
 
+  const handlePerspectiveApply = (rectifiedImage: string) => {
+    if (!photoData) return;
+    
+    // Keep the original so the correction can be redone from scratch
+    setPhotoData({
+      ...photoData,
+      imageData: rectifiedImage,
+      originalImageData: photoData.originalImageData ?? photoData.imageData,
+    });
+    setCroppedAreaPixels(null);
+    setIsCorrectingPerspective(false);
+  };
+
   if (!photoData) {
     return null; // Will redirect via useEffect
   }
@@ -56,12 +71,37 @@ export default function Crop() {
       
       <div className="flex-1 flex flex-col p-4">
         <div className="crop-container flex-1 bg-black rounded-lg overflow-hidden flex items-center justify-center relative">
-          <ImageCropper 
-            imageSrc={photoData.imageData} 
-            onCropComplete={(_, croppedAreaPixelsValue) => setCroppedAreaPixels(croppedAreaPixelsValue)}
-          />
+          {isCorrectingPerspective ? (
+            <PerspectiveEditor
+              imageSrc={photoData.originalImageData ?? photoData.imageData}
+              imageWidth={photoData.width}
+              imageHeight={photoData.height}
+              onApply={handlePerspectiveApply}
+              onCancel={() => setIsCorrectingPerspective(false)}
+            />
+          ) : (
+            <ImageCropper 
+              imageSrc={photoData.imageData} 
+              imageWidth={photoData.width}
+              imageHeight={photoData.height}
+              onCropComplete={(_, croppedAreaPixelsValue) => setCroppedAreaPixels(croppedAreaPixelsValue)}
+            />
+          )}
         </div>
         
+        {!isCorrectingPerspective && (
+          <div className="mt-4 flex justify-center">
+            <Button 
+              variant="ghost" 
+              onClick={() => setIsCorrectingPerspective(true)}
+              className="flex items-center justify-center py-2 px-4 text-gray-600"
+            >
+              <Scan className="mr-2 h-4 w-4" />
+              Correct Tilted Lid
+            </Button>
+          </div>
+        )}
+        
         <div className="mt-6 flex justify-between">
           <Button 
             variant="outline" 
@@ -75,6 +115,7 @@ export default function Crop() {
           <Button 
             onClick={handleConfirm}
             className="flex items-center"
+            disabled={isCorrectingPerspective}
           >
             Confirm
             <ArrowRight className="ml-2 h-4 w-4" />
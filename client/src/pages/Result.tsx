@@ -9,7 +9,8 @@ import { Download, Eye, EyeOff, Zap } from "lucide-react";
 import TextExtractionPanel from "@/components/TextExtractionPanel";
 import TensorflowTextExtractionPanel from "@/components/TensorflowTextExtractionPanel";
 import ProductIdentifier from "@/components/ProductIdentifier";
-import { loadFeatureVectorFromJSON } from "@/lib/vectorUtils";
+import ProductEnrollmentDialog, { EnrollmentMode } from "@/components/ProductEnrollmentDialog";
+import { extractFeatureVectorFromImage } from "@/lib/featureExtractor";
 
 export default function Result() {
   const [, setLocation] = useLocation();
@@ -21,44 +22,39 @@ export default function Result() {
     setIsTextExtractionEnabled, 
     isFrontCamera,
     featureVector,
-    setFeatureVector
+    setFeatureVector,
+    extractedText
   } = useAppContext();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [croppedImageData, setCroppedImageData] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<{ mode: EnrollmentMode; productId?: string } | null>(null);
   const { toast } = useToast();
 
-  // Generate the cropped image when the component mounts
-  // Load feature vector from the sample data file
+  // Describe the cropped lid with the same extractor the product catalog was built with
   useEffect(() => {
-    const loadFeatureVector = async () => {
-      try {
-        // Fetch the vectors.json file from public directory
-        const response = await fetch('/data/vectors.json');
-        if (!response.ok) {
-          throw new Error('Failed to load feature vector');
-        }
-        
-        const data = await response.json();
-        // Use the first vector from the vectors array
-        if (data && data.vectors && data.vectors.length > 0) {
-          setFeatureVector(data.vectors[0]);
-          console.log('Feature vector loaded successfully');
-        } else {
-          throw new Error('No vectors found in data');
-        }
-      } catch (error) {
-        console.error('Error loading feature vector:', error);
+    if (!croppedImageData) return;
+    let cancelled = false;
+    setFeatureVector(null);
+
+    extractFeatureVectorFromImage(croppedImageData)
+      .then((vector) => {
+        if (!cancelled) setFeatureVector(vector);
+      })
+      .catch((error) => {
+        console.error('Error extracting feature vector:', error);
         toast({
           variant: "destructive",
           title: "Error",
-          description: "Failed to load product identification data",
+          description: "Failed to analyze the image for product identification",
         });
-      }
+      });
+
+    return () => {
+      cancelled = true;
     };
-    
-    loadFeatureVector();
-  }, [setFeatureVector, toast]);
+  }, [croppedImageData, setFeatureVector, toast]);
 
+  // Generate the cropped image when the component mounts
   useEffect(() => {
     setStep(3);
     
@@ -82,7 +78,8 @@ export default function Result() {
           photoData.imageData,
           croppedAreaPixels,
           canvas,
-          isFrontCamera // Pass the front camera flag to know when to flip the image
+          // Pass the front camera flag to know when to flip the image; uploads are never mirrored
+          isFrontCamera && photoData.source === "camera"
         );
         
         // Save cropped image data URL for text extraction
@@ -205,8 +202,26 @@ export default function Result() {
             <h3 className="text-sm font-medium text-center text-gray-700 my-2">
               Product Identification
             </h3>
-            <ProductIdentifier featureVector={featureVector || undefined} />
+            <ProductIdentifier
+              featureVector={featureVector || undefined}
+              ocrText={extractedText}
+              imageData={croppedImageData || undefined}
+              onAddProduct={() => setEnrollment({ mode: "product" })}
+              onAddView={(productId) => setEnrollment({ mode: "view", productId })}
+            />
           </div>
+
+          {croppedImageData && (
+            <ProductEnrollmentDialog
+              open={enrollment !== null}
+              onOpenChange={(open) => !open && setEnrollment(null)}
+              imageData={croppedImageData}
+              featureVector={featureVector || undefined}
+              ocrText={extractedText}
+              initialMode={enrollment?.mode}
+              initialProductId={enrollment?.productId}
+            />
+          )}
           
           <Button 
             variant="outline"
@@ -0,0 +1,293 @@
+/**
+ * Catalog Builder
+ * Regenerates public/data/vectors.json from the reference photos listed in
+ * scripts/catalog-references.json, using the same feature extractor as the app
+ * so that catalog and query vectors always share a dimension. A prebuilt HNSW
+ * index is written next to it so the app doesn't have to index on page load,
+ * and each reference crop is saved to public/data/references for display.
+ * --metric and --normalization record how the app should compare vectors; for
+ * Mahalanobis the covariance of the catalog vectors is stored with them. Match
+ * calibrations are fitted for every metric and normalization by scoring slightly
+ * shifted and resized crops of each reference photo against the catalog.
+ * --quantization also writes the catalog in the binary format with int8 or PQ vectors.
+ *
+ * Usage: npm run catalog:build [-- --preview <dir>] [--metric mahalanobis] [--normalization zscore]
+ *   [--quantization int8|pq]
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import jpeg from "jpeg-js";
+import { z } from "zod";
+import {
+  extractFeatureVector,
+  FEATURE_DIMENSION,
+  FEATURE_EXTRACTOR_ID,
+  PixelData,
+} from "../client/src/lib/featureExtractor";
+import { BruteForceIndex, fingerprintEntries, HnswIndex, measureRecall } from "../shared/vectorIndex";
+import { catalogEntryId, encodeBinaryCatalog } from "../shared/binaryCatalog";
+import { computeCovariance, createVectorSpace, fitNormalization } from "../shared/similarityMetrics";
+import { CalibrationSample, fitMatchCalibration } from "../shared/calibration";
+import {
+  CATALOG_VERSION,
+  CatalogProduct,
+  CatalogSimilarity,
+  catalogSimilaritySchema,
+  MatchCalibration,
+  parseCatalog,
+  vectorNormalizations,
+  vectorQuantizations,
+} from "../shared/catalog";
+
+// Catalog metadata plus where the lid is in the reference photo
+type ReferenceProduct = Omit<CatalogProduct, "vectors" | "referenceImages"> & {
+  image: string;
+  circle: { x: number; y: number; radius: number };
+};
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const manifestPath = path.join(rootDir, "scripts", "catalog-references.json");
+const outputPath = path.join(rootDir, "public", "data", "vectors.json");
+const indexPath = path.join(rootDir, "public", "data", "vectors.index");
+const binaryPath = path.join(rootDir, "public", "data", "vectors.bin");
+const referencesDir = path.join(rootDir, "public", "data", "references");
+
+// Side of the saved reference crops
+const REFERENCE_IMAGE_SIZE = 256;
+
+// Crops a user might make of a reference photo: the circle shifted and resized by a few
+// percent of its radius. Their scores against the catalog are what calibrations are fitted to.
+const CALIBRATION_CROPS = [
+  { dx: 0.04, dy: 0, scale: 1 },
+  { dx: -0.04, dy: 0, scale: 1 },
+  { dx: 0, dy: 0.04, scale: 1 },
+  { dx: 0, dy: -0.04, scale: 1 },
+  { dx: 0, dy: 0, scale: 0.94 },
+  { dx: 0, dy: 0, scale: 1.06 },
+  { dx: 0.03, dy: -0.03, scale: 0.97 },
+  { dx: -0.03, dy: 0.03, scale: 1.03 },
+];
+
+/**
+ * Cut the square around the lid out of a decoded photo.
+ * Pixels that fall outside the photo stay transparent and are ignored by the extractor.
+ */
+function cropCircle(image: PixelData, circle: ReferenceProduct["circle"]): PixelData {
+  const size = Math.round(circle.radius * 2);
+  const left = Math.round(circle.x - circle.radius);
+  const top = Math.round(circle.y - circle.radius);
+  const data = new Uint8Array(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    const sy = top + y;
+    if (sy < 0 || sy >= image.height) continue;
+    for (let x = 0; x < size; x++) {
+      const sx = left + x;
+      if (sx < 0 || sx >= image.width) continue;
+      const i = (sy * image.width + sx) * 4;
+      const o = (y * size + x) * 4;
+      data[o] = image.data[i];
+      data[o + 1] = image.data[i + 1];
+      data[o + 2] = image.data[i + 2];
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, data };
+}
+
+/**
+ * Area-average a square crop down to size x size, filling transparent pixels with white
+ */
+function resizeCrop(crop: PixelData, size: number): PixelData {
+  const data = new Uint8Array(size * size * 4);
+  const scale = crop.width / size;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const sum = [0, 0, 0];
+      let count = 0;
+      for (let sy = Math.floor(y * scale); sy < Math.floor((y + 1) * scale); sy++) {
+        for (let sx = Math.floor(x * scale); sx < Math.floor((x + 1) * scale); sx++) {
+          const i = (sy * crop.width + sx) * 4;
+          const opaque = crop.data[i + 3] >= 128;
+          for (let c = 0; c < 3; c++) sum[c] += opaque ? crop.data[i + c] : 255;
+          count++;
+        }
+      }
+      const o = (y * size + x) * 4;
+      for (let c = 0; c < 3; c++) data[o + c] = count ? sum[c] / count : 255;
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, data };
+}
+
+/**
+ * Fit a match calibration for each metric and normalization the app can switch to.
+ * Mahalanobis is only fitted for the configured normalization, the one its covariance is of.
+ */
+function fitCalibrations(
+  products: CatalogProduct[],
+  queries: Array<{ productId: string; vector: number[] }>,
+  similarity: CatalogSimilarity
+): MatchCalibration[] {
+  const allVectors = products.flatMap(product => product.vectors);
+  const configurations: CatalogSimilarity[] = vectorNormalizations.flatMap(normalization =>
+    (["cosine", "l2", "dot"] as const).map(metric => ({ metric, normalization }))
+  );
+  if (similarity.metric === "mahalanobis") configurations.push(similarity);
+
+  return configurations.flatMap(configuration => {
+    const space = createVectorSpace(allVectors, configuration, FEATURE_DIMENSION);
+    const index = new BruteForceIndex(space.indexMetric);
+    products.forEach(product =>
+      product.vectors.forEach((vector, view) => index.add(catalogEntryId(product.id, view), space.transform(vector)))
+    );
+
+    // Every product's best view scores as it would in the app, negative similarities floored at 0
+    const samples = queries.flatMap(({ productId, vector }): CalibrationSample[] => {
+      const scores = new Map<string, number>();
+      index.search(space.transform(vector), index.size).forEach(match => {
+        const id = match.id.split("#")[0];
+        if (!scores.has(id)) scores.set(id, Math.max(0, match.similarity));
+      });
+      return Array.from(scores, ([id, score]) => ({ score, positive: id === productId }));
+    });
+
+    const { metric, normalization } = configuration;
+    const calibration = fitMatchCalibration(samples, { metric, normalization, source: "references" });
+    if (!calibration) {
+      console.warn(`Could not fit a match calibration for ${metric}/${normalization} from ${samples.length} scores`);
+      return [];
+    }
+    return [calibration];
+  });
+}
+
+function option(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function main() {
+  const previewDir = option("preview") ?? null;
+  const similarityOptions = catalogSimilaritySchema.parse({
+    metric: option("metric"),
+    normalization: option("normalization"),
+  });
+  const quantization = z.enum(vectorQuantizations).optional().parse(option("quantization"));
+  if (previewDir) fs.mkdirSync(previewDir, { recursive: true });
+  fs.mkdirSync(referencesDir, { recursive: true });
+
+  const manifest: { products: ReferenceProduct[] } = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+  const products: CatalogProduct[] = [];
+  const calibrationQueries: Array<{ productId: string; vector: number[] }> = [];
+
+  for (const reference of manifest.products) {
+    const image = jpeg.decode(fs.readFileSync(path.join(rootDir, reference.image)), {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxMemoryUsageInMB: 1024,
+    });
+    const crop = cropCircle(image, reference.circle);
+    const vector = extractFeatureVector(crop);
+    const { x, y, radius } = reference.circle;
+    CALIBRATION_CROPS.forEach(({ dx, dy, scale }) => {
+      const circle = { x: x + dx * radius, y: y + dy * radius, radius: radius * scale };
+      calibrationQueries.push({ productId: reference.id, vector: extractFeatureVector(cropCircle(image, circle)) });
+    });
+
+    if (vector.length !== FEATURE_DIMENSION) {
+      throw new Error(`${reference.id}: expected ${FEATURE_DIMENSION} dimensions, got ${vector.length}`);
+    }
+
+    if (previewDir) {
+      const preview = jpeg.encode({ ...crop, data: Buffer.from(crop.data) }, 80);
+      fs.writeFileSync(path.join(previewDir, `${reference.id}.jpeg`), preview.data);
+    }
+
+    const referenceImage = resizeCrop(crop, REFERENCE_IMAGE_SIZE);
+    const referenceFile = `${reference.id}.jpg`;
+    fs.writeFileSync(
+      path.join(referencesDir, referenceFile),
+      jpeg.encode({ ...referenceImage, data: Buffer.from(referenceImage.data) }, 85).data
+    );
+
+    const { image: _image, circle: _circle, ...metadata } = reference;
+    products.push({
+      ...metadata,
+      referenceImages: [`/data/references/${referenceFile}`],
+      vectors: [vector.map(value => Number(value.toFixed(5)))],
+    });
+    console.log(`${reference.id} ${reference.name}: ${reference.image}`);
+  }
+
+  const allVectors = products.flatMap(product => product.vectors);
+  const similarity: CatalogSimilarity = { ...similarityOptions };
+  if (similarity.metric === "mahalanobis") {
+    const normalize = fitNormalization(allVectors, similarity.normalization, FEATURE_DIMENSION);
+    similarity.covariance = computeCovariance(allVectors.map(normalize))
+      .map(row => row.map(value => Number(value.toPrecision(5))));
+  }
+  similarity.calibrations = fitCalibrations(products, calibrationQueries, similarity);
+
+  const catalog = {
+    version: CATALOG_VERSION,
+    embeddingModel: { id: FEATURE_EXTRACTOR_ID, dimension: FEATURE_DIMENSION },
+    similarity,
+    products,
+  };
+
+  const validation = parseCatalog(catalog);
+  if (!validation.success) {
+    validation.errors.forEach(error => console.error(`${error.path}: ${error.message}`));
+    throw new Error("Generated catalog is invalid");
+  }
+
+  // One vector per line keeps the file readable and diffs small
+  const json = JSON.stringify(catalog, null, 2).replace(
+    /\[\s+(-?[\d.e-]+(?:,\s+-?[\d.e-]+)*)\s+\]/g,
+    (_, values: string) => `[${values.split(/,\s+/).join(", ")}]`
+  );
+  fs.writeFileSync(outputPath, json + "\n");
+  console.log(`Wrote ${products.length} products (${FEATURE_DIMENSION} dimensions) to ${path.relative(rootDir, outputPath)}`);
+  similarity.calibrations.forEach(({ metric, normalization, slope, midpoint, samples }) =>
+    console.log(`  ${metric}/${normalization} calibration: 50% at ${midpoint}, slope ${slope} (${samples} scores)`)
+  );
+
+  // The index holds vectors as the app will compare them
+  const space = createVectorSpace(allVectors, similarity, FEATURE_DIMENSION);
+  const exact = new BruteForceIndex(space.indexMetric);
+  const index = new HnswIndex({}, space.indexMetric);
+  products.forEach(product => {
+    product.vectors.forEach((vector, view) => {
+      const entryId = catalogEntryId(product.id, view);
+      exact.add(entryId, space.transform(vector));
+      index.add(entryId, space.transform(vector));
+    });
+  });
+
+  // Lets the app tell whether the index still matches the catalog it loaded
+  index.catalogFingerprint = fingerprintEntries(
+    products.flatMap(product => product.vectors.map((vector, view) => [catalogEntryId(product.id, view), space.transform(vector)] as const))
+  );
+  fs.writeFileSync(indexPath, Buffer.from(index.serialize()));
+  const queries = products.map(product => space.transform(product.vectors[0]));
+  const recall = measureRecall(index, exact, queries, Math.min(3, queries.length));
+  console.log(`Wrote HNSW index to ${path.relative(rootDir, indexPath)} (recall@3 ${(recall * 100).toFixed(1)}%)`);
+
+  if (quantization) {
+    const binary = encodeBinaryCatalog(validation.catalog, { quantization });
+    fs.writeFileSync(binaryPath, Buffer.from(binary));
+    console.log(
+      `Wrote ${quantization} binary catalog to ${path.relative(rootDir, binaryPath)} ` +
+      `(${(binary.byteLength / 1024).toFixed(1)} KiB, JSON ${(json.length / 1024).toFixed(1)} KiB)`
+    );
+  }
+}
+
+main();
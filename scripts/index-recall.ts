@@ -0,0 +1,62 @@
+/**
+ * Index Recall Report
+ * Builds brute-force and HNSW indexes over a synthetic catalog and reports how
+ * closely HNSW results match the exact ones, before and after deletions and
+ * after a serialize/deserialize round trip.
+ *
+ * Usage: npm run index:recall [-- --size 5000 --queries 200]
+ */
+
+import { FEATURE_DIMENSION } from "../client/src/lib/featureExtractor";
+import {
+  BruteForceIndex,
+  HnswIndex,
+  deserializeVectorIndex,
+  measureRecall,
+  VectorIndex,
+} from "../shared/vectorIndex";
+import { argument, syntheticVectors, timed } from "./recallData";
+
+function report(label: string, approximate: VectorIndex, exact: VectorIndex, queries: number[][]) {
+  const recall1 = measureRecall(approximate, exact, queries, 1);
+  const recall10 = measureRecall(approximate, exact, queries, 10);
+  const [, approximateTime] = timed(() => queries.forEach(query => approximate.search(query, 10)));
+  const [, exactTime] = timed(() => queries.forEach(query => exact.search(query, 10)));
+  console.log(
+    `${label.padEnd(18)} recall@1 ${(recall1 * 100).toFixed(1)}%  recall@10 ${(recall10 * 100).toFixed(1)}%` +
+    `  query ${(approximateTime / queries.length).toFixed(2)} ms (brute force ${(exactTime / queries.length).toFixed(2)} ms)`
+  );
+}
+
+function main() {
+  const size = argument("size", 5000);
+  const queryCount = argument("queries", 200);
+  const vectors = syntheticVectors(size + queryCount, Math.max(10, Math.round(size / 50)));
+  const queries = vectors.splice(size, queryCount);
+
+  const exact = new BruteForceIndex();
+  const hnsw = new HnswIndex();
+
+  vectors.forEach((vector, i) => exact.add(`P${i}`, vector));
+  const [, buildTime] = timed(() => vectors.forEach((vector, i) => hnsw.add(`P${i}`, vector)));
+  console.log(`Built HNSW over ${size} vectors (${FEATURE_DIMENSION} dimensions) in ${(buildTime / 1000).toFixed(1)} s`);
+
+  report("After build", hnsw, exact, queries);
+
+  // Delete every tenth product from both indexes
+  const [, deleteTime] = timed(() => {
+    for (let i = 0; i < size; i += 10) {
+      exact.remove(`P${i}`);
+      hnsw.remove(`P${i}`);
+    }
+  });
+  console.log(`Deleted ${Math.ceil(size / 10)} vectors in ${(deleteTime / 1000).toFixed(1)} s`);
+  report("After deletions", hnsw, exact, queries);
+
+  const buffer = hnsw.serialize();
+  const restored = deserializeVectorIndex(buffer);
+  console.log(`Serialized index: ${(buffer.byteLength / 1024).toFixed(0)} KiB`);
+  report("After round trip", restored, exact, queries);
+}
+
+main();
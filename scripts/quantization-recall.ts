@@ -0,0 +1,140 @@
+/**
+ * Quantization Recall Report
+ * Encodes a catalog with int8 scalar quantization and with product quantization at
+ * several code sizes, and reports how much recall each loses against exact float32
+ * search, along with the storage per vector. It runs twice: on a synthetic catalog,
+ * to see the effect at scale, and on the shipped catalog, with its normalization and
+ * kernel, where each reference view in turn queries the others as a new photo would.
+ *
+ * Usage: npm run quantization:recall [-- --size 5000 --queries 200 --metric cosine]
+ *   [--catalog public/data/vectors.json]
+ */
+
+import { FEATURE_DIMENSION } from "../client/src/lib/featureExtractor";
+import { BruteForceIndex, QuantizedIndex, deserializeVectorIndex, IndexMatch } from "../shared/vectorIndex";
+import type { QuantizationOptions } from "../shared/vectorQuantization";
+import type { IndexMetric } from "../shared/similarityMetrics";
+import {
+  argument,
+  DEFAULT_CATALOG_PATH,
+  loadCatalogVectors,
+  stringArgument,
+  syntheticVectors,
+  timed,
+} from "./recallData";
+
+// A query vector; one taken from the catalog ignores its own entry in the results
+interface Query {
+  vector: number[];
+  self?: string;
+}
+
+const CONFIGURATIONS: Array<[string, Partial<QuantizationOptions>]> = [
+  ["float32", { quantization: "float32" }],
+  ["int8", { quantization: "int8" }],
+  ["pq 52×256", { quantization: "pq", subspaces: 52 }],
+  ["pq 26×256", { quantization: "pq", subspaces: 26 }],
+  ["pq 13×256", { quantization: "pq", subspaces: 13 }],
+];
+
+function metricArgument(): IndexMetric {
+  const metric = stringArgument("metric", "cosine");
+  if (metric !== "cosine" && metric !== "dot" && metric !== "l2") {
+    throw new Error(`Unknown metric ${metric}; use cosine, dot or l2`);
+  }
+  return metric;
+}
+
+function neighbors(index: BruteForceIndex | QuantizedIndex, query: Query, topK: number): IndexMatch[] {
+  return index
+    .search(query.vector, query.self ? topK + 1 : topK)
+    .filter(match => match.id !== query.self)
+    .slice(0, topK);
+}
+
+// Average share of the exact top-k that the quantized index also returns
+function recall(index: QuantizedIndex, exact: BruteForceIndex, queries: Query[], topK: number): number {
+  let total = 0;
+  let counted = 0;
+  for (const query of queries) {
+    const truth = neighbors(exact, query, topK);
+    if (truth.length === 0) continue;
+    const found = new Set(neighbors(index, query, topK).map(match => match.id));
+    total += truth.filter(match => found.has(match.id)).length / truth.length;
+    counted++;
+  }
+  return counted > 0 ? total / counted : 1;
+}
+
+// Mean absolute difference between the exact and quantized similarity of each query's true nearest neighbor
+function scoreError(index: QuantizedIndex, exact: BruteForceIndex, queries: Query[]): number {
+  let total = 0;
+  let counted = 0;
+  for (const query of queries) {
+    const [truth] = neighbors(exact, query, 1);
+    if (!truth) continue;
+    const found = index.search(query.vector, index.size).find(match => match.id === truth.id);
+    total += Math.abs(truth.similarity - (found?.similarity ?? 0));
+    counted++;
+  }
+  return counted > 0 ? total / counted : 0;
+}
+
+function report(ids: string[], vectors: number[][], queries: Query[], metric: IndexMetric) {
+  const exact = new BruteForceIndex(metric);
+  vectors.forEach((vector, i) => exact.add(ids[i], vector));
+  const [, exactTime] = timed(() => queries.forEach(query => exact.search(query.vector, 10)));
+  console.log(
+    `${vectors.length} vectors, ${FEATURE_DIMENSION} dimensions, ${metric} kernel; ` +
+    `float32 search ${(exactTime / queries.length).toFixed(2)} ms per query`
+  );
+
+  for (const [label, options] of CONFIGURATIONS) {
+    const [index, trainTime] = timed(() => {
+      const built = new QuantizedIndex(options, metric);
+      built.train(vectors);
+      vectors.forEach((vector, i) => built.add(ids[i], vector));
+      return built;
+    });
+
+    // Measure the restored index, so the file format is part of what's checked
+    const buffer = index.serialize();
+    const restored = deserializeVectorIndex(buffer) as QuantizedIndex;
+
+    const recall1 = recall(restored, exact, queries, 1);
+    const recall10 = recall(restored, exact, queries, 10);
+    const [, queryTime] = timed(() => queries.forEach(query => restored.search(query.vector, 10)));
+    console.log(
+      `${label.padEnd(10)} ${String(restored.codeSize).padStart(4)} B/vector  ${(buffer.byteLength / 1024).toFixed(0).padStart(5)} KiB` +
+      `  recall@1 ${(recall1 * 100).toFixed(1)}%  recall@10 ${(recall10 * 100).toFixed(1)}%` +
+      `  score error ${scoreError(restored, exact, queries).toFixed(4)}` +
+      `  query ${(queryTime / queries.length).toFixed(2)} ms  build ${(trainTime / 1000).toFixed(1)} s`
+    );
+  }
+}
+
+function main() {
+  const size = argument("size", 5000);
+  const queryCount = argument("queries", 200);
+  const vectors = syntheticVectors(size + queryCount, Math.max(10, Math.round(size / 50)));
+  const queries = vectors.splice(size, queryCount).map(vector => ({ vector }));
+
+  console.log("Synthetic catalog");
+  report(vectors.map((_, i) => `P${i}`), vectors, queries, metricArgument());
+
+  // The shipped catalog decides its own normalization and kernel
+  const catalogPath = stringArgument("catalog", DEFAULT_CATALOG_PATH);
+  const catalog = loadCatalogVectors(catalogPath);
+  console.log(`\nCatalog ${catalogPath}`);
+  if (catalog.vectors.length < 256) {
+    console.log(`PQ codebooks get at most one centroid per vector, so ${catalog.vectors.length} vectors are stored nearly exactly`);
+  }
+  report(
+    catalog.ids,
+    catalog.vectors,
+    catalog.vectors.map((vector, i) => ({ vector, self: catalog.ids[i] })),
+    catalog.metric
+  );
+}
+
+main();
@@ -0,0 +1,89 @@
+/**
+ * Recall Report Helpers
+ * Command-line arguments, timing and the vectors shared by the recall reports: a
+ * seeded synthetic catalog to measure at scale, and the shipped catalog so reports
+ * also cover the data the app actually searches.
+ */
+
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { FEATURE_DIMENSION } from "../client/src/lib/featureExtractor";
+import { parseCatalog } from "../shared/catalog";
+import { catalogEntryId } from "../shared/binaryCatalog";
+import { createVectorSpace, IndexMetric } from "../shared/similarityMetrics";
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+export const DEFAULT_CATALOG_PATH = path.join(rootDir, "public", "data", "vectors.json");
+
+export function argument(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? Number(process.argv[index + 1]) : fallback;
+}
+
+export function stringArgument(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : fallback;
+}
+
+export function timed<T>(run: () => T): [T, number] {
+  const start = performance.now();
+  const result = run();
+  return [result, performance.now() - start];
+}
+
+// Seeded generator so reports are comparable between runs
+let seed = 1234;
+function random(): number {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+}
+
+function gaussian(): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+// Products of one brand share a look, so vectors are drawn around cluster centers
+export function syntheticVectors(count: number, clusters: number): number[][] {
+  const centers = Array.from({ length: clusters }, () =>
+    Array.from({ length: FEATURE_DIMENSION }, () => Math.abs(gaussian()))
+  );
+  return Array.from({ length: count }, () => {
+    const center = centers[Math.floor(random() * clusters)];
+    return center.map(value => Math.max(0, value + gaussian() * 0.3));
+  });
+}
+
+export interface CatalogVectors {
+  ids: string[]; // Index entry ids, one per reference view
+  vectors: number[][]; // As the app indexes them, i.e. after the catalog's normalization
+  metric: IndexMetric; // The kernel the app searches them with
+}
+
+/**
+ * Read a catalog file and prepare its vectors the way the app does on load
+ *
+ * @throws Error if the file is not a valid catalog
+ */
+export function loadCatalogVectors(catalogPath: string = DEFAULT_CATALOG_PATH): CatalogVectors {
+  const result = parseCatalog(JSON.parse(fs.readFileSync(catalogPath, "utf8")));
+  if (!result.success) {
+    throw new Error(`Invalid catalog ${catalogPath}: ${result.errors.map(error => `${error.path}: ${error.message}`).join("; ")}`);
+  }
+
+  const { catalog } = result;
+  const entries = catalog.products.flatMap(product =>
+    product.vectors.map((vector, view) => [catalogEntryId(product.id, view), vector] as const)
+  );
+  const space = createVectorSpace(
+    entries.map(([, vector]) => vector),
+    catalog.similarity ?? { metric: "cosine", normalization: "none" },
+    catalog.embeddingModel.dimension
+  );
+
+  return {
+    ids: entries.map(([id]) => id),
+    vectors: entries.map(([, vector]) => space.transform(vector)),
+    metric: space.indexMetric,
+  };
+}
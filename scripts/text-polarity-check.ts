@@ -0,0 +1,92 @@
+/**
+ * Text Polarity Check
+ * Runs the best-channel and auto-invert steps on synthetic lids cropped to a circle
+ * the way the app crops them, with transparent corners, and checks that the text
+ * comes out dark on light. Exits with status 1 if any case fails.
+ *
+ * Usage: npm run polarity:check
+ */
+
+import { hasLightText, scoreChannels } from "../client/src/lib/colorChannels";
+import { runPipeline } from "../client/src/lib/pipelineRunner";
+import type { PixelBuffer } from "../client/src/lib/imageFilters";
+
+type Color = [number, number, number];
+
+interface PolarityCase {
+  name: string;
+  lid: Color;
+  text: Color;
+  lightText?: boolean; // Expected hasLightText() on the chosen channel; colored text depends on the channel
+}
+
+const SIZE = 400;
+
+const CASES: PolarityCase[] = [
+  { name: "light text on a dark lid", lid: [90, 90, 90], text: [230, 230, 230], lightText: true },
+  { name: "dark text on a light lid", lid: [220, 220, 220], text: [40, 40, 40], lightText: false },
+  { name: "white text on navy", lid: [20, 30, 90], text: [245, 245, 245], lightText: true },
+  { name: "red text on teal, same brightness", lid: [0, 150, 150], text: [200, 50, 50] },
+];
+
+// A lid of one color with rows of text-like bars, outside the circle fully transparent
+function circularLid(lid: Color, text: Color): { pixels: PixelBuffer; isText: (x: number, y: number) => boolean } {
+  const isText = (x: number, y: number) =>
+    y > SIZE * 0.3 && y < SIZE * 0.7 && y % 40 < 10 && x % 30 < 12;
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  const radius = SIZE / 2;
+
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      if ((x + 0.5 - radius) ** 2 + (y + 0.5 - radius) ** 2 > radius * radius) continue;
+      const color = isText(x, y) ? text : lid;
+      const i = (y * SIZE + x) * 4;
+      data.set([...color, 255], i);
+    }
+  }
+
+  return { pixels: { data, width: SIZE, height: SIZE }, isText };
+}
+
+function check({ name, lid, text, lightText }: PolarityCase): boolean {
+  const { pixels, isText } = circularLid(lid, text);
+  const [best] = scoreChannels(pixels);
+
+  const grey = runPipeline({ ...pixels, data: new Uint8ClampedArray(pixels.data) }, [{ op: "bestChannel" }]);
+  const detected = hasLightText(grey);
+  const result = runPipeline(grey, [{ op: "autoInvert" }]);
+
+  // After auto-invert, text pixels must be darker than the lid
+  let textSum = 0;
+  let textCount = 0;
+  let lidSum = 0;
+  let lidCount = 0;
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 4;
+      if (result.data[i + 3] === 0) continue;
+      if (isText(x, y)) {
+        textSum += result.data[i];
+        textCount++;
+      } else {
+        lidSum += result.data[i];
+        lidCount++;
+      }
+    }
+  }
+  const textMean = textSum / textCount;
+  const lidMean = lidSum / lidCount;
+
+  const passed = (lightText === undefined || detected === lightText) && textMean < lidMean;
+  console.log(
+    `${passed ? "ok  " : "FAIL"} ${name.padEnd(34)} channel ${best.channel.padEnd(10)}` +
+    ` light text ${detected}${lightText === undefined ? "" : ` (expected ${lightText})`}  text ${textMean.toFixed(0)} / lid ${lidMean.toFixed(0)}`
+  );
+  return passed;
+}
+
+const failures = CASES.filter(testCase => !check(testCase)).length;
+if (failures > 0) {
+  console.error(`${failures} of ${CASES.length} cases failed`);
+  process.exit(1);
+}
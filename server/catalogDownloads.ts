@@ -0,0 +1,51 @@
+import { createHash } from "crypto";
+import type { ProductCatalog } from "@shared/catalog";
+import type { IStorage } from "./storage";
+
+// An encoded catalog file and the ETag clients revalidate it with
+export interface CatalogDownload {
+  etag: string;
+  type: string;
+  body: Buffer;
+}
+
+// Encoded downloads per variant ("json", or the binary encoding options), until the next catalog
+// write. Encoding a binary catalog can train a PQ quantizer, which blocks the event loop, so it
+// happens once per change rather than once per request. Writes must go through this server.
+const downloads = new Map<string, Promise<CatalogDownload | null>>();
+
+/**
+ * The catalog encoded for download, reusing the last encoding while the catalog is unchanged
+ *
+ * @param variant Names the encoding; part of the cache key and the ETag
+ * @param encode Turns the catalog into the file contents
+ * @returns The download, or null while the catalog is empty
+ */
+export function getCatalogDownload(
+  storage: IStorage,
+  variant: string,
+  type: string,
+  encode: (catalog: ProductCatalog) => Buffer,
+): Promise<CatalogDownload | null> {
+  const cached = downloads.get(variant);
+  if (cached) return cached;
+
+  const download = storage.getCatalog().then((catalog) => {
+    if (!catalog) return null;
+    const etag = createHash("sha1").update(variant).update(JSON.stringify(catalog)).digest("base64url");
+    return { etag: `"${etag}"`, type, body: encode(catalog) };
+  });
+  downloads.set(variant, download);
+  // Failures aren't cached; a write during encoding has already dropped the entry
+  download.catch(() => {
+    if (downloads.get(variant) === download) downloads.delete(variant);
+  });
+  return download;
+}
+
+/**
+ * Drop every cached download; call after anything that changes the catalog
+ */
+export function invalidateCatalogDownloads(): void {
+  downloads.clear();
+}
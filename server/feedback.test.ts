@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CATALOG_VERSION } from "@shared/catalog";
+import type { MatchFeedbackInput } from "@shared/feedback";
+import { buildFeedbackReport, calibrationSamples, fitThreshold, recordFeedback } from "./feedback";
+import { CatalogStorageError, MemStorage } from "./storage";
+
+const feedback = (fields: Partial<MatchFeedbackInput> = {}): MatchFeedbackInput => ({
+  decision: "identified",
+  predictedProductId: "P1",
+  verdict: "confirmed",
+  confidence: 0.8,
+  threshold: 0.5,
+  candidates: [
+    { productId: "P1", score: 0.85 },
+    { productId: "P2", score: 0.6 },
+  ],
+  ...fields,
+});
+
+describe("fitThreshold", () => {
+  it("separates right from wrong top candidates", () => {
+    const samples = [
+      { confidence: 0.9, positive: true },
+      { confidence: 0.8, positive: true },
+      { confidence: 0.7, positive: true },
+      { confidence: 0.6, positive: false },
+      { confidence: 0.4, positive: false },
+    ];
+    expect(fitThreshold(samples, 0.5)).toBeCloseTo(0.65);
+  });
+
+  it("keeps the current threshold when no other does better", () => {
+    const samples = [
+      { confidence: 0.9, positive: true },
+      { confidence: 0.3, positive: false },
+    ];
+    expect(fitThreshold(samples, 0.5)).toBe(0.5);
+  });
+
+  it("stays within the allowed range", () => {
+    // Accepting everything would be right every time, but rejection can't be switched off
+    const allRight = [0.1, 0.3, 0.4].map((confidence) => ({ confidence, positive: true }));
+    expect(fitThreshold(allRight, 0.5)).toBe(0.2);
+  });
+});
+
+describe("calibrationSamples", () => {
+  it("labels the photographed product's score right and the others wrong", () => {
+    expect(calibrationSamples(feedback({ verdict: "corrected", correctProductId: "P2" }))).toEqual([
+      { score: 0.85, positive: false },
+      { score: 0.6, positive: true },
+    ]);
+    expect(calibrationSamples(feedback({ verdict: "rejected" })).every((sample) => !sample.positive)).toBe(true);
+  });
+});
+
+describe("recordFeedback", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.importCatalog(
+      {
+        version: CATALOG_VERSION,
+        embeddingModel: { id: "test-v1", dimension: 2 },
+        products: ["P1", "P2"].map((id) => ({ id, name: id, referenceImages: [], vectors: [[1, 0]] })),
+      },
+      "replace",
+    );
+  });
+
+  it("rejects feedback about unknown products", async () => {
+    await expect(recordFeedback(storage, feedback({ predictedProductId: "P9" }))).rejects.toThrow(CatalogStorageError);
+  });
+
+  it("adds a confirmed scan that matched poorly as a reference view", async () => {
+    const result = await recordFeedback(storage, feedback({ vector: [0.6, 0.8] }));
+    expect(result.feedback.actions).toEqual([{ type: "view-added", productId: "P1" }]);
+    expect((await storage.getProduct("P1"))?.vectors).toHaveLength(2);
+  });
+
+  it("doesn't add scans that already match closely", async () => {
+    const close = feedback({ vector: [0.6, 0.8], candidates: [{ productId: "P1", score: 0.95 }] });
+    expect((await recordFeedback(storage, close)).feedback.actions).toEqual([]);
+  });
+
+  it("fits the product's threshold once it has enough feedback", async () => {
+    const confidences = [0.9, 0.85, 0.8, 0.55, 0.52];
+    let result;
+    for (const [i, confidence] of confidences.entries()) {
+      result = await recordFeedback(storage, feedback({ confidence, verdict: i < 3 ? "confirmed" : "rejected" }));
+    }
+    const action = result!.feedback.actions.find((entry) => entry.type === "threshold-adjusted");
+    expect(action).toMatchObject({ productId: "P1", from: null });
+    expect((await storage.getProduct("P1"))?.threshold).toBeCloseTo(0.675);
+  });
+
+  it("refits the match calibration of the metric the candidates were scored with", async () => {
+    let result;
+    for (let i = 0; i < 20; i++) {
+      const right = i % 4 !== 0;
+      result = await recordFeedback(
+        storage,
+        feedback({
+          verdict: right ? "confirmed" : "corrected",
+          correctProductId: right ? undefined : "P2",
+          candidates: [
+            { productId: "P1", score: right ? 0.9 - i * 0.005 : 0.8 },
+            { productId: "P2", score: 0.6 + (i % 5) * 0.03 },
+          ],
+          metric: "l2",
+          normalization: "zscore",
+        }),
+      );
+    }
+
+    const action = result!.feedback.actions.find((entry) => entry.type === "calibration-fitted");
+    expect(action).toMatchObject({ calibration: { metric: "l2", normalization: "zscore", source: "feedback", samples: 40 } });
+    expect((await storage.getSimilarity())?.calibrations).toHaveLength(1);
+  });
+
+  it("leaves the calibration alone when feedback doesn't name its metric", async () => {
+    for (let i = 0; i < 25; i++) await recordFeedback(storage, feedback({ verdict: i % 2 ? "confirmed" : "rejected" }));
+    expect((await storage.getSimilarity())?.calibrations).toBeUndefined();
+  });
+});
+
+describe("buildFeedbackReport", () => {
+  it("counts accuracy per day and per predicted product", async () => {
+    const storage = new MemStorage();
+    await storage.addFeedback({ ...feedback(), correct: true, actions: [] });
+    await storage.addFeedback({ ...feedback({ verdict: "rejected" }), correct: false, actions: [] });
+    const report = buildFeedbackReport(await storage.listFeedback({}), "day");
+
+    expect(report).toMatchObject({ total: 2, correct: 1, accuracy: 0.5 });
+    expect(report.buckets).toHaveLength(1);
+    expect(report.buckets[0]).toMatchObject({ confirmed: 1, rejected: 1 });
+    expect(report.products).toEqual([{ productId: "P1", predicted: 2, correct: 1, accuracy: 0.5 }]);
+  });
+});
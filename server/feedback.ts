@@ -0,0 +1,252 @@
+import {
+  isDecisionCorrect,
+  trueProductId,
+  type AccuracyBucket,
+  type FeedbackAction,
+  type FeedbackReport,
+  type FeedbackSubmitResult,
+  type MatchFeedback,
+  type MatchFeedbackInput,
+  type ProductAccuracy,
+  type ReportBucket,
+} from "@shared/feedback";
+import type { CatalogProduct, MatchCalibration } from "@shared/catalog";
+import { findCalibration, fitMatchCalibration, type CalibrationSample } from "@shared/calibration";
+import { CatalogStorageError, type IStorage } from "./storage";
+
+// A confirmed scan scoring below this against its product becomes a new reference view;
+// scans that already match an existing view closely would only bloat the index
+const LEARN_VIEW_BELOW_SCORE = 0.9;
+
+// Learned views stop being added once a product has this many
+const MAX_VIEWS_PER_PRODUCT = 8;
+
+// A product's threshold is only fitted once it has been the top candidate this often
+const MIN_FEEDBACK_FOR_THRESHOLD = 5;
+
+// Fitted thresholds stay within this range so a run of feedback can't disable rejection entirely
+const MIN_FITTED_THRESHOLD = 0.2;
+const MAX_FITTED_THRESHOLD = 0.95;
+
+// Smaller threshold changes aren't worth a catalog write
+const MIN_THRESHOLD_CHANGE = 0.01;
+
+// The match calibration is refitted from feedback once this many identifications scored with
+// the same metric and normalization have been rated; until then the catalog's own fit stands
+const MIN_FEEDBACK_FOR_CALIBRATION = 20;
+
+// Only recent feedback is fitted to, so the calibration follows the catalog as it changes
+const CALIBRATION_FEEDBACK_WINDOW = 500;
+
+// A refitted calibration is only stored if its 50% point or its slope (relatively) moved this much
+const MIN_MIDPOINT_CHANGE = 0.005;
+const MIN_SLOPE_CHANGE = 0.05;
+
+/**
+ * Pick the confidence threshold that would have decided the most of a product's
+ * feedback correctly. Ties go to the threshold closest to the current one.
+ *
+ * @param samples Confidence of each time the product was the top candidate, and whether it was right
+ * @param current The threshold in use now
+ */
+export function fitThreshold(samples: Array<{ confidence: number; positive: boolean }>, current: number): number {
+  const confidences = Array.from(new Set(samples.map((sample) => sample.confidence))).sort((a, b) => a - b);
+  const candidates = [current, confidences[0] - 0.01, confidences[confidences.length - 1] + 0.01];
+  for (let i = 1; i < confidences.length; i++) {
+    candidates.push((confidences[i - 1] + confidences[i]) / 2);
+  }
+
+  let best = current;
+  let bestErrors = Infinity;
+  for (const raw of candidates) {
+    const threshold = Math.min(MAX_FITTED_THRESHOLD, Math.max(MIN_FITTED_THRESHOLD, raw));
+    const errors = samples.filter((sample) => (sample.confidence >= threshold) !== sample.positive).length;
+    const closer = Math.abs(threshold - current) < Math.abs(best - current);
+    if (errors < bestErrors || (errors === bestErrors && closer)) {
+      best = threshold;
+      bestErrors = errors;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Label the candidate scores of a piece of feedback: the photographed product's score
+ * belongs to a right match, every other candidate's to a wrong one
+ */
+export function calibrationSamples(feedback: MatchFeedbackInput): CalibrationSample[] {
+  const productId = trueProductId(feedback);
+  return feedback.candidates.map((candidate) => ({ score: candidate.score, positive: candidate.productId === productId }));
+}
+
+async function learnView(
+  storage: IStorage,
+  feedback: MatchFeedbackInput,
+): Promise<CatalogProduct | undefined> {
+  const productId = trueProductId(feedback);
+  if (!productId || !feedback.vector) return undefined;
+
+  const product = await storage.getProduct(productId);
+  if (!product || product.vectors.length >= MAX_VIEWS_PER_PRODUCT) return undefined;
+
+  // Products missing from the candidates scored lower than all of them
+  const score = feedback.candidates.find((candidate) => candidate.productId === productId)?.score ?? 0;
+  if (score >= LEARN_VIEW_BELOW_SCORE) return undefined;
+
+  return storage.addProductView(productId, { vector: feedback.vector });
+}
+
+async function learnThreshold(
+  storage: IStorage,
+  feedback: MatchFeedbackInput,
+): Promise<{ product: CatalogProduct; from: number | null; to: number } | undefined> {
+  const productId = feedback.predictedProductId;
+  const product = await storage.getProduct(productId);
+  if (!product) return undefined;
+
+  const history = await storage.listFeedback({ productId });
+  const samples = [...history.filter((entry) => entry.predictedProductId === productId), feedback].map((entry) => ({
+    confidence: entry.confidence,
+    positive: entry.verdict === "confirmed",
+  }));
+  if (samples.length < MIN_FEEDBACK_FOR_THRESHOLD) return undefined;
+
+  const current = product.threshold ?? feedback.threshold;
+  const fitted = Number(fitThreshold(samples, current).toFixed(3));
+  if (Math.abs(fitted - current) < MIN_THRESHOLD_CHANGE) return undefined;
+
+  const updated = await storage.updateProduct(productId, { threshold: fitted });
+  return updated && { product: updated, from: product.threshold ?? null, to: fitted };
+}
+
+async function learnCalibration(
+  storage: IStorage,
+  feedback: MatchFeedbackInput,
+): Promise<MatchCalibration | undefined> {
+  const { metric, normalization } = feedback;
+  if (!metric || !normalization) return undefined;
+
+  const history = await storage.listFeedback({ limit: CALIBRATION_FEEDBACK_WINDOW - 1 });
+  const rated = [
+    ...history.filter((entry) => entry.metric === metric && entry.normalization === normalization),
+    feedback,
+  ];
+  if (rated.length < MIN_FEEDBACK_FOR_CALIBRATION) return undefined;
+
+  const fitted = fitMatchCalibration(rated.flatMap(calibrationSamples), { metric, normalization, source: "feedback" });
+  if (!fitted) return undefined;
+
+  const current = findCalibration({ metric, normalization, calibrations: (await storage.getSimilarity())?.calibrations });
+  if (
+    current &&
+    Math.abs(fitted.midpoint - current.midpoint) < MIN_MIDPOINT_CHANGE &&
+    Math.abs(fitted.slope - current.slope) < MIN_SLOPE_CHANGE * current.slope
+  ) {
+    return undefined;
+  }
+
+  await storage.setMatchCalibration(fitted);
+  return fitted;
+}
+
+/**
+ * Store feedback on an identification and learn from it: confirmed scans that
+ * matched poorly become extra reference views, the predicted product's threshold
+ * is refitted to all feedback about it, and the match calibration of the metric
+ * the candidates were scored with is refitted to recent rated scores.
+ */
+export async function recordFeedback(storage: IStorage, feedback: MatchFeedbackInput): Promise<FeedbackSubmitResult> {
+  for (const productId of [feedback.predictedProductId, feedback.correctProductId]) {
+    if (productId && !(await storage.getProduct(productId))) {
+      throw new CatalogStorageError(`Product ${productId} not found`, 404);
+    }
+  }
+
+  const actions: FeedbackAction[] = [];
+  const updatedProducts = new Map<string, CatalogProduct>();
+
+  const withView = await learnView(storage, feedback);
+  if (withView) {
+    actions.push({ type: "view-added", productId: withView.id });
+    updatedProducts.set(withView.id, withView);
+  }
+
+  const threshold = await learnThreshold(storage, feedback);
+  if (threshold) {
+    actions.push({
+      type: "threshold-adjusted",
+      productId: threshold.product.id,
+      from: threshold.from,
+      to: threshold.to,
+    });
+    updatedProducts.set(threshold.product.id, threshold.product);
+  }
+
+  const calibration = await learnCalibration(storage, feedback);
+  if (calibration) actions.push({ type: "calibration-fitted", calibration });
+
+  const stored = await storage.addFeedback({ ...feedback, correct: isDecisionCorrect(feedback), actions });
+  return { feedback: stored, updatedProducts: Array.from(updatedProducts.values()) };
+}
+
+// First day (UTC) of the bucket containing the timestamp; weeks start on Monday
+function bucketStart(timestamp: string, bucket: ReportBucket): string {
+  const date = new Date(timestamp);
+  date.setUTCHours(0, 0, 0, 0);
+  if (bucket === "week") {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const ratio = (part: number, total: number) => (total > 0 ? part / total : 0);
+
+/**
+ * Summarize feedback into accuracy per day or week and per predicted product
+ */
+export function buildFeedbackReport(feedback: MatchFeedback[], bucket: ReportBucket): FeedbackReport {
+  const buckets = new Map<string, AccuracyBucket>();
+  const products = new Map<string, ProductAccuracy>();
+
+  for (const entry of feedback) {
+    const start = bucketStart(entry.createdAt, bucket);
+    const period = buckets.get(start) ?? {
+      start,
+      total: 0,
+      correct: 0,
+      accuracy: 0,
+      confirmed: 0,
+      corrected: 0,
+      rejected: 0,
+    };
+    period.total++;
+    if (entry.correct) period.correct++;
+    period[entry.verdict]++;
+    buckets.set(start, period);
+
+    const product = products.get(entry.predictedProductId) ?? {
+      productId: entry.predictedProductId,
+      predicted: 0,
+      correct: 0,
+      accuracy: 0,
+    };
+    product.predicted++;
+    if (entry.correct) product.correct++;
+    products.set(entry.predictedProductId, product);
+  }
+
+  const correct = feedback.filter((entry) => entry.correct).length;
+  return {
+    bucket,
+    total: feedback.length,
+    correct,
+    accuracy: ratio(correct, feedback.length),
+    buckets: Array.from(buckets.values())
+      .map((period) => ({ ...period, accuracy: ratio(period.correct, period.total) }))
+      .sort((a, b) => a.start.localeCompare(b.start)),
+    products: Array.from(products.values())
+      .map((product) => ({ ...product, accuracy: ratio(product.correct, product.predicted) }))
+      .sort((a, b) => b.predicted - a.predicted || a.productId.localeCompare(b.productId)),
+  };
+}
@@ -3,7 +3,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Bulk catalog imports carry thousands of vectors
+app.use(express.json({ limit: "25mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -0,0 +1,56 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// URL prefix of reference photos, as stored in a product's referenceImages
+export const REFERENCE_IMAGE_URL = "/data/references";
+
+// References of the bundled catalog, written by scripts/build-catalog.ts
+export const BUNDLED_REFERENCE_DIR = path.resolve(import.meta.dirname, "..", "public", "data", "references");
+
+// Photos enrolled from the app; both directories are served under REFERENCE_IMAGE_URL
+export const UPLOADED_REFERENCE_DIR = path.resolve(
+  process.env.REFERENCE_IMAGE_DIR ?? path.join(import.meta.dirname, "..", "uploads", "references"),
+);
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Store an uploaded reference photo
+ *
+ * @param dataUrl A base64 image data URL, already validated by referenceImageUploadSchema
+ * @returns The URL path to record in the product's referenceImages
+ */
+export async function saveReferenceImage(dataUrl: string): Promise<string> {
+  const [header, base64] = dataUrl.split(",");
+  const mimeType = header.slice("data:".length, header.indexOf(";"));
+  const fileName = `${randomUUID()}.${EXTENSIONS[mimeType]}`;
+
+  await fs.promises.mkdir(UPLOADED_REFERENCE_DIR, { recursive: true });
+  await fs.promises.writeFile(path.join(UPLOADED_REFERENCE_DIR, fileName), Buffer.from(base64, "base64"));
+  return `${REFERENCE_IMAGE_URL}/${fileName}`;
+}
+
+// Names saveReferenceImage gives uploads; anything else is never deleted
+const UPLOADED_FILE_NAME = /^[0-9a-f-]{36}\.(jpg|png|webp)$/;
+
+/**
+ * Delete an uploaded reference photo, e.g. one whose product was then rejected
+ *
+ * @param fileName The file name part of the photo's URL path
+ * @returns Whether the photo existed; bundled photos are never deleted
+ */
+export async function deleteUploadedReferenceImage(fileName: string): Promise<boolean> {
+  if (!UPLOADED_FILE_NAME.test(fileName)) return false;
+  try {
+    await fs.promises.unlink(path.join(UPLOADED_REFERENCE_DIR, fileName));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
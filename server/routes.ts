@@ -1,16 +1,294 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  parseCatalog,
+  toCatalogIssues,
+  createProductSchema,
+  updateProductSchema,
+  productListQuerySchema,
+  importModes,
+  referenceImageUploadSchema,
+  addProductViewSchema,
+  binaryCatalogQuerySchema,
+} from "@shared/catalog";
+import { matchFeedbackSchema, feedbackListQuerySchema, feedbackReportQuerySchema } from "@shared/feedback";
+import { storage, CatalogStorageError } from "./storage";
+import { recordFeedback, buildFeedbackReport } from "./feedback";
+import {
+  BUNDLED_REFERENCE_DIR,
+  UPLOADED_REFERENCE_DIR,
+  REFERENCE_IMAGE_URL,
+  deleteUploadedReferenceImage,
+  saveReferenceImage,
+} from "./referenceImages";
+import { getCatalogDownload, invalidateCatalogDownloads, type CatalogDownload } from "./catalogDownloads";
+import { log } from "./vite";
+import { encodeBinaryCatalog } from "@shared/binaryCatalog";
+
+// Bundled catalog used to seed an empty store
+const SEED_CATALOG_PATH = path.resolve(import.meta.dirname, "..", "public", "data", "vectors.json");
+
+const importQuerySchema = z.object({
+  mode: z.enum(importModes).default("merge"),
+});
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  res.status(400).json({ message: "Invalid request", errors: toCatalogIssues(error) });
+}
+
+function sendStorageError(res: Response, error: unknown) {
+  if (error instanceof CatalogStorageError) {
+    res.status(error.status).json({ message: error.message });
+    return;
+  }
+  console.error("Catalog storage error:", error);
+  res.status(500).json({ message: "Internal Server Error" });
+}
+
+// Catalog downloads are revalidated by clients (see client/src/lib/catalogCache.ts): the ETag
+// covers the catalog contents and the download variant, so an unchanged catalog costs a 304
+function sendDownload(req: Request, res: Response, download: CatalogDownload | null) {
+  if (!download) {
+    res.status(404).json({ message: "The product catalog is empty" });
+    return;
+  }
+  res.set({ ETag: download.etag, "Cache-Control": "no-cache" });
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.type(download.type).send(download.body);
+}
+
+async function seedCatalogIfEmpty() {
+  if (await storage.getCatalog()) return;
+
+  try {
+    const result = parseCatalog(JSON.parse(await fs.promises.readFile(SEED_CATALOG_PATH, "utf-8")));
+    if (!result.success) {
+      log(`Seed catalog is invalid: ${result.errors.map((e) => `${e.path}: ${e.message}`).join("; ")}`);
+      return;
+    }
+    const { total } = await storage.importCatalog(result.catalog, "merge");
+    log(`Seeded product catalog with ${total} products`);
+  } catch (error) {
+    log(`Could not seed product catalog: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // This is a client-side application with minimal backend requirements
-  // We're just setting up the basic HTTP server
-  
   // Health check endpoint
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok" });
   });
 
+  await seedCatalogIfEmpty();
+
+  // Reference photos, bundled and uploaded
+  app.use(REFERENCE_IMAGE_URL, express.static(BUNDLED_REFERENCE_DIR));
+  app.use(REFERENCE_IMAGE_URL, express.static(UPLOADED_REFERENCE_DIR, { fallthrough: false }));
+
+  // Full catalog in the versioned file format, as loaded by the client
+  app.get("/api/catalog", async (req, res) => {
+    try {
+      const download = await getCatalogDownload(storage, "json", "application/json", (catalog) =>
+        Buffer.from(JSON.stringify(catalog)),
+      );
+      sendDownload(req, res, download);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  // The same catalog with quantized vectors, for faster downloads
+  app.get("/api/catalog.bin", async (req, res) => {
+    const query = binaryCatalogQuerySchema.safeParse(req.query);
+    if (!query.success) return sendValidationError(res, query.error);
+
+    try {
+      const variant = `binary:${JSON.stringify(query.data)}`;
+      const download = await getCatalogDownload(storage, variant, "application/octet-stream", (catalog) =>
+        Buffer.from(encodeBinaryCatalog(catalog, query.data)),
+      );
+      sendDownload(req, res, download);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.get("/api/products", async (req, res) => {
+    const query = productListQuerySchema.safeParse(req.query);
+    if (!query.success) return sendValidationError(res, query.error);
+
+    try {
+      res.json(await storage.listProducts(query.data));
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.get("/api/products/:id", async (req, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: `Product ${req.params.id} not found` });
+      }
+      res.json(product);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.post("/api/products", async (req, res) => {
+    const body = createProductSchema.safeParse(req.body);
+    if (!body.success) return sendValidationError(res, body.error);
+
+    try {
+      const product = await storage.createProduct(body.data);
+      invalidateCatalogDownloads();
+      res.status(201).json(product);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.patch("/api/products/:id", async (req, res) => {
+    const body = updateProductSchema.safeParse(req.body);
+    if (!body.success) return sendValidationError(res, body.error);
+
+    try {
+      const product = await storage.updateProduct(req.params.id, body.data);
+      if (!product) {
+        return res.status(404).json({ message: `Product ${req.params.id} not found` });
+      }
+      invalidateCatalogDownloads();
+      res.json(product);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.delete("/api/products/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteProduct(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: `Product ${req.params.id} not found` });
+      }
+      invalidateCatalogDownloads();
+      res.status(204).end();
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  // Add another reference view (e.g. a photo under different lighting) to an existing product
+  app.post("/api/products/:id/views", async (req, res) => {
+    const body = addProductViewSchema.safeParse(req.body);
+    if (!body.success) return sendValidationError(res, body.error);
+
+    try {
+      const product = await storage.addProductView(req.params.id, body.data);
+      if (!product) {
+        return res.status(404).json({ message: `Product ${req.params.id} not found` });
+      }
+      invalidateCatalogDownloads();
+      res.status(201).json(product);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.post("/api/reference-images", async (req, res) => {
+    const body = referenceImageUploadSchema.safeParse(req.body);
+    if (!body.success) return sendValidationError(res, body.error);
+
+    try {
+      res.status(201).json({ path: await saveReferenceImage(body.data.image) });
+    } catch (error) {
+      console.error("Failed to store reference image:", error);
+      res.status(500).json({ message: "Failed to store the reference image" });
+    }
+  });
+
+  // Clean up after an upload whose product or view was then rejected; photos still in use are kept
+  app.delete("/api/reference-images/:fileName", async (req, res) => {
+    const imagePath = `${REFERENCE_IMAGE_URL}/${req.params.fileName}`;
+
+    try {
+      const catalog = await storage.getCatalog();
+      if (catalog?.products.some((product) => product.referenceImages.includes(imagePath))) {
+        return res.status(409).json({ message: "The reference image is used by a product" });
+      }
+      if (!(await deleteUploadedReferenceImage(req.params.fileName))) {
+        return res.status(404).json({ message: "Reference image not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  // Bulk import of a catalog file (any supported version); ?mode=replace drops existing products
+  app.post("/api/products/import", async (req, res) => {
+    const query = importQuerySchema.safeParse(req.query);
+    if (!query.success) return sendValidationError(res, query.error);
+
+    const result = parseCatalog(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: "Invalid catalog", errors: result.errors });
+    }
+
+    try {
+      const imported = await storage.importCatalog(result.catalog, query.data.mode);
+      invalidateCatalogDownloads();
+      res.json(imported);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  // Confirm or correct an identification; the catalog learns from it
+  app.post("/api/feedback", async (req, res) => {
+    const body = matchFeedbackSchema.safeParse(req.body);
+    if (!body.success) return sendValidationError(res, body.error);
+
+    try {
+      const result = await recordFeedback(storage, body.data);
+      // Learned views, thresholds and calibrations are catalog changes
+      if (result.feedback.actions.length > 0) invalidateCatalogDownloads();
+      res.status(201).json(result);
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  app.get("/api/feedback", async (req, res) => {
+    const query = feedbackListQuerySchema.safeParse(req.query);
+    if (!query.success) return sendValidationError(res, query.error);
+
+    try {
+      res.json(await storage.listFeedback(query.data));
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
+  // Identification accuracy per day or week, from user feedback
+  app.get("/api/feedback/report", async (req, res) => {
+    const query = feedbackReportQuerySchema.safeParse(req.query);
+    if (!query.success) return sendValidationError(res, query.error);
+
+    try {
+      const feedback = await storage.listFeedback({ since: query.data.since });
+      res.json(buildFeedbackReport(feedback, query.data.bucket));
+    } catch (error) {
+      sendStorageError(res, error);
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
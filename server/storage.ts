@@ -1,4 +1,42 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  products,
+  productVectors,
+  matchFeedback,
+  catalogSettings,
+  type User,
+  type InsertUser,
+  type Product,
+  type ProductVectorRow,
+  type MatchFeedbackRow,
+} from "@shared/schema";
+import {
+  CATALOG_VERSION,
+  type AddProductView,
+  type CatalogProduct,
+  type CatalogSimilarity,
+  type CreateProduct,
+  type EmbeddingModel,
+  type ImportMode,
+  type ImportResult,
+  type MatchCalibration,
+  type ProductCatalog,
+  type ProductListPage,
+  type ProductListQuery,
+  type ProductUpdate,
+} from "@shared/catalog";
+import type { FeedbackAction, FeedbackFilter, MatchFeedback, MatchFeedbackInput } from "@shared/feedback";
+import { withCalibration } from "@shared/calibration";
+import { and, asc, count, desc, eq, gte, ilike, inArray, ne, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+
+// Thrown for requests that conflict with the stored catalog; status is the HTTP status to return
+export class CatalogStorageError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "CatalogStorageError";
+  }
+}
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,14 +45,102 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  listProducts(query: ProductListQuery): Promise<ProductListPage>;
+  getProduct(id: string): Promise<CatalogProduct | undefined>;
+  createProduct(product: CreateProduct): Promise<CatalogProduct>;
+  updateProduct(id: string, update: ProductUpdate): Promise<CatalogProduct | undefined>;
+  deleteProduct(id: string): Promise<boolean>;
+  // Appends a reference view (vector plus optional image) to an existing product
+  addProductView(id: string, view: AddProductView): Promise<CatalogProduct | undefined>;
+  importCatalog(catalog: ProductCatalog, mode: ImportMode): Promise<ImportResult>;
+  // Null until the first product defines the embedding model
+  getCatalog(): Promise<ProductCatalog | null>;
+  // Undefined when the catalog uses the defaults (cosine, no normalization, no calibrations)
+  getSimilarity(): Promise<CatalogSimilarity | undefined>;
+  // Replaces the stored calibration for the same metric and normalization
+  setMatchCalibration(calibration: MatchCalibration): Promise<void>;
+
+  addFeedback(feedback: NewMatchFeedback): Promise<MatchFeedback>;
+  // Newest first
+  listFeedback(filter: FeedbackFilter): Promise<MatchFeedback[]>;
+}
+
+// What a catalog without stored similarity settings uses
+const DEFAULT_SIMILARITY: CatalogSimilarity = { metric: "cosine", normalization: "none" };
+
+export type NewMatchFeedback = MatchFeedbackInput & { correct: boolean; actions: FeedbackAction[] };
+
+// Every stored vector must come from the same model, with the same dimension
+function checkVectors(model: EmbeddingModel | null, vectors: number[][], requested?: EmbeddingModel): EmbeddingModel {
+  const effective = model ?? requested;
+  if (!effective) {
+    throw new CatalogStorageError("The catalog is empty; include embeddingModel with the first product", 400);
+  }
+  if (model && requested && (requested.id !== model.id || requested.dimension !== model.dimension)) {
+    throw new CatalogStorageError(
+      `The catalog uses ${model.id} (${model.dimension} dimensions), not ${requested.id} (${requested.dimension})`,
+      409,
+    );
+  }
+  vectors.forEach((vector, i) => {
+    if (vector.length !== effective.dimension) {
+      throw new CatalogStorageError(
+        `Vector ${i} has ${vector.length} dimensions, the catalog uses ${effective.dimension}`,
+        400,
+      );
+    }
+  });
+  return effective;
+}
+
+// An EAN identifies a single product; the database also enforces this with a unique column
+function assertUniqueEans(products: Iterable<Pick<CatalogProduct, "id" | "ean">>): void {
+  const owners = new Map<string, string>();
+  for (const product of Array.from(products)) {
+    if (!product.ean) continue;
+    const owner = owners.get(product.ean);
+    if (owner !== undefined && owner !== product.id) {
+      throw new CatalogStorageError(`EAN ${product.ean} is already used by product ${owner}`, 409);
+    }
+    owners.set(product.ean, product.id);
+  }
+}
+
+function matchesQuery(product: CatalogProduct, query: ProductListQuery): boolean {
+  const equalsIgnoringCase = (value: string | undefined, expected: string) =>
+    value !== undefined && value.toLowerCase() === expected.toLowerCase();
+
+  if (query.brand && !equalsIgnoringCase(product.brand, query.brand)) return false;
+  if (query.flavor && !equalsIgnoringCase(product.flavor, query.flavor)) return false;
+  if (query.format && product.format !== query.format) return false;
+  if (query.search) {
+    const needle = query.search.toLowerCase();
+    const haystack = [product.name, product.brand, product.flavor, product.ean];
+    if (!haystack.some((value) => value?.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+function summarize(product: CatalogProduct, includeVectors: boolean | undefined) {
+  if (includeVectors) return product;
+  const { vectors, ...summary } = product;
+  return { ...summary, vectorCount: vectors.length };
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private products: Map<string, CatalogProduct>;
+  private embeddingModel: EmbeddingModel | null;
+  private similarity: CatalogSimilarity | undefined;
+  private feedback: MatchFeedback[];
   currentId: number;
 
   constructor() {
     this.users = new Map();
+    this.products = new Map();
+    this.embeddingModel = null;
+    this.feedback = [];
     this.currentId = 1;
   }
 
@@ -34,6 +160,511 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listProducts(query: ProductListQuery): Promise<ProductListPage> {
+    const matching = Array.from(this.products.values())
+      .filter((product) => matchesQuery(product, query))
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+    return {
+      items: matching
+        .slice(query.offset, query.offset + query.limit)
+        .map((product) => summarize(product, query.includeVectors)),
+      total: matching.length,
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+
+  async getProduct(id: string): Promise<CatalogProduct | undefined> {
+    return this.products.get(id);
+  }
+
+  async createProduct({ embeddingModel, ...product }: CreateProduct): Promise<CatalogProduct> {
+    if (this.products.has(product.id)) {
+      throw new CatalogStorageError(`Product ${product.id} already exists`, 409);
+    }
+    assertUniqueEans([...Array.from(this.products.values()), product]);
+    this.embeddingModel = checkVectors(this.embeddingModel, product.vectors, embeddingModel);
+    this.products.set(product.id, product);
+    return product;
+  }
+
+  async updateProduct(id: string, update: ProductUpdate): Promise<CatalogProduct | undefined> {
+    const existing = this.products.get(id);
+    if (!existing) return undefined;
+    if (update.vectors) checkVectors(this.embeddingModel, update.vectors);
+
+    const updated = { ...existing, ...update, id };
+    assertUniqueEans([...Array.from(this.products.values()).filter((product) => product.id !== id), updated]);
+    this.products.set(id, updated);
+    return updated;
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    const deleted = this.products.delete(id);
+    if (this.products.size === 0) this.embeddingModel = null;
+    return deleted;
+  }
+
+  async addProductView(id: string, view: AddProductView): Promise<CatalogProduct | undefined> {
+    const existing = this.products.get(id);
+    if (!existing) return undefined;
+    checkVectors(this.embeddingModel, [view.vector]);
+
+    const updated: CatalogProduct = {
+      ...existing,
+      vectors: [...existing.vectors, view.vector],
+      referenceImages: view.referenceImage
+        ? [...existing.referenceImages, view.referenceImage]
+        : existing.referenceImages,
+    };
+    this.products.set(id, updated);
+    return updated;
+  }
+
+  async importCatalog(catalog: ProductCatalog, mode: ImportMode): Promise<ImportResult> {
+    // Validate before clearing anything so a rejected import leaves the catalog intact
+    const model = checkVectors(
+      mode === "replace" ? null : this.embeddingModel,
+      catalog.products.flatMap((product) => product.vectors),
+      catalog.embeddingModel,
+    );
+    const merged = new Map(mode === "replace" ? [] : Array.from(this.products));
+    catalog.products.forEach((product) => merged.set(product.id, product));
+    assertUniqueEans(merged.values());
+    if (mode === "replace") this.products.clear();
+    this.embeddingModel = model;
+    // A merged file without settings keeps the current ones
+    if (mode === "replace" || catalog.similarity) this.similarity = catalog.similarity;
+
+    let created = 0;
+    let updated = 0;
+    for (const product of catalog.products) {
+      if (this.products.has(product.id)) updated++;
+      else created++;
+      this.products.set(product.id, product);
+    }
+
+    return { created, updated, total: this.products.size };
+  }
+
+  async getCatalog(): Promise<ProductCatalog | null> {
+    if (!this.embeddingModel) return null;
+    return {
+      version: CATALOG_VERSION,
+      embeddingModel: this.embeddingModel,
+      similarity: this.similarity,
+      products: Array.from(this.products.values()),
+    };
+  }
+
+  async getSimilarity(): Promise<CatalogSimilarity | undefined> {
+    return this.similarity;
+  }
+
+  async setMatchCalibration(calibration: MatchCalibration): Promise<void> {
+    this.similarity = withCalibration(this.similarity ?? DEFAULT_SIMILARITY, calibration);
+  }
+
+  async addFeedback(feedback: NewMatchFeedback): Promise<MatchFeedback> {
+    const stored: MatchFeedback = {
+      ...feedback,
+      id: this.feedback.length + 1,
+      createdAt: new Date().toISOString(),
+    };
+    this.feedback.push(stored);
+    return stored;
+  }
+
+  async listFeedback(filter: FeedbackFilter): Promise<MatchFeedback[]> {
+    const since = filter.since?.toISOString();
+    const matching = this.feedback
+      .filter((feedback) =>
+        !filter.productId ||
+        feedback.predictedProductId === filter.productId ||
+        feedback.correctProductId === filter.productId,
+      )
+      .filter((feedback) => !since || feedback.createdAt >= since)
+      .reverse();
+    return filter.limit ? matching.slice(0, filter.limit) : matching;
+  }
+}
+
+// Undefined columns are stored as NULL and read back as absent fields
+function toProductRow(product: Omit<CatalogProduct, "vectors">) {
+  return {
+    id: product.id,
+    name: product.name,
+    brand: product.brand ?? null,
+    flavor: product.flavor ?? null,
+    strengthMgPerGram: product.strength?.mgPerGram ?? null,
+    strengthMgPerPouch: product.strength?.mgPerPouch ?? null,
+    strengthLabel: product.strength?.label ?? null,
+    pouchCount: product.pouchCount ?? null,
+    format: product.format ?? null,
+    ean: product.ean ?? null,
+    referenceImages: product.referenceImages,
+    threshold: product.threshold ?? null,
+  };
+}
+
+// Each product's vectors in view order, grouped in one pass over the rows
+function groupVectors(vectorRows: ProductVectorRow[]): Map<string, number[][]> {
+  const grouped = new Map<string, ProductVectorRow[]>();
+  for (const vectorRow of vectorRows) {
+    const rows = grouped.get(vectorRow.productId);
+    if (rows) rows.push(vectorRow);
+    else grouped.set(vectorRow.productId, [vectorRow]);
+  }
+  return new Map(
+    Array.from(grouped, ([productId, rows]) => [
+      productId,
+      rows.sort((a, b) => a.view - b.view).map((vectorRow) => vectorRow.vector),
+    ]),
+  );
+}
+
+function fromProductRow(row: Product, vectors: Map<string, number[][]>): CatalogProduct {
+  const strength = {
+    mgPerGram: row.strengthMgPerGram ?? undefined,
+    mgPerPouch: row.strengthMgPerPouch ?? undefined,
+    label: row.strengthLabel ?? undefined,
+  };
+  const hasStrength = Object.values(strength).some((value) => value !== undefined);
+
+  return {
+    id: row.id,
+    name: row.name,
+    brand: row.brand ?? undefined,
+    flavor: row.flavor ?? undefined,
+    strength: hasStrength ? strength : undefined,
+    pouchCount: row.pouchCount ?? undefined,
+    format: row.format ?? undefined,
+    ean: row.ean ?? undefined,
+    referenceImages: row.referenceImages,
+    threshold: row.threshold ?? undefined,
+    vectors: vectors.get(row.id) ?? [],
+  };
+}
+
+function toVectorRows(productId: string, model: EmbeddingModel, vectors: number[][]) {
+  return vectors.map((vector, view) => ({
+    productId,
+    view,
+    modelId: model.id,
+    dimension: model.dimension,
+    vector,
+  }));
+}
+
+function fromFeedbackRow(row: MatchFeedbackRow): MatchFeedback {
+  return {
+    id: row.id,
+    createdAt: row.createdAt.toISOString(),
+    decision: row.decision,
+    predictedProductId: row.predictedProductId,
+    verdict: row.verdict,
+    correctProductId: row.correctProductId ?? undefined,
+    confidence: row.confidence,
+    threshold: row.threshold,
+    correct: row.correct,
+    candidates: row.candidates,
+    metric: row.metric ?? undefined,
+    normalization: row.normalization ?? undefined,
+    vector: row.vector ?? undefined,
+    ocrText: row.ocrText ?? undefined,
+    actions: row.actions,
+  };
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  private async getEmbeddingModel(db: Pick<Database, "select"> = this.db): Promise<EmbeddingModel | null> {
+    const [row] = await db
+      .select({ id: productVectors.modelId, dimension: productVectors.dimension })
+      .from(productVectors)
+      .limit(1);
+    return row ?? null;
+  }
+
+  // Rejects an EAN that already belongs to another product
+  private async assertEanAvailable(db: Pick<Database, "select">, ean: string | undefined, productId: string) {
+    if (!ean) return;
+    const [owner] = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.ean, ean), ne(products.id, productId)))
+      .limit(1);
+    if (owner) throw new CatalogStorageError(`EAN ${ean} is already used by product ${owner.id}`, 409);
+  }
+
+  private async loadVectors(productIds: string[]): Promise<Map<string, number[][]>> {
+    if (productIds.length === 0) return new Map();
+    return groupVectors(
+      await this.db.select().from(productVectors).where(inArray(productVectors.productId, productIds)),
+    );
+  }
+
+  async listProducts(query: ProductListQuery): Promise<ProductListPage> {
+    const conditions: SQL[] = [];
+    // Exact, case-insensitive matches like MemStorage; the values are not LIKE patterns
+    if (query.brand) conditions.push(sql`lower(${products.brand}) = lower(${query.brand})`);
+    if (query.flavor) conditions.push(sql`lower(${products.flavor}) = lower(${query.flavor})`);
+    if (query.format) conditions.push(eq(products.format, query.format));
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+      conditions.push(
+        or(
+          ilike(products.name, pattern),
+          ilike(products.brand, pattern),
+          ilike(products.flavor, pattern),
+          ilike(products.ean, pattern),
+        )!,
+      );
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await this.db.select({ total: count() }).from(products).where(where);
+    const rows = await this.db
+      .select()
+      .from(products)
+      .where(where)
+      .orderBy(asc(products.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    const vectors = await this.loadVectors(rows.map((row) => row.id));
+
+    return {
+      items: rows.map((row) => summarize(fromProductRow(row, vectors), query.includeVectors)),
+      total,
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+
+  async getProduct(id: string): Promise<CatalogProduct | undefined> {
+    const [row] = await this.db.select().from(products).where(eq(products.id, id));
+    if (!row) return undefined;
+    return fromProductRow(row, await this.loadVectors([id]));
+  }
+
+  async createProduct({ embeddingModel, ...product }: CreateProduct): Promise<CatalogProduct> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select({ id: products.id }).from(products).where(eq(products.id, product.id));
+      if (existing) throw new CatalogStorageError(`Product ${product.id} already exists`, 409);
+      await this.assertEanAvailable(tx, product.ean, product.id);
+
+      const model = checkVectors(await this.getEmbeddingModel(tx), product.vectors, embeddingModel);
+      await tx.insert(products).values(toProductRow(product));
+      await tx.insert(productVectors).values(toVectorRows(product.id, model, product.vectors));
+      return product;
+    });
+  }
+
+  async updateProduct(id: string, update: ProductUpdate): Promise<CatalogProduct | undefined> {
+    const existing = await this.getProduct(id);
+    if (!existing) return undefined;
+    const updated: CatalogProduct = { ...existing, ...update, id };
+
+    await this.db.transaction(async (tx) => {
+      await this.assertEanAvailable(tx, update.ean, id);
+      const { vectors, ...metadata } = updated;
+      await tx
+        .update(products)
+        .set({ ...toProductRow(metadata), updatedAt: sql`now()` })
+        .where(eq(products.id, id));
+
+      if (update.vectors) {
+        const model = checkVectors(await this.getEmbeddingModel(tx), vectors);
+        await tx.delete(productVectors).where(eq(productVectors.productId, id));
+        await tx.insert(productVectors).values(toVectorRows(id, model, vectors));
+      }
+    });
+
+    return updated;
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    // Vectors are removed by the cascading foreign key
+    const deleted = await this.db.delete(products).where(eq(products.id, id)).returning({ id: products.id });
+    return deleted.length > 0;
+  }
+
+  async addProductView(id: string, view: AddProductView): Promise<CatalogProduct | undefined> {
+    const added = await this.db.transaction(async (tx) => {
+      const [row] = await tx.select({ id: products.id }).from(products).where(eq(products.id, id)).for("update");
+      if (!row) return false;
+
+      const model = checkVectors(await this.getEmbeddingModel(tx), [view.vector]);
+      const [{ views }] = await tx
+        .select({ views: count() })
+        .from(productVectors)
+        .where(eq(productVectors.productId, id));
+      await tx.insert(productVectors).values({ ...toVectorRows(id, model, [view.vector])[0], view: views });
+
+      await tx
+        .update(products)
+        .set({
+          referenceImages: view.referenceImage
+            ? sql`${products.referenceImages} || ${JSON.stringify([view.referenceImage])}::jsonb`
+            : products.referenceImages,
+          updatedAt: sql`now()`,
+        })
+        .where(eq(products.id, id));
+      return true;
+    });
+
+    return added ? this.getProduct(id) : undefined;
+  }
+
+  async importCatalog(catalog: ProductCatalog, mode: ImportMode): Promise<ImportResult> {
+    return this.db.transaction(async (tx) => {
+      if (mode === "replace") await tx.delete(products);
+      if (catalog.similarity) {
+        await tx
+          .insert(catalogSettings)
+          .values({ key: "similarity", value: catalog.similarity })
+          .onConflictDoUpdate({ target: catalogSettings.key, set: { value: catalog.similarity } });
+      } else if (mode === "replace") {
+        await tx.delete(catalogSettings).where(eq(catalogSettings.key, "similarity"));
+      }
+
+      const model = checkVectors(
+        await this.getEmbeddingModel(tx),
+        catalog.products.flatMap((product) => product.vectors),
+        catalog.embeddingModel,
+      );
+
+      const ids = catalog.products.map((product) => product.id);
+      const existing = ids.length > 0
+        ? await tx.select({ id: products.id }).from(products).where(inArray(products.id, ids))
+        : [];
+      const existingIds = new Set(existing.map((row) => row.id));
+
+      // EANs must be unique within the file and against the products it doesn't replace
+      assertUniqueEans(catalog.products);
+      const eans = catalog.products.flatMap((product) => (product.ean ? [product.ean] : []));
+      if (eans.length > 0) {
+        const [taken] = await tx
+          .select({ id: products.id, ean: products.ean })
+          .from(products)
+          .where(and(inArray(products.ean, eans), notInArray(products.id, ids)))
+          .limit(1);
+        if (taken) throw new CatalogStorageError(`EAN ${taken.ean} is already used by product ${taken.id}`, 409);
+        // Imported products may swap EANs; clear theirs first so the unique column isn't hit midway
+        if (existingIds.size > 0) {
+          await tx.update(products).set({ ean: null }).where(inArray(products.id, Array.from(existingIds)));
+        }
+      }
+
+      for (const { vectors, ...product } of catalog.products) {
+        const row = toProductRow(product);
+        await tx
+          .insert(products)
+          .values(row)
+          .onConflictDoUpdate({ target: products.id, set: { ...row, updatedAt: sql`now()` } });
+        await tx.delete(productVectors).where(eq(productVectors.productId, product.id));
+        await tx.insert(productVectors).values(toVectorRows(product.id, model, vectors));
+      }
+
+      const [{ total }] = await tx.select({ total: count() }).from(products);
+      return {
+        created: ids.filter((id) => !existingIds.has(id)).length,
+        updated: existingIds.size,
+        total,
+      };
+    });
+  }
+
+  async getCatalog(): Promise<ProductCatalog | null> {
+    const model = await this.getEmbeddingModel();
+    if (!model) return null;
+
+    const rows = await this.db.select().from(products).orderBy(asc(products.id));
+    const vectors = groupVectors(await this.db.select().from(productVectors));
+    const [settings] = await this.db.select().from(catalogSettings).where(eq(catalogSettings.key, "similarity"));
+    return {
+      version: CATALOG_VERSION,
+      embeddingModel: model,
+      similarity: settings?.value,
+      products: rows.map((row) => fromProductRow(row, vectors)),
+    };
+  }
+
+  async getSimilarity(): Promise<CatalogSimilarity | undefined> {
+    const [settings] = await this.db.select().from(catalogSettings).where(eq(catalogSettings.key, "similarity"));
+    return settings?.value;
+  }
+
+  async setMatchCalibration(calibration: MatchCalibration): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const [settings] = await tx
+        .select()
+        .from(catalogSettings)
+        .where(eq(catalogSettings.key, "similarity"))
+        .for("update");
+      const value = withCalibration(settings?.value ?? DEFAULT_SIMILARITY, calibration);
+      await tx
+        .insert(catalogSettings)
+        .values({ key: "similarity", value })
+        .onConflictDoUpdate({ target: catalogSettings.key, set: { value } });
+    });
+  }
+
+  async addFeedback(feedback: NewMatchFeedback): Promise<MatchFeedback> {
+    const [row] = await this.db
+      .insert(matchFeedback)
+      .values({
+        ...feedback,
+        correctProductId: feedback.correctProductId ?? null,
+        metric: feedback.metric ?? null,
+        normalization: feedback.normalization ?? null,
+        vector: feedback.vector ?? null,
+        ocrText: feedback.ocrText ?? null,
+      })
+      .returning();
+    return fromFeedbackRow(row);
+  }
+
+  async listFeedback(filter: FeedbackFilter): Promise<MatchFeedback[]> {
+    const conditions: SQL[] = [];
+    if (filter.productId) {
+      conditions.push(
+        or(
+          eq(matchFeedback.predictedProductId, filter.productId),
+          eq(matchFeedback.correctProductId, filter.productId),
+        )!,
+      );
+    }
+    if (filter.since) conditions.push(gte(matchFeedback.createdAt, filter.since));
+
+    const query = this.db
+      .select()
+      .from(matchFeedback)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(matchFeedback.createdAt), desc(matchFeedback.id));
+    const rows = filter.limit ? await query.limit(filter.limit) : await query;
+    return rows.map(fromFeedbackRow);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
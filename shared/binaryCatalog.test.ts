@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { catalogEntryId, decodeBinaryCatalog, encodeBinaryCatalog } from "./binaryCatalog";
+import { CATALOG_VERSION, parseCatalog, ProductCatalog } from "./catalog";
+
+const DIMENSION = 8;
+
+function vector(seed: number): number[] {
+  return Array.from({ length: DIMENSION }, (_, i) => Math.sin(seed * 7 + i) * 0.5 + 0.5);
+}
+
+const CATALOG: ProductCatalog = {
+  version: CATALOG_VERSION,
+  embeddingModel: { id: "test-v1", dimension: DIMENSION },
+  similarity: {
+    metric: "l2",
+    normalization: "none",
+    calibrations: [{ metric: "l2", normalization: "none", slope: 20, midpoint: 0.8, samples: 40, source: "references" }],
+  },
+  products: [
+    { id: "P1", name: "Mint", brand: "Acme", ean: "96385074", referenceImages: ["/data/references/P1.jpg"], vectors: [vector(1)] },
+    { id: "P2", name: "Berry", referenceImages: [], threshold: 0.7, vectors: [vector(2), vector(3)] },
+  ],
+};
+
+describe("catalogEntryId", () => {
+  it("names extra views after the product", () => {
+    expect(catalogEntryId("P1", 0)).toBe("P1");
+    expect(catalogEntryId("P1", 2)).toBe("P1#2");
+  });
+});
+
+describe("binary catalog", () => {
+  it("round-trips metadata and float32 vectors", () => {
+    const { catalog, index } = decodeBinaryCatalog(encodeBinaryCatalog(CATALOG, { quantization: "float32" }));
+    const result = parseCatalog(catalog);
+    if (!result.success) throw new Error(JSON.stringify(result.errors));
+
+    expect(index.metric).toBe("l2");
+    expect(index.ids().sort()).toEqual(["P1", "P2", "P2#1"]);
+    expect(result.catalog.similarity).toEqual(CATALOG.similarity);
+    result.catalog.products.forEach((product, i) => {
+      const { vectors, ...metadata } = CATALOG.products[i];
+      expect(product).toMatchObject(metadata);
+      product.vectors.forEach((decoded, view) => {
+        decoded.forEach((value, d) => expect(value).toBeCloseTo(vectors[view][d], 6));
+      });
+    });
+  });
+
+  it("reconstructs int8 vectors closely", () => {
+    const { catalog } = decodeBinaryCatalog(encodeBinaryCatalog(CATALOG, { quantization: "int8" }));
+    const result = parseCatalog(catalog);
+    if (!result.success) throw new Error(JSON.stringify(result.errors));
+    result.catalog.products[1].vectors[1].forEach((value, d) =>
+      expect(Math.abs(value - CATALOG.products[1].vectors[1][d])).toBeLessThan(0.01)
+    );
+  });
+
+  it("rejects other files", () => {
+    expect(() => decodeBinaryCatalog(new TextEncoder().encode('{"version":2}').buffer)).toThrow(
+      "Not a binary catalog file"
+    );
+  });
+});
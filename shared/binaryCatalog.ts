@@ -0,0 +1,109 @@
+/**
+ * Binary Catalog Format
+ * A compact alternative to the JSON catalog for downloads: product metadata stays
+ * JSON, while the vectors are stored once, quantized, in a QuantizedIndex section
+ * that the client can search directly. Decoding yields a regular catalog object
+ * (vectors reconstructed from their codes) for the usual validation and migrations.
+ *
+ * Layout: magic, format version, metadata JSON (u32 length), index section (u32 length).
+ */
+
+import type { CatalogProduct, ProductCatalog } from "./catalog";
+import { ByteReader, ByteWriter } from "./binaryIO";
+import { deserializeVectorIndex, QuantizedIndex } from "./vectorIndex";
+import type { QuantizationOptions } from "./vectorQuantization";
+import type { IndexMetric } from "./similarityMetrics";
+
+const CATALOG_MAGIC = 0x4e505643; // "NPVC"
+const CATALOG_FORMAT_VERSION = 1;
+
+type ProductMetadata = Omit<CatalogProduct, "vectors"> & { viewCount: number };
+
+/**
+ * Index entry id of a product view: "<product id>" for the main vector and
+ * "<product id>#<n>" for extra views
+ */
+export function catalogEntryId(productId: string, view: number): string {
+  return view === 0 ? productId : `${productId}#${view}`;
+}
+
+// The kernel the stored codes are searched with; Mahalanobis catalogs are re-indexed on load anyway
+function catalogKernel(catalog: ProductCatalog): IndexMetric {
+  const metric = catalog.similarity?.metric ?? "cosine";
+  return metric === "mahalanobis" ? "l2" : metric;
+}
+
+/**
+ * Encode a catalog in the binary format
+ *
+ * @param catalog A validated catalog
+ * @param options The vector encoding; the quantizer is trained on the catalog's own vectors
+ * @returns The file contents
+ */
+export function encodeBinaryCatalog(
+  catalog: ProductCatalog,
+  options: Partial<QuantizationOptions> = {}
+): ArrayBuffer {
+  const index = new QuantizedIndex(options, catalogKernel(catalog));
+  index.train(catalog.products.flatMap(product => product.vectors));
+  catalog.products.forEach(product =>
+    product.vectors.forEach((vector, view) => index.add(catalogEntryId(product.id, view), vector))
+  );
+
+  const { products, ...header } = catalog;
+  const metadata = {
+    ...header,
+    products: products.map(({ vectors, ...product }): ProductMetadata => ({ ...product, viewCount: vectors.length })),
+  };
+
+  const vectors = new Uint8Array(index.serialize());
+  const writer = new ByteWriter();
+  writer.u32(CATALOG_MAGIC);
+  writer.u8(CATALOG_FORMAT_VERSION);
+  writer.longString(JSON.stringify(metadata));
+  writer.u32(vectors.length);
+  writer.bytes(vectors);
+  return writer.finish();
+}
+
+/**
+ * Decode a binary catalog
+ *
+ * @param buffer The file contents
+ * @returns The catalog, not yet validated, with vectors reconstructed from their codes,
+ *   and the quantized index of its vectors
+ * @throws Error if the file is not a valid binary catalog
+ */
+export function decodeBinaryCatalog(buffer: ArrayBuffer): { catalog: unknown; index: QuantizedIndex } {
+  const reader = new ByteReader(buffer, "Catalog file");
+  if (buffer.byteLength < 5 || reader.u32() !== CATALOG_MAGIC) {
+    throw new Error("Not a binary catalog file");
+  }
+  const version = reader.u8();
+  if (version !== CATALOG_FORMAT_VERSION) {
+    throw new Error(`Unsupported binary catalog version ${version}`);
+  }
+
+  const { products, ...header } = JSON.parse(reader.longString());
+  const index = deserializeVectorIndex(reader.section(reader.u32()));
+  if (!(index instanceof QuantizedIndex)) {
+    throw new Error("Binary catalog vectors are not quantized");
+  }
+  if (!Array.isArray(products)) {
+    throw new Error("Binary catalog has no product list");
+  }
+
+  const catalog = {
+    ...header,
+    products: products.map(({ viewCount, ...product }: ProductMetadata) => ({
+      ...product,
+      vectors: Array.from({ length: viewCount }, (_, view) => {
+        const vector = index.reconstruct(catalogEntryId(product.id, view));
+        if (!vector) throw new Error(`Binary catalog is missing view ${view} of product ${product.id}`);
+        return vector;
+      }),
+    })),
+  };
+
+  return { catalog, index };
+}
@@ -0,0 +1,115 @@
+/**
+ * Binary Readers and Writers
+ * Little-endian primitives shared by the vector index and binary catalog file formats.
+ */
+
+/**
+ * Growable little-endian byte writer
+ */
+export class ByteWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+    let capacity = this.buffer.byteLength * 2;
+    while (capacity < this.offset + bytes) capacity *= 2;
+    const next = new ArrayBuffer(capacity);
+    new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+
+  u8(value: number) { this.ensure(1); this.view.setUint8(this.offset, value); this.offset += 1; }
+  u16(value: number) { this.ensure(2); this.view.setUint16(this.offset, value, true); this.offset += 2; }
+  u32(value: number) { this.ensure(4); this.view.setUint32(this.offset, value, true); this.offset += 4; }
+  i32(value: number) { this.ensure(4); this.view.setInt32(this.offset, value, true); this.offset += 4; }
+
+  f32Array(values: Float32Array) {
+    this.ensure(values.length * 4);
+    for (let i = 0; i < values.length; i++) {
+      this.view.setFloat32(this.offset, values[i], true);
+      this.offset += 4;
+    }
+  }
+
+  bytes(values: Uint8Array) {
+    this.ensure(values.length);
+    new Uint8Array(this.buffer, this.offset, values.length).set(values);
+    this.offset += values.length;
+  }
+
+  // Strings up to 64 KiB, e.g. ids
+  string(value: string) {
+    const bytes = new TextEncoder().encode(value);
+    this.u16(bytes.length);
+    this.bytes(bytes);
+  }
+
+  // Strings of any length, e.g. embedded JSON
+  longString(value: string) {
+    const bytes = new TextEncoder().encode(value);
+    this.u32(bytes.length);
+    this.bytes(bytes);
+  }
+
+  finish(): ArrayBuffer {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+export class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  /**
+   * @param buffer The file contents
+   * @param label What the file is, for error messages
+   */
+  constructor(private buffer: ArrayBuffer, private label: string = "File") {
+    this.view = new DataView(buffer);
+  }
+
+  private check(bytes: number) {
+    if (this.offset + bytes > this.buffer.byteLength) {
+      throw new Error(`${this.label} is truncated`);
+    }
+  }
+
+  u8() { this.check(1); const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+  u16() { this.check(2); const v = this.view.getUint16(this.offset, true); this.offset += 2; return v; }
+  u32() { this.check(4); const v = this.view.getUint32(this.offset, true); this.offset += 4; return v; }
+  i32() { this.check(4); const v = this.view.getInt32(this.offset, true); this.offset += 4; return v; }
+
+  f32Array(length: number): Float32Array {
+    this.check(length * 4);
+    const out = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      out[i] = this.view.getFloat32(this.offset, true);
+      this.offset += 4;
+    }
+    return out;
+  }
+
+  // Copies, so the result is aligned and independent of the file buffer
+  bytes(length: number): Uint8Array {
+    this.check(length);
+    const out = new Uint8Array(this.buffer.slice(this.offset, this.offset + length));
+    this.offset += length;
+    return out;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes(this.u16()));
+  }
+
+  longString(): string {
+    return new TextDecoder().decode(this.bytes(this.u32()));
+  }
+
+  // Contents of a nested file written with ByteWriter.bytes() after its length
+  section(length: number): ArrayBuffer {
+    return this.bytes(length).buffer as ArrayBuffer;
+  }
+}
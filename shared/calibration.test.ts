@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { CatalogSimilarity, MatchCalibration } from "./catalog";
+import {
+  CalibrationSample,
+  findCalibration,
+  fitCalibration,
+  fitMatchCalibration,
+  MIN_CALIBRATION_SAMPLES,
+  withCalibration,
+} from "./calibration";
+
+// Seeded generator so fits are reproducible
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+}
+
+function logisticSamples(count: number, slope: number, midpoint: number): CalibrationSample[] {
+  const next = random(7);
+  return Array.from({ length: count }, () => {
+    const score = next();
+    return { score, positive: next() < 1 / (1 + Math.exp(-slope * (score - midpoint))) };
+  });
+}
+
+const calibration = (metric: MatchCalibration["metric"], midpoint: number): MatchCalibration => ({
+  metric,
+  normalization: "none",
+  slope: 20,
+  midpoint,
+  samples: 100,
+  source: "references",
+});
+
+describe("fitCalibration", () => {
+  it("recovers the logistic the scores were drawn from", () => {
+    const fit = fitCalibration(logisticSamples(2000, 12, 0.6));
+    expect(fit).not.toBeNull();
+    expect(fit!.slope).toBeGreaterThan(10);
+    expect(fit!.slope).toBeLessThan(14);
+    expect(fit!.midpoint).toBeCloseTo(0.6, 1);
+  });
+
+  it("keeps the slope finite when the scores separate the classes", () => {
+    const samples = [0.9, 0.95, 0.97, 0.92, 0.3, 0.4, 0.5, 0.45, 0.35, 0.6].map((score, i) => ({
+      score,
+      positive: i < 4,
+    }));
+    const fit = fitCalibration(samples)!;
+    expect(Number.isFinite(fit.slope)).toBe(true);
+    expect(fit.midpoint).toBeGreaterThan(0.6);
+    expect(fit.midpoint).toBeLessThan(0.9);
+  });
+
+  it("needs enough samples of both classes", () => {
+    const few = logisticSamples(MIN_CALIBRATION_SAMPLES - 1, 12, 0.6);
+    expect(fitCalibration(few)).toBeNull();
+    const onlyRight = logisticSamples(50, 12, 0.6).map(sample => ({ ...sample, positive: true }));
+    expect(fitCalibration(onlyRight)).toBeNull();
+  });
+
+  it("rejects scores that are higher for wrong matches", () => {
+    const inverted = logisticSamples(200, 12, 0.6).map(sample => ({ ...sample, positive: !sample.positive }));
+    expect(fitCalibration(inverted)).toBeNull();
+  });
+});
+
+describe("fitMatchCalibration", () => {
+  it("labels the fit with its metric, source and sample count", () => {
+    const fitted = fitMatchCalibration(logisticSamples(300, 12, 0.6), {
+      metric: "l2",
+      normalization: "zscore",
+      source: "feedback",
+    });
+    expect(fitted).toMatchObject({ metric: "l2", normalization: "zscore", source: "feedback", samples: 300 });
+  });
+});
+
+describe("findCalibration", () => {
+  const similarity: CatalogSimilarity = {
+    metric: "l2",
+    normalization: "none",
+    calibrations: [calibration("cosine", 0.8), calibration("l2", 0.7)],
+  };
+
+  it("picks the calibration of the metric and normalization in use", () => {
+    expect(findCalibration(similarity)?.midpoint).toBe(0.7);
+    expect(findCalibration({ ...similarity, normalization: "zscore" })).toBeNull();
+  });
+
+  it("defaults to cosine without normalization", () => {
+    expect(findCalibration(undefined)).toBeNull();
+    expect(findCalibration({ metric: "cosine", normalization: "none", calibrations: similarity.calibrations })?.midpoint)
+      .toBe(0.8);
+  });
+});
+
+describe("withCalibration", () => {
+  it("replaces the calibration of the same metric and normalization only", () => {
+    const similarity: CatalogSimilarity = {
+      metric: "cosine",
+      normalization: "none",
+      calibrations: [calibration("cosine", 0.8), calibration("l2", 0.7)],
+    };
+    const updated = withCalibration(similarity, calibration("cosine", 0.75));
+    expect(updated.calibrations).toHaveLength(2);
+    expect(findCalibration(updated)?.midpoint).toBe(0.75);
+    expect(similarity.calibrations![0].midpoint).toBe(0.8);
+  });
+});
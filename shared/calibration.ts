@@ -0,0 +1,144 @@
+/**
+ * Match Calibration
+ * Fits the logistic mapping from a match score to the probability that the match
+ * is right (Platt scaling) from scores labeled right or wrong. Each metric and
+ * normalization gets its own fit, since their scores are on different scales.
+ */
+
+import type { CatalogSimilarity, MatchCalibration } from "./catalog";
+
+export interface CalibrationSample {
+  score: number;
+  positive: boolean; // Whether the scored product was the photographed one
+}
+
+export interface LogisticFit {
+  slope: number;
+  midpoint: number; // Score that maps to 50%
+}
+
+// Fewer labeled scores say too little about the shape of the mapping
+export const MIN_CALIBRATION_SAMPLES = 10;
+
+const MAX_ITERATIONS = 100;
+const MIN_STEP = 1e-10;
+const GRADIENT_TOLERANCE = 1e-5;
+// Keeps the Newton system solvable when all scores are equal
+const HESSIAN_RIDGE = 1e-12;
+
+// log(1 + e^x) without overflow
+function softplus(x: number): number {
+  return x > 0 ? x + Math.log1p(Math.exp(-x)) : Math.log1p(Math.exp(x));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Fit p = 1 / (1 + e^(-slope · (score - midpoint))) to labeled scores, using Newton's
+ * method with backtracking as in Lin, Lin and Weng's version of Platt scaling. Targets
+ * are pulled toward 0.5 by the class sizes, so scores that separate the classes
+ * perfectly still give a finite slope.
+ *
+ * @returns The fit, or null without enough samples of both classes or when higher
+ *   scores aren't more likely to be right
+ */
+export function fitCalibration(samples: CalibrationSample[]): LogisticFit | null {
+  const positives = samples.filter(sample => sample.positive).length;
+  const negatives = samples.length - positives;
+  if (samples.length < MIN_CALIBRATION_SAMPLES || positives === 0 || negatives === 0) return null;
+
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  const targets = samples.map(sample => (sample.positive ? high : low));
+  // Cross-entropy of the logistic with parameters a (slope) and b (intercept)
+  const loss = (a: number, b: number) =>
+    samples.reduce((sum, { score }, i) => {
+      const z = a * score + b;
+      return sum + targets[i] * softplus(-z) + (1 - targets[i]) * softplus(z);
+    }, 0);
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+  let value = loss(a, b);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let gradientA = 0;
+    let gradientB = 0;
+    let hessianAA = HESSIAN_RIDGE;
+    let hessianAB = 0;
+    let hessianBB = HESSIAN_RIDGE;
+    samples.forEach(({ score }, i) => {
+      const p = sigmoid(a * score + b);
+      const weight = p * (1 - p);
+      gradientA += (p - targets[i]) * score;
+      gradientB += p - targets[i];
+      hessianAA += weight * score * score;
+      hessianAB += weight * score;
+      hessianBB += weight;
+    });
+    if (Math.abs(gradientA) < GRADIENT_TOLERANCE && Math.abs(gradientB) < GRADIENT_TOLERANCE) break;
+
+    const determinant = hessianAA * hessianBB - hessianAB * hessianAB;
+    const stepA = -(hessianBB * gradientA - hessianAB * gradientB) / determinant;
+    const stepB = -(hessianAA * gradientB - hessianAB * gradientA) / determinant;
+    const descent = gradientA * stepA + gradientB * stepB;
+
+    let step = 1;
+    while (step >= MIN_STEP) {
+      const next = loss(a + step * stepA, b + step * stepB);
+      if (next < value + 1e-4 * step * descent) {
+        a += step * stepA;
+        b += step * stepB;
+        value = next;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < MIN_STEP) break;
+  }
+
+  if (!(a > 0)) return null;
+  return { slope: a, midpoint: -b / a };
+}
+
+/**
+ * Fit a calibration for one metric and normalization, rounded for storage
+ *
+ * @returns The calibration, or null if the samples can't be fitted (see fitCalibration)
+ */
+export function fitMatchCalibration(
+  samples: CalibrationSample[],
+  key: Pick<MatchCalibration, "metric" | "normalization" | "source">
+): MatchCalibration | null {
+  const fit = fitCalibration(samples);
+  if (!fit) return null;
+  return {
+    ...key,
+    slope: Number(fit.slope.toPrecision(4)),
+    midpoint: Number(fit.midpoint.toFixed(4)),
+    samples: samples.length,
+  };
+}
+
+/**
+ * The stored calibration for the metric and normalization in use, or null if there is none
+ */
+export function findCalibration(similarity: CatalogSimilarity | undefined): MatchCalibration | null {
+  const metric = similarity?.metric ?? "cosine";
+  const normalization = similarity?.normalization ?? "none";
+  return similarity?.calibrations?.find(
+    calibration => calibration.metric === metric && calibration.normalization === normalization
+  ) ?? null;
+}
+
+/**
+ * Similarity settings with the calibration replacing any earlier one for its metric and normalization
+ */
+export function withCalibration(similarity: CatalogSimilarity, calibration: MatchCalibration): CatalogSimilarity {
+  const others = (similarity.calibrations ?? []).filter(
+    existing => existing.metric !== calibration.metric || existing.normalization !== calibration.normalization
+  );
+  return { ...similarity, calibrations: [...others, calibration] };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  CATALOG_VERSION,
+  catalogProductSchema,
+  detectCatalogVersion,
+  formatStrength,
+  parseCatalog,
+  productCatalogSchema,
+} from "./catalog";
+
+const product = (fields: Record<string, unknown> = {}) => ({ id: "P1", name: "Mint", vectors: [[0.1, 0.2]], ...fields });
+
+const catalog = (fields: Record<string, unknown> = {}) => ({
+  version: CATALOG_VERSION,
+  embeddingModel: { id: "test-v1", dimension: 2 },
+  products: [product()],
+  ...fields,
+});
+
+describe("EAN validation", () => {
+  it.each(["4006381333931", "96385074", "5000112548167"])("accepts %s", (ean) => {
+    expect(catalogProductSchema.safeParse(product({ ean })).success).toBe(true);
+  });
+
+  it.each([
+    ["4006381333932", "EAN check digit is invalid"],
+    ["96385075", "EAN check digit is invalid"],
+    ["123456789012", "EAN must have 8 or 13 digits"],
+    ["40063813339a1", "EAN must have 8 or 13 digits"],
+  ])("rejects %s", (ean, message) => {
+    const result = catalogProductSchema.safeParse(product({ ean }));
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe(message);
+  });
+});
+
+describe("detectCatalogVersion", () => {
+  it("recognizes each layout", () => {
+    expect(detectCatalogVersion({ vectors: [] })).toBe(0);
+    expect(detectCatalogVersion({ extractor: "handcrafted-v1", vectors: [] })).toBe(1);
+    expect(detectCatalogVersion(catalog())).toBe(CATALOG_VERSION);
+    expect(detectCatalogVersion({ products: [] })).toBeNull();
+    expect(detectCatalogVersion("catalog")).toBeNull();
+  });
+});
+
+describe("parseCatalog", () => {
+  it("accepts a current catalog as is", () => {
+    const result = parseCatalog(catalog());
+    expect(result).toMatchObject({ success: true, migratedFrom: null });
+  });
+
+  it("migrates a version 0 catalog", () => {
+    const result = parseCatalog({
+      vectors: [[0.1, 0.2, 0.3]],
+      products: [{ id: "P1", name: "Mint", strength: "11mg", threshold: 0.6 }],
+    });
+    if (!result.success) throw new Error(JSON.stringify(result.errors));
+
+    expect(result.migratedFrom).toBe(0);
+    expect(result.catalog.embeddingModel).toEqual({ id: "unknown", dimension: 3 });
+    expect(result.catalog.products[0]).toMatchObject({
+      id: "P1",
+      strength: { mgPerPouch: 11, label: "11mg" },
+      threshold: 0.6,
+      referenceImages: [],
+      vectors: [[0.1, 0.2, 0.3]],
+    });
+  });
+
+  it("migrates a version 1 catalog with its extractor", () => {
+    const result = parseCatalog({
+      extractor: "handcrafted-v1",
+      dimension: 2,
+      vectors: [[0.1, 0.2]],
+      products: [{ id: "P1", name: "Mint", strength: "14 mg/g" }],
+    });
+    if (!result.success) throw new Error(JSON.stringify(result.errors));
+
+    expect(result.migratedFrom).toBe(1);
+    expect(result.catalog.embeddingModel).toEqual({ id: "handcrafted-v1", dimension: 2 });
+    expect(result.catalog.products[0].strength).toEqual({ mgPerGram: 14, label: "14 mg/g" });
+  });
+
+  it("reports legacy products without an id or name", () => {
+    const result = parseCatalog({ vectors: [[0.1], [0.2]], products: [{ id: "P1" }, { name: "Berry" }] });
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        { path: "products.0.name", message: "Product has no name" },
+        { path: "products.1.id", message: "Product has no id" },
+      ],
+    });
+  });
+
+  it("rejects catalogs from a newer version", () => {
+    const result = parseCatalog(catalog({ version: CATALOG_VERSION + 1 }));
+    expect(result.success).toBe(false);
+  });
+
+  it("reports vectors of the wrong dimension and duplicate ids", () => {
+    const result = parseCatalog(catalog({ products: [product(), product({ vectors: [[0.1]] })] }));
+    if (result.success) throw new Error("Expected the catalog to be rejected");
+    expect(result.errors.map((error) => error.path)).toEqual(["products.1.id", "products.1.vectors.0"]);
+  });
+
+  it("needs a covariance of the right size for Mahalanobis", () => {
+    const missing = productCatalogSchema.safeParse(catalog({ similarity: { metric: "mahalanobis" } }));
+    const wrongSize = productCatalogSchema.safeParse(
+      catalog({ similarity: { metric: "mahalanobis", covariance: [[1]] } }),
+    );
+    expect(missing.success).toBe(false);
+    expect(wrongSize.success).toBe(false);
+  });
+});
+
+describe("formatStrength", () => {
+  it("combines per-pouch and per-gram strengths", () => {
+    expect(formatStrength({ mgPerPouch: 11, mgPerGram: 14 })).toBe("11 mg/pouch · 14 mg/g");
+    expect(formatStrength({ label: "Strong" })).toBe("Strong");
+    expect(formatStrength(undefined)).toBeUndefined();
+  });
+});
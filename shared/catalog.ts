@@ -0,0 +1,352 @@
+import { z } from "zod";
+
+// Product catalog file format. Bump CATALOG_VERSION when the shape changes and teach
+// parseCatalog to migrate files of the previous version.
+export const CATALOG_VERSION = 2;
+
+export const productFormats = ["slim", "mini", "large"] as const;
+
+// Catalog ids also name index entries, where "#" separates extra reference views
+const productIdSchema = z.string().min(1).regex(/^[^#]+$/, "Product ids may not contain '#'");
+
+// GTIN-8 / EAN-13 with a valid check digit
+const eanSchema = z.string().regex(/^(\d{8}|\d{13})$/, "EAN must have 8 or 13 digits").refine(
+  (ean) => {
+    const digits = ean.split("").map(Number);
+    const check = digits.pop()!;
+    const sum = digits
+      .reverse()
+      .reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === check;
+  },
+  "EAN check digit is invalid",
+);
+
+export const catalogStrengthSchema = z.object({
+  mgPerGram: z.number().nonnegative().optional(),
+  mgPerPouch: z.number().nonnegative().optional(),
+  label: z.string().optional(), // Wording on the tin, e.g. "Strong" or "Nicotine free"
+});
+
+export const embeddingModelSchema = z.object({
+  id: z.string().min(1),
+  dimension: z.number().int().positive(),
+});
+
+export const similarityMetrics = ["cosine", "l2", "dot", "mahalanobis"] as const;
+export const vectorNormalizations = ["none", "l2", "zscore"] as const;
+
+// Vector encodings of the binary catalog format: full precision, 8 bits per dimension,
+// or product-quantized codes of one byte per subspace
+export const vectorQuantizations = ["float32", "int8", "pq"] as const;
+
+// Where a match calibration's labeled scores came from: jittered crops of the reference
+// photos when the catalog was built, or user feedback on identifications
+export const calibrationSources = ["references", "feedback"] as const;
+
+// Logistic mapping from a match score to the probability that the match is right. Scores of
+// different metrics and normalizations aren't comparable, so each combination has its own.
+export const matchCalibrationSchema = z.object({
+  metric: z.enum(similarityMetrics),
+  normalization: z.enum(vectorNormalizations),
+  slope: z.number().finite().positive(),
+  midpoint: z.number().finite(), // Score that maps to 50% confidence
+  samples: z.number().int().positive(), // Labeled scores it was fitted to
+  source: z.enum(calibrationSources),
+});
+
+// How catalog and query vectors are compared
+export const catalogSimilaritySchema = z.object({
+  metric: z.enum(similarityMetrics).default("cosine"),
+  normalization: z.enum(vectorNormalizations).default("none"), // Applied when the catalog is loaded
+  covariance: z.array(z.array(z.number().finite())).optional(), // Of the normalized vectors, for Mahalanobis
+  calibrations: z.array(matchCalibrationSchema).optional(),
+});
+
+export const catalogProductSchema = z.object({
+  id: productIdSchema,
+  name: z.string().min(1),
+  brand: z.string().min(1).optional(),
+  flavor: z.string().min(1).optional(),
+  strength: catalogStrengthSchema.optional(),
+  pouchCount: z.number().int().positive().optional(),
+  format: z.enum(productFormats).optional(),
+  ean: eanSchema.optional(),
+  referenceImages: z.array(z.string().min(1)).default([]),
+  threshold: z.number().min(0).max(1).optional(), // Minimum match confidence for this product
+  vectors: z.array(z.array(z.number().finite())).min(1), // One per reference view
+});
+
+export const productCatalogSchema = z
+  .object({
+    version: z.literal(CATALOG_VERSION),
+    embeddingModel: embeddingModelSchema,
+    similarity: catalogSimilaritySchema.optional(), // Cosine without normalization when absent
+    products: z.array(catalogProductSchema),
+  })
+  .superRefine((catalog, ctx) => {
+    const seen = new Set<string>();
+    const { dimension } = catalog.embeddingModel;
+
+    if (catalog.similarity?.metric === "mahalanobis" && !catalog.similarity.covariance) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["similarity", "covariance"],
+        message: "The Mahalanobis metric needs a covariance matrix",
+      });
+    }
+    const covariance = catalog.similarity?.covariance;
+    if (covariance && (covariance.length !== dimension || covariance.some((row) => row.length !== dimension))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["similarity", "covariance"],
+        message: `Covariance must be ${dimension} x ${dimension}`,
+      });
+    }
+
+    catalog.products.forEach((product, i) => {
+      if (seen.has(product.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["products", i, "id"],
+          message: `Duplicate product id "${product.id}"`,
+        });
+      }
+      seen.add(product.id);
+
+      product.vectors.forEach((vector, j) => {
+        if (vector.length !== dimension) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["products", i, "vectors", j],
+            message: `Vector has ${vector.length} dimensions, expected ${dimension}`,
+          });
+        }
+      });
+    });
+  });
+
+export type CatalogStrength = z.infer<typeof catalogStrengthSchema>;
+export type EmbeddingModel = z.infer<typeof embeddingModelSchema>;
+export type SimilarityMetric = (typeof similarityMetrics)[number];
+export type VectorNormalization = (typeof vectorNormalizations)[number];
+export type CalibrationSource = (typeof calibrationSources)[number];
+export type MatchCalibration = z.infer<typeof matchCalibrationSchema>;
+export type CatalogSimilarity = z.infer<typeof catalogSimilaritySchema>;
+export type VectorQuantization = (typeof vectorQuantizations)[number];
+export type CatalogProduct = z.infer<typeof catalogProductSchema>;
+export type ProductCatalog = z.infer<typeof productCatalogSchema>;
+
+// Version 0: parallel vectors/products arrays, no model information.
+// Version 1: adds the extractor id and dimension at the top level.
+const legacyCatalogSchema = z.object({
+  extractor: z.string().optional(),
+  dimension: z.number().int().positive().optional(),
+  vectors: z.array(z.array(z.number())),
+  products: z
+    .array(
+      z.object({
+        id: z.string().optional(),
+        name: z.string().optional(),
+        brand: z.string().optional(),
+        flavor: z.string().optional(),
+        strength: z.string().optional(),
+        threshold: z.number().optional(),
+      }),
+    )
+    .optional(),
+});
+
+export interface CatalogIssue {
+  path: string; // Dotted path into the catalog, e.g. "products.3.vectors.0"
+  message: string;
+}
+
+export type CatalogParseResult =
+  | { success: true; catalog: ProductCatalog; migratedFrom: number | null }
+  | { success: false; errors: CatalogIssue[] };
+
+export const toCatalogIssues = (error: z.ZodError): CatalogIssue[] =>
+  error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+
+/**
+ * Detect the version of a raw catalog file. Files before version 2 carry no version field.
+ */
+export function detectCatalogVersion(raw: unknown): number | null {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  if (typeof data.version === "number") return data.version;
+  if (!Array.isArray(data.vectors)) return null;
+  return typeof data.extractor === "string" ? 1 : 0;
+}
+
+// Parse a strength label such as "11mg" or "14 mg/g" into the structured form
+function migrateStrength(label: string | undefined): CatalogStrength | undefined {
+  if (!label) return undefined;
+  const match = label.match(/(\d+(?:[.,]\d+)?)\s*mg(\s*\/\s*g)?/i);
+  if (!match) return { label };
+  const mg = parseFloat(match[1].replace(",", "."));
+  return match[2] ? { mgPerGram: mg, label } : { mgPerPouch: mg, label };
+}
+
+/**
+ * Upgrade a version 0 or 1 catalog to the current layout.
+ * Products without an id or name are reported rather than given placeholder values.
+ */
+function migrateLegacyCatalog(raw: unknown): { data: unknown } | { errors: CatalogIssue[] } {
+  const parsed = legacyCatalogSchema.safeParse(raw);
+  if (!parsed.success) return { errors: toCatalogIssues(parsed.error) };
+
+  const legacy = parsed.data;
+  const errors: CatalogIssue[] = [];
+  const products = legacy.vectors.map((vector, i) => {
+    const meta = legacy.products?.[i] ?? {};
+    if (!meta.id) errors.push({ path: `products.${i}.id`, message: "Product has no id" });
+    if (!meta.name) errors.push({ path: `products.${i}.name`, message: "Product has no name" });
+
+    return {
+      id: meta.id,
+      name: meta.name,
+      brand: meta.brand,
+      flavor: meta.flavor,
+      strength: migrateStrength(meta.strength),
+      threshold: meta.threshold,
+      referenceImages: [],
+      vectors: [vector],
+    };
+  });
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    data: {
+      version: CATALOG_VERSION,
+      embeddingModel: {
+        id: legacy.extractor ?? "unknown",
+        dimension: legacy.dimension ?? legacy.vectors[0]?.length ?? 1,
+      },
+      products,
+    },
+  };
+}
+
+/**
+ * Validate a catalog file, migrating older versions first
+ *
+ * @param raw The parsed JSON contents of a catalog file
+ * @returns The validated catalog, or the list of problems found
+ */
+export function parseCatalog(raw: unknown): CatalogParseResult {
+  const version = detectCatalogVersion(raw);
+
+  if (version === null) {
+    return {
+      success: false,
+      errors: [{ path: "", message: "Not a product catalog: expected a version field or a vectors array" }],
+    };
+  }
+
+  if (version > CATALOG_VERSION) {
+    return {
+      success: false,
+      errors: [{ path: "version", message: `Catalog version ${version} is newer than supported (${CATALOG_VERSION})` }],
+    };
+  }
+
+  let data = raw;
+  if (version < CATALOG_VERSION) {
+    const migrated = migrateLegacyCatalog(raw);
+    if ("errors" in migrated) return { success: false, errors: migrated.errors };
+    data = migrated.data;
+  }
+
+  const parsed = productCatalogSchema.safeParse(data);
+  if (!parsed.success) return { success: false, errors: toCatalogIssues(parsed.error) };
+
+  return {
+    success: true,
+    catalog: parsed.data,
+    migratedFrom: version < CATALOG_VERSION ? version : null,
+  };
+}
+
+/**
+ * Human-readable strength, e.g. "11 mg/pouch · 14 mg/g"
+ */
+export function formatStrength(strength: CatalogStrength | undefined): string | undefined {
+  if (!strength) return undefined;
+  const parts: string[] = [];
+  if (strength.mgPerPouch !== undefined) parts.push(`${strength.mgPerPouch} mg/pouch`);
+  if (strength.mgPerGram !== undefined) parts.push(`${strength.mgPerGram} mg/g`);
+  if (parts.length === 0) return strength.label;
+  return parts.join(" · ");
+}
+
+// Catalog REST API payloads
+
+// New products must match the stored embedding model; the first product defines it
+export const createProductSchema = catalogProductSchema.extend({
+  embeddingModel: embeddingModelSchema.optional(),
+});
+
+export const updateProductSchema = catalogProductSchema.omit({ id: true }).partial();
+
+export const productListQuerySchema = z.object({
+  search: z.string().optional(), // Matches name, brand, flavor or EAN
+  brand: z.string().optional(),
+  flavor: z.string().optional(),
+  format: z.enum(productFormats).optional(),
+  includeVectors: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const importModes = ["merge", "replace"] as const;
+
+// The catalog as a compact binary file
+export const binaryCatalogQuerySchema = z.object({
+  quantization: z.enum(vectorQuantizations).default("int8"),
+  subspaces: z.coerce.number().int().min(0).max(1024).default(0), // PQ only; 0 picks one per 4 dimensions
+  centroids: z.coerce.number().int().min(2).max(256).default(256), // PQ only
+});
+
+export type CreateProduct = z.infer<typeof createProductSchema>;
+export type ProductUpdate = z.infer<typeof updateProductSchema>;
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+export type ImportMode = (typeof importModes)[number];
+export type BinaryCatalogQuery = z.infer<typeof binaryCatalogQuerySchema>;
+
+// Listings leave out the vectors unless asked for them
+export type ProductSummary = Omit<CatalogProduct, "vectors"> & { vectorCount: number };
+
+export interface ProductListPage {
+  items: Array<ProductSummary | CatalogProduct>;
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  total: number;
+}
+
+// Enrollment from the app: reference photos are uploaded as data URLs, then attached to products
+export const referenceImageUploadSchema = z.object({
+  image: z
+    .string()
+    .regex(/^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/]+=*$/, "Expected a base64 JPEG, PNG or WebP data URL"),
+});
+
+// One more reference view of an existing product
+export const addProductViewSchema = z.object({
+  vector: z.array(z.number().finite()).min(1),
+  referenceImage: z.string().min(1).optional(), // Path returned by the image upload
+});
+
+export type ReferenceImageUpload = z.infer<typeof referenceImageUploadSchema>;
+export type AddProductView = z.infer<typeof addProductViewSchema>;
@@ -0,0 +1,132 @@
+import { z } from "zod";
+import { similarityMetrics, vectorNormalizations, type CatalogProduct, type MatchCalibration } from "./catalog";
+
+// What the user said about the top candidate of an identification:
+// confirmed - it is the photographed product
+// corrected - it is wrong; correctProductId names the right one
+// rejected - it is wrong and the product isn't in the catalog
+export const feedbackVerdicts = ["confirmed", "corrected", "rejected"] as const;
+
+export const matchDecisionStatuses = ["identified", "unknown"] as const;
+
+export const feedbackCandidateSchema = z.object({
+  productId: z.string().min(1),
+  score: z.number().min(0).max(1), // Combined match score
+});
+
+export const matchFeedbackSchema = z
+  .object({
+    decision: z.enum(matchDecisionStatuses), // What the app concluded before asking
+    predictedProductId: z.string().min(1), // Top candidate, identified or not
+    verdict: z.enum(feedbackVerdicts),
+    correctProductId: z.string().min(1).optional(),
+    confidence: z.number().min(0).max(1), // Calibrated confidence of the top candidate
+    threshold: z.number().min(0).max(1), // Confidence the top candidate needed to be accepted
+    candidates: z.array(feedbackCandidateSchema).max(20).default([]),
+    // How the candidates were scored; only feedback that says so refits the match calibration
+    metric: z.enum(similarityMetrics).optional(),
+    normalization: z.enum(vectorNormalizations).optional(),
+    vector: z.array(z.number().finite()).min(1).optional(), // Scan descriptor, learned from when confirmed
+    ocrText: z.string().max(2000).optional(),
+  })
+  .superRefine((feedback, ctx) => {
+    if (feedback.verdict === "corrected" && !feedback.correctProductId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["correctProductId"],
+        message: "A correction must name the correct product",
+      });
+    }
+    if (feedback.verdict === "corrected" && feedback.correctProductId === feedback.predictedProductId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["correctProductId"],
+        message: "The correct product is the predicted one; send a confirmation instead",
+      });
+    }
+  });
+
+export const feedbackListQuerySchema = z.object({
+  productId: z.string().optional(), // Feedback where this product was predicted or the correct one
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export const reportBuckets = ["day", "week"] as const;
+
+export const feedbackReportQuerySchema = z.object({
+  bucket: z.enum(reportBuckets).default("day"),
+  since: z.coerce.date().optional(),
+});
+
+export type FeedbackVerdict = (typeof feedbackVerdicts)[number];
+export type FeedbackCandidate = z.infer<typeof feedbackCandidateSchema>;
+export type MatchFeedbackInput = z.infer<typeof matchFeedbackSchema>;
+export type FeedbackListQuery = z.infer<typeof feedbackListQuerySchema>;
+export type ReportBucket = (typeof reportBuckets)[number];
+export type FeedbackReportQuery = z.infer<typeof feedbackReportQuerySchema>;
+
+export interface FeedbackFilter {
+  productId?: string; // Predicted or correct product
+  since?: Date;
+  limit?: number;
+}
+
+// How the catalog changed in response to a piece of feedback
+export type FeedbackAction =
+  | { type: "view-added"; productId: string }
+  | { type: "threshold-adjusted"; productId: string; from: number | null; to: number }
+  | { type: "calibration-fitted"; calibration: MatchCalibration };
+
+export interface MatchFeedback extends MatchFeedbackInput {
+  id: number;
+  createdAt: string; // ISO timestamp
+  correct: boolean; // Whether the app's decision was right
+  actions: FeedbackAction[];
+}
+
+/**
+ * Whether the app decided correctly: an identification is right when confirmed,
+ * an "unknown product" answer is right when the product really isn't in the catalog
+ */
+export function isDecisionCorrect(feedback: Pick<MatchFeedbackInput, "decision" | "verdict">): boolean {
+  return feedback.decision === "identified" ? feedback.verdict === "confirmed" : feedback.verdict === "rejected";
+}
+
+// The product that was actually photographed, or null if it isn't in the catalog
+export function trueProductId(feedback: MatchFeedbackInput): string | null {
+  if (feedback.verdict === "confirmed") return feedback.predictedProductId;
+  if (feedback.verdict === "corrected") return feedback.correctProductId ?? null;
+  return null;
+}
+
+export interface AccuracyBucket {
+  start: string; // ISO date of the first day in the bucket
+  total: number;
+  correct: number;
+  accuracy: number;
+  confirmed: number;
+  corrected: number;
+  rejected: number;
+}
+
+export interface ProductAccuracy {
+  productId: string;
+  predicted: number; // Times this product was the top candidate
+  correct: number; // Of those, times the decision was right
+  accuracy: number;
+}
+
+export interface FeedbackReport {
+  bucket: ReportBucket;
+  total: number;
+  correct: number;
+  accuracy: number;
+  buckets: AccuracyBucket[];
+  products: ProductAccuracy[];
+}
+
+export interface FeedbackSubmitResult {
+  feedback: MatchFeedback;
+  // Products changed by learning from the feedback, so clients can refresh their copy
+  updatedProducts: CatalogProduct[];
+}
@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { productFormats, similarityMetrics, vectorNormalizations, type CatalogSimilarity } from "./catalog";
+import { feedbackVerdicts, matchDecisionStatuses, type FeedbackAction, type FeedbackCandidate } from "./feedback";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -15,3 +17,74 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// Product catalog. Rows mirror CatalogProduct in ./catalog; vectors live in product_vectors
+// so one product can have several reference views.
+export const products = pgTable("products", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  brand: text("brand"),
+  flavor: text("flavor"),
+  strengthMgPerGram: real("strength_mg_per_gram"),
+  strengthMgPerPouch: real("strength_mg_per_pouch"),
+  strengthLabel: text("strength_label"),
+  pouchCount: integer("pouch_count"),
+  format: text("format", { enum: productFormats }),
+  ean: text("ean").unique(),
+  referenceImages: jsonb("reference_images").$type<string[]>().notNull().default([]),
+  threshold: real("threshold"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const productVectors = pgTable("product_vectors", {
+  id: serial("id").primaryKey(),
+  productId: text("product_id")
+    .notNull()
+    .references(() => products.id, { onDelete: "cascade" }),
+  view: integer("view").notNull(), // Order of the reference view within the product
+  modelId: text("model_id").notNull(),
+  dimension: integer("dimension").notNull(),
+  vector: real("vector").array().notNull(),
+});
+
+// Catalog-wide settings, one row per key (currently "similarity")
+export const catalogSettings = pgTable("catalog_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").$type<CatalogSimilarity>().notNull(),
+});
+
+// Confirmations and corrections of identifications. Product ids are kept as plain text
+// so the history survives products being deleted.
+export const matchFeedback = pgTable("match_feedback", {
+  id: serial("id").primaryKey(),
+  decision: text("decision", { enum: matchDecisionStatuses }).notNull(),
+  predictedProductId: text("predicted_product_id").notNull(),
+  verdict: text("verdict", { enum: feedbackVerdicts }).notNull(),
+  correctProductId: text("correct_product_id"),
+  confidence: real("confidence").notNull(),
+  threshold: real("threshold").notNull(),
+  correct: boolean("correct").notNull(),
+  candidates: jsonb("candidates").$type<FeedbackCandidate[]>().notNull().default([]),
+  metric: text("metric", { enum: similarityMetrics }),
+  normalization: text("normalization", { enum: vectorNormalizations }),
+  vector: real("vector").array(),
+  ocrText: text("ocr_text"),
+  actions: jsonb("actions").$type<FeedbackAction[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertProductSchema = createInsertSchema(products).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProductVectorSchema = createInsertSchema(productVectors).omit({
+  id: true,
+});
+
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProductVector = z.infer<typeof insertProductVectorSchema>;
+export type ProductVectorRow = typeof productVectors.$inferSelect;
+export type MatchFeedbackRow = typeof matchFeedback.$inferSelect;
@@ -0,0 +1,271 @@
+/**
+ * Similarity Metrics and Vector Spaces
+ * Catalog and query vectors are compared with a configurable metric: cosine,
+ * Euclidean (L2), dot product or Mahalanobis. Vectors can also be normalized
+ * when the catalog is loaded. Everything is reduced to a transform applied to
+ * each vector plus one of three kernels the indexes understand, and vectors of
+ * different dimensions are always an error rather than being truncated.
+ */
+
+import type {
+  CatalogSimilarity,
+  SimilarityMetric,
+  VectorNormalization,
+} from "./catalog";
+
+export type { SimilarityMetric, VectorNormalization };
+
+// What the nearest-neighbor indexes compute on already transformed vectors
+export type IndexMetric = "cosine" | "dot" | "l2";
+
+/**
+ * Thrown when a vector doesn't have the dimension of the catalog or index it is used with,
+ * which usually means the query and the catalog come from different feature extractors
+ */
+export class DimensionMismatchError extends Error {
+  constructor(public expected: number, public actual: number, context: string = "Vector") {
+    super(`${context} has ${actual} dimensions, expected ${expected}`);
+    this.name = "DimensionMismatchError";
+  }
+}
+
+export function assertDimension(expected: number | null, vector: ArrayLike<unknown>, context?: string): void {
+  if (expected !== null && vector.length !== expected) {
+    throw new DimensionMismatchError(expected, vector.length, context);
+  }
+}
+
+export function dotProduct(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  assertDimension(a.length, b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function squaredEuclideanDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  assertDimension(a.length, b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+export function l2Normalize(vector: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return out;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+/**
+ * Kernel distance used inside the indexes; smaller is closer
+ */
+export function indexDistance(metric: IndexMetric, a: Float32Array, b: Float32Array): number {
+  return metric === "l2" ? squaredEuclideanDistance(a, b) : 1 - dotProduct(a, b);
+}
+
+/**
+ * Map a kernel distance to the similarity reported with matches: 1 - d for the cosine
+ * and dot kernels, exp(-d²/2) in (0, 1] for Euclidean distances. The scores of different
+ * metrics are not on a common scale, so each metric needs its own match calibration.
+ */
+export function distanceToSimilarity(metric: IndexMetric, distance: number): number {
+  return metric === "l2" ? Math.exp(-distance / 2) : 1 - distance;
+}
+
+/**
+ * Covariance of a set of vectors, shrunk toward its diagonal. Catalogs have far fewer
+ * products than dimensions, so the sample covariance is singular: whitening with it
+ * puts every pair of catalog vectors at the same distance. The shrinkage weight is the
+ * Ledoit-Wolf style estimate of how noisy the off-diagonal entries are (Schäfer and
+ * Strimmer's target D), so small catalogs end up close to per-dimension variances.
+ */
+export function computeCovariance(vectors: number[][]): number[][] {
+  const dimension = vectors[0]?.length ?? 0;
+  const n = vectors.length;
+  const mean = new Array(dimension).fill(0);
+  vectors.forEach(vector => {
+    assertDimension(dimension, vector);
+    vector.forEach((value, i) => (mean[i] += value / n));
+  });
+  const centered = vectors.map(vector => vector.map((value, i) => value - mean[i]));
+
+  const covariance = Array.from({ length: dimension }, () => new Array(dimension).fill(0));
+  for (const row of centered) {
+    for (let i = 0; i < dimension; i++) {
+      for (let j = i; j < dimension; j++) covariance[i][j] += (row[i] * row[j]) / Math.max(1, n - 1);
+    }
+  }
+
+  // Estimated variance of each off-diagonal entry against its squared size
+  let noise = 0;
+  let signal = 0;
+  if (n > 1) {
+    for (let i = 0; i < dimension; i++) {
+      for (let j = i + 1; j < dimension; j++) {
+        const s = covariance[i][j];
+        let spread = 0;
+        for (const row of centered) spread += (row[i] * row[j] * n / (n - 1) - s) ** 2;
+        noise += (n / ((n - 1) ** 3)) * spread;
+        signal += s * s;
+      }
+    }
+  }
+  const shrinkage = n < 2 ? 1 : signal > 0 ? Math.min(1, Math.max(0, noise / signal)) : 0;
+
+  for (let i = 0; i < dimension; i++) {
+    for (let j = i + 1; j < dimension; j++) {
+      covariance[i][j] *= 1 - shrinkage;
+      covariance[j][i] = covariance[i][j];
+    }
+  }
+  return covariance;
+}
+
+// Ridge added to the covariance diagonal, relative to its mean variance, so dimensions
+// that barely vary across the catalog can't blow up after whitening
+const COVARIANCE_SHRINKAGE = 0.05;
+
+/**
+ * Lower-triangular Cholesky factor of a regularized covariance matrix
+ */
+function choleskyFactor(covariance: number[][]): Float64Array[] {
+  const n = covariance.length;
+  let trace = 0;
+  for (let i = 0; i < n; i++) trace += covariance[i][i];
+  const ridge = COVARIANCE_SHRINKAGE * (trace > 0 ? trace / n : 1);
+
+  const factor = Array.from({ length: n }, () => new Float64Array(n));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = covariance[i][j] + (i === j ? ridge : 0);
+      for (let k = 0; k < j; k++) sum -= factor[i][k] * factor[j][k];
+      if (i === j) {
+        if (sum <= 0) throw new Error("Covariance matrix is not positive definite");
+        factor[i][i] = Math.sqrt(sum);
+      } else {
+        factor[i][j] = sum / factor[j][j];
+      }
+    }
+  }
+  return factor;
+}
+
+/**
+ * The space catalog and query vectors are compared in: a fitted transform plus
+ * the kernel the index uses on the transformed vectors
+ */
+export interface VectorSpace {
+  readonly metric: SimilarityMetric;
+  readonly normalization: VectorNormalization;
+  readonly dimension: number;
+  readonly indexMetric: IndexMetric;
+  transform(vector: number[]): number[];
+}
+
+type Transform = (vector: number[]) => number[];
+
+// Z-scores divide by at least this fraction of the average deviation, so dimensions that are
+// nearly constant across a small catalog don't dominate every comparison
+const MIN_RELATIVE_DEVIATION = 0.25;
+
+/**
+ * Fit the load-time normalization to the catalog vectors. Z-scores are divided by
+ * √dimension so normalized vectors keep roughly unit length.
+ */
+export function fitNormalization(
+  vectors: number[][],
+  normalization: VectorNormalization,
+  dimension: number
+): Transform {
+  if (normalization === "l2") return vector => Array.from(l2Normalize(vector));
+  if (normalization === "none" || vectors.length === 0) return vector => vector;
+
+  const mean = new Array(dimension).fill(0);
+  const deviation = new Array(dimension).fill(0);
+  vectors.forEach(vector => vector.forEach((value, i) => (mean[i] += value / vectors.length)));
+  vectors.forEach(vector => vector.forEach((value, i) => (deviation[i] += (value - mean[i]) ** 2 / vectors.length)));
+  const std = deviation.map(Math.sqrt);
+  const floor = MIN_RELATIVE_DEVIATION * (std.reduce((sum, value) => sum + value, 0) / dimension);
+  const scale = std.map(value => (value > 0 ? 1 / (Math.max(value, floor) * Math.sqrt(dimension)) : 0));
+
+  return vector => vector.map((value, i) => (value - mean[i]) * scale[i]);
+}
+
+// Whitening with the Cholesky factor turns Mahalanobis distance into Euclidean distance.
+// The extra 1/√dimension keeps distances small enough that exp(-d²/2) doesn't flatten
+// to zero, but they still run larger than L2 distances between unit vectors.
+function whitening(covariance: number[][]): Transform {
+  const factor = choleskyFactor(covariance);
+  const n = covariance.length;
+  const scale = 1 / Math.sqrt(n);
+
+  return vector => {
+    const out = new Array(n);
+    for (let i = 0; i < n; i++) {
+      let sum = vector[i];
+      for (let k = 0; k < i; k++) sum -= factor[i][k] * out[k];
+      out[i] = sum / factor[i][i];
+    }
+    return out.map(value => value * scale);
+  };
+}
+
+/**
+ * Build the vector space for a catalog
+ *
+ * @param vectors All catalog vectors (every view), used to fit z-score statistics
+ * @param config The metric and normalization to use; Mahalanobis needs a covariance
+ *   of the normalized vectors
+ * @param dimension The catalog's vector dimension
+ * @throws DimensionMismatchError if the covariance doesn't match the dimension
+ */
+export function createVectorSpace(
+  vectors: number[][],
+  config: CatalogSimilarity,
+  dimension: number
+): VectorSpace {
+  vectors.forEach((vector, i) => assertDimension(dimension, vector, `Catalog vector ${i}`));
+  const normalize = fitNormalization(vectors, config.normalization, dimension);
+
+  let transform = normalize;
+  let indexMetric: IndexMetric;
+  switch (config.metric) {
+    case "cosine":
+      indexMetric = "cosine";
+      break;
+    case "dot":
+      indexMetric = "dot";
+      break;
+    case "l2":
+      indexMetric = "l2";
+      break;
+    case "mahalanobis": {
+      if (!config.covariance) {
+        throw new Error("The Mahalanobis metric needs a covariance matrix stored with the catalog");
+      }
+      assertDimension(dimension, config.covariance, "Covariance matrix");
+      config.covariance.forEach((row, i) => assertDimension(dimension, row, `Covariance row ${i}`));
+      const whiten = whitening(config.covariance);
+      transform = vector => whiten(normalize(vector));
+      indexMetric = "l2";
+      break;
+    }
+  }
+
+  return {
+    metric: config.metric,
+    normalization: config.normalization,
+    dimension,
+    indexMetric,
+    transform: vector => {
+      assertDimension(dimension, vector);
+      return transform(vector);
+    },
+  };
+}
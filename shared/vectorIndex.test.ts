@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  BruteForceIndex,
+  createVectorIndex,
+  deserializeVectorIndex,
+  fingerprintEntries,
+  HnswIndex,
+  measureRecall,
+  QuantizedIndex,
+  VectorIndexKind,
+} from "./vectorIndex";
+import { DimensionMismatchError } from "./similarityMetrics";
+
+const DIMENSION = 16;
+
+// Seeded generator so indexes and queries are reproducible
+function randomVectors(count: number, seed: number): number[][] {
+  const next = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: DIMENSION }, next));
+}
+
+function build(kind: VectorIndexKind, vectors: number[][]) {
+  const index = createVectorIndex(kind, { seed: 1 }, "cosine");
+  if (index instanceof QuantizedIndex) index.train(vectors);
+  vectors.forEach((vector, i) => index.add(`P${i}`, vector));
+  return index;
+}
+
+describe("vector index serialization", () => {
+  const vectors = randomVectors(200, 1);
+  const queries = randomVectors(10, 2);
+
+  it.each<VectorIndexKind>(["brute-force", "hnsw", "quantized"])("restores a %s index with the same results", (kind) => {
+    const index = build(kind, vectors);
+    index.catalogFingerprint = 1234;
+    const restored = deserializeVectorIndex(index.serialize());
+
+    expect(restored.kind).toBe(kind);
+    expect(restored.metric).toBe("cosine");
+    expect(restored.dimension).toBe(DIMENSION);
+    expect(restored.size).toBe(vectors.length);
+    expect(restored.catalogFingerprint).toBe(1234);
+    for (const query of queries) {
+      expect(restored.search(query, 5)).toEqual(index.search(query, 5));
+    }
+  });
+
+  it("keeps a missing fingerprint missing", () => {
+    const restored = deserializeVectorIndex(build("brute-force", vectors).serialize());
+    expect(restored.catalogFingerprint).toBeNull();
+  });
+
+  it("rejects files that aren't index files", () => {
+    expect(() => deserializeVectorIndex(new ArrayBuffer(32))).toThrow("Not a vector index file");
+  });
+});
+
+describe("HnswIndex", () => {
+  it("finds nearly all exact neighbors", () => {
+    const vectors = randomVectors(500, 3);
+    const hnsw = new HnswIndex();
+    const exact = new BruteForceIndex();
+    vectors.forEach((vector, i) => {
+      hnsw.add(`P${i}`, vector);
+      exact.add(`P${i}`, vector);
+    });
+    expect(measureRecall(hnsw, exact, randomVectors(20, 4), 10)).toBeGreaterThan(0.9);
+  });
+
+  it("stops returning removed entries", () => {
+    const vectors = randomVectors(50, 5);
+    const index = new HnswIndex();
+    vectors.forEach((vector, i) => index.add(`P${i}`, vector));
+    expect(index.remove("P0")).toBe(true);
+    expect(index.has("P0")).toBe(false);
+    expect(index.search(vectors[0], 50).map(match => match.id)).not.toContain("P0");
+  });
+
+  it("rejects vectors of another dimension", () => {
+    const index = new HnswIndex();
+    index.add("P0", randomVectors(1, 6)[0]);
+    expect(() => index.add("P1", [1, 2, 3])).toThrow(DimensionMismatchError);
+    expect(() => index.search([1, 2, 3], 1)).toThrow(DimensionMismatchError);
+  });
+});
+
+describe("fingerprintEntries", () => {
+  const entries = randomVectors(5, 7).map((vector, i) => [`P${i}`, vector] as const);
+
+  it("doesn't depend on the order of the entries", () => {
+    expect(fingerprintEntries([...entries].reverse())).toBe(fingerprintEntries(entries));
+  });
+
+  it("ignores float noise below the rounding step", () => {
+    const noisy = entries.map(([id, vector]) => [id, vector.map(value => value + 1e-7)] as const);
+    expect(fingerprintEntries(noisy)).toBe(fingerprintEntries(entries));
+  });
+
+  it("changes when a vector or an id changes", () => {
+    const edited = entries.map(([id, vector], i) => [id, i === 2 ? vector.map(value => value * 0.9) : vector] as const);
+    const renamed = entries.map(([id, vector], i) => [i === 2 ? "P9" : id, vector] as const);
+    expect(fingerprintEntries(edited)).not.toBe(fingerprintEntries(entries));
+    expect(fingerprintEntries(renamed)).not.toBe(fingerprintEntries(entries));
+  });
+
+  it("is never 0, which marks an index without one", () => {
+    expect(fingerprintEntries([])).not.toBe(0);
+  });
+});
@@ -0,0 +1,709 @@
+/**
+ * Nearest-Neighbor Indexes for Product Vectors
+ * A linear scan is fine for a handful of products but not for thousands of SKUs.
+ * This module provides interchangeable indexes behind one interface: an exact
+ * brute-force scan, an approximate HNSW (Hierarchical Navigable Small World)
+ * graph that supports incremental inserts and deletes, and a scan over quantized
+ * vectors that trades a little accuracy for memory. All rank by the cosine,
+ * dot-product or Euclidean kernel and serialize to a compact binary format.
+ */
+
+import {
+  assertDimension,
+  distanceToSimilarity,
+  indexDistance,
+  l2Normalize,
+  IndexMetric,
+} from "./similarityMetrics";
+import { ByteReader, ByteWriter } from "./binaryIO";
+import {
+  DEFAULT_QUANTIZATION_OPTIONS,
+  QuantizationOptions,
+  VectorQuantizer,
+  readQuantizer,
+  trainQuantizer,
+} from "./vectorQuantization";
+
+export type VectorIndexKind = "brute-force" | "hnsw" | "quantized";
+
+export interface IndexMatch {
+  id: string;
+  similarity: number; // Higher is closer; see distanceToSimilarity
+}
+
+export interface VectorIndex {
+  readonly kind: VectorIndexKind;
+  readonly metric: IndexMetric;
+  readonly size: number;
+  readonly dimension: number | null; // Fixed by the first vector added
+  catalogFingerprint: number | null; // fingerprintEntries() of what it was built from; kept in index files
+  add(id: string, vector: number[]): void; // Replaces any vector with the same id
+  remove(id: string): boolean;
+  has(id: string): boolean;
+  ids(): string[];
+  search(query: number[], topK: number): IndexMatch[];
+  serialize(): ArrayBuffer;
+}
+
+export interface HnswOptions {
+  M: number; // Links per node on upper layers; layer 0 keeps twice as many
+  efConstruction: number; // Candidate list size while inserting
+  efSearch: number; // Candidate list size while querying
+  seed: number; // Seed for the level generator, so builds are reproducible
+}
+
+export const DEFAULT_HNSW_OPTIONS: HnswOptions = {
+  M: 16,
+  efConstruction: 100,
+  efSearch: 64,
+  seed: 42,
+};
+
+// File layout: magic, format version, index kind, kernel metric, dimension, count, catalog
+// fingerprint (0 for none), then kind-specific sections. Version 1 files have no metric
+// byte and are always cosine; versions before 3 have no fingerprint.
+const INDEX_MAGIC = 0x4e505649; // "NPVI"
+const INDEX_FORMAT_VERSION = 3;
+const KIND_CODES: Record<VectorIndexKind, number> = { "brute-force": 0, hnsw: 1, quantized: 2 };
+const METRIC_CODES: Record<IndexMetric, number> = { cosine: 0, dot: 1, l2: 2 };
+
+// Stored form of a vector: cosine indexes keep unit vectors so the kernel is a dot product
+function prepare(metric: IndexMetric, vector: number[]): Float32Array {
+  return metric === "cosine" ? l2Normalize(vector) : Float32Array.from(vector);
+}
+
+function checkDimension(expected: number | null, vector: number[]): void {
+  assertDimension(expected, vector, "Vector");
+}
+
+function writeHeader(writer: ByteWriter, index: VectorIndex, count: number) {
+  writer.u32(INDEX_MAGIC);
+  writer.u8(INDEX_FORMAT_VERSION);
+  writer.u8(KIND_CODES[index.kind]);
+  writer.u8(METRIC_CODES[index.metric]);
+  writer.u32(index.dimension ?? 0);
+  writer.u32(count);
+  writer.u32(index.catalogFingerprint ?? 0);
+}
+
+/**
+ * A content hash (32-bit FNV-1a) of index entries: their ids and vectors as indexed,
+ * i.e. after normalization. Values are rounded first so Node and the browser agree.
+ * A prebuilt index is only used when the loaded catalog has the same fingerprint,
+ * which catches edited vectors and a differently fitted normalization.
+ */
+export function fingerprintEntries(entries: Iterable<readonly [string, number[]]>): number {
+  let hash = 0x811c9dc5;
+  const mix = (value: number) => {
+    hash = Math.imul(hash ^ (value & 0xff), 0x01000193);
+    hash = Math.imul(hash ^ ((value >>> 8) & 0xff), 0x01000193);
+    hash = Math.imul(hash ^ ((value >>> 16) & 0xff), 0x01000193);
+    hash = Math.imul(hash ^ (value >>> 24), 0x01000193);
+  };
+
+  const sorted = Array.from(entries).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  for (const [id, vector] of sorted) {
+    for (let i = 0; i < id.length; i++) mix(id.charCodeAt(i));
+    mix(vector.length);
+    for (const value of vector) mix(Math.round(value * 1e4));
+  }
+  // 0 marks an index without a fingerprint
+  return (hash >>> 0) || 1;
+}
+
+/**
+ * Exact index: compares the query with every stored vector
+ */
+export class BruteForceIndex implements VectorIndex {
+  readonly kind = "brute-force" as const;
+  catalogFingerprint: number | null = null;
+  private vectors = new Map<string, Float32Array>();
+  private dim: number | null = null;
+
+  constructor(readonly metric: IndexMetric = "cosine") {}
+
+  get size() {
+    return this.vectors.size;
+  }
+
+  get dimension() {
+    return this.dim;
+  }
+
+  add(id: string, vector: number[]): void {
+    checkDimension(this.dim, vector);
+    this.dim = vector.length;
+    this.vectors.set(id, prepare(this.metric, vector));
+  }
+
+  remove(id: string): boolean {
+    return this.vectors.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.vectors.keys());
+  }
+
+  search(query: number[], topK: number): IndexMatch[] {
+    if (this.vectors.size === 0) return [];
+    checkDimension(this.dim, query);
+    const q = prepare(this.metric, query);
+
+    const matches: IndexMatch[] = [];
+    this.vectors.forEach((vector, id) => {
+      matches.push({ id, similarity: distanceToSimilarity(this.metric, indexDistance(this.metric, q, vector)) });
+    });
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    return matches.slice(0, topK);
+  }
+
+  serialize(): ArrayBuffer {
+    const writer = new ByteWriter();
+    writeHeader(writer, this, this.vectors.size);
+    this.vectors.forEach((vector, id) => {
+      writer.string(id);
+      writer.f32Array(vector);
+    });
+    return writer.finish();
+  }
+
+  static fromReader(reader: ByteReader, metric: IndexMetric, dimension: number, count: number): BruteForceIndex {
+    const index = new BruteForceIndex(metric);
+    index.dim = dimension || null;
+    for (let i = 0; i < count; i++) {
+      const id = reader.string();
+      index.vectors.set(id, reader.f32Array(dimension));
+    }
+    return index;
+  }
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  neighbors: number[][]; // Slot numbers of linked nodes, one list per layer
+}
+
+// Candidate with its kernel distance to the query
+interface Candidate {
+  slot: number;
+  distance: number;
+}
+
+// Insert into an array kept sorted by ascending distance
+function insertSorted(list: Candidate[], candidate: Candidate) {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].distance < candidate.distance) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, candidate);
+}
+
+/**
+ * Approximate index: a layered proximity graph searched greedily from the top layer down.
+ * See Malkov & Yashunin, "Efficient and robust approximate nearest neighbor search
+ * using Hierarchical Navigable Small World graphs".
+ */
+export class HnswIndex implements VectorIndex {
+  readonly kind = "hnsw" as const;
+  catalogFingerprint: number | null = null;
+  readonly options: HnswOptions;
+  private nodes: Array<HnswNode | null> = [];
+  private slots = new Map<string, number>();
+  private freeSlots: number[] = [];
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private dim: number | null = null;
+  private rngState: number;
+  private levelMultiplier: number;
+
+  constructor(options: Partial<HnswOptions> = {}, readonly metric: IndexMetric = "cosine") {
+    this.options = { ...DEFAULT_HNSW_OPTIONS, ...options };
+    this.rngState = this.options.seed >>> 0;
+    this.levelMultiplier = 1 / Math.log(this.options.M);
+  }
+
+  get size() {
+    return this.slots.size;
+  }
+
+  get dimension() {
+    return this.dim;
+  }
+
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.slots.keys());
+  }
+
+  // Mulberry32: small, fast and seedable
+  private random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+  }
+
+  private maxLinks(level: number): number {
+    return level === 0 ? this.options.M * 2 : this.options.M;
+  }
+
+  private distance(a: Float32Array, slot: number): number {
+    return indexDistance(this.metric, a, this.nodes[slot]!.vector);
+  }
+
+  // Greedy best-first search of one layer, returning up to ef nearest candidates
+  private searchLayer(query: Float32Array, entries: Candidate[], ef: number, level: number): Candidate[] {
+    const visited = new Set<number>(entries.map(entry => entry.slot));
+    const candidates = [...entries].sort((a, b) => a.distance - b.distance);
+    const results = [...candidates];
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.distance > results[results.length - 1].distance) break;
+
+      for (const neighbor of this.nodes[current.slot]!.neighbors[level] ?? []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, neighbor);
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          const candidate = { slot: neighbor, distance };
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Neighbor selection heuristic: prefer candidates that aren't closer to an already chosen
+  // neighbor than to the base node, which keeps links spread in different directions
+  private selectNeighbors(candidates: Candidate[], count: number): number[] {
+    const sorted = [...candidates].sort((a, b) => a.distance - b.distance);
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= count) break;
+      const vector = this.nodes[candidate.slot]!.vector;
+      const diverse = selected.every(chosen => this.distance(vector, chosen.slot) > candidate.distance);
+      if (diverse) selected.push(candidate);
+      else skipped.push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+
+    return selected.map(candidate => candidate.slot);
+  }
+
+  // Re-pick a node's links on one layer from the given candidate slots
+  private relink(slot: number, level: number, candidateSlots: Iterable<number>) {
+    const node = this.nodes[slot]!;
+    const candidates: Candidate[] = [];
+    const seen = new Set<number>();
+
+    for (const other of Array.from(candidateSlots)) {
+      if (other === slot || seen.has(other) || !this.nodes[other]) continue;
+      seen.add(other);
+      candidates.push({ slot: other, distance: this.distance(node.vector, other) });
+    }
+
+    node.neighbors[level] = this.selectNeighbors(candidates, this.maxLinks(level));
+  }
+
+  add(id: string, vector: number[]): void {
+    checkDimension(this.dim, vector);
+    this.dim = vector.length;
+    if (this.slots.has(id)) this.remove(id);
+
+    const level = this.randomLevel();
+    const node: HnswNode = {
+      id,
+      vector: prepare(this.metric, vector),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    const slot = this.freeSlots.length > 0 ? this.freeSlots.pop()! : this.nodes.length;
+    this.nodes[slot] = node;
+    this.slots.set(id, slot);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = slot;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entries: Candidate[] = [{ slot: this.entryPoint, distance: this.distance(node.vector, this.entryPoint) }];
+
+    // Descend greedily through the layers above the new node's level
+    for (let l = this.maxLevel; l > level; l--) {
+      entries = this.searchLayer(node.vector, entries, 1, l);
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const found = this.searchLayer(node.vector, entries, this.options.efConstruction, l);
+      node.neighbors[l] = this.selectNeighbors(found, this.options.M);
+
+      // Links are bidirectional; prune neighbors that now have too many
+      for (const neighbor of node.neighbors[l]) {
+        const links = this.nodes[neighbor]!.neighbors[l];
+        links.push(slot);
+        if (links.length > this.maxLinks(l)) this.relink(neighbor, l, links);
+      }
+
+      entries = found;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = slot;
+      this.maxLevel = level;
+    }
+  }
+
+  remove(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return false;
+    const removed = this.nodes[slot]!;
+
+    this.nodes[slot] = null;
+    this.slots.delete(id);
+    this.freeSlots.push(slot);
+
+    // Links aren't always mutual after pruning, so check every node that could point here.
+    // Nodes that lose a link are reconnected through the removed node's neighbors.
+    this.nodes.forEach((node, other) => {
+      if (!node) return;
+      for (let l = 0; l < node.neighbors.length; l++) {
+        const links = node.neighbors[l];
+        const position = links.indexOf(slot);
+        if (position < 0) continue;
+        links.splice(position, 1);
+        this.relink(other, l, [...links, ...(removed.neighbors[l] ?? [])]);
+      }
+    });
+
+    if (this.entryPoint === slot) {
+      this.entryPoint = -1;
+      this.maxLevel = -1;
+      this.nodes.forEach((node, other) => {
+        if (node && node.neighbors.length - 1 > this.maxLevel) {
+          this.entryPoint = other;
+          this.maxLevel = node.neighbors.length - 1;
+        }
+      });
+    }
+
+    return true;
+  }
+
+  search(query: number[], topK: number): IndexMatch[] {
+    if (this.entryPoint < 0) return [];
+    checkDimension(this.dim, query);
+    const q = prepare(this.metric, query);
+
+    let entries: Candidate[] = [{ slot: this.entryPoint, distance: this.distance(q, this.entryPoint) }];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entries = this.searchLayer(q, entries, 1, l);
+    }
+
+    return this.searchLayer(q, entries, Math.max(this.options.efSearch, topK), 0)
+      .slice(0, topK)
+      .map(candidate => ({
+        id: this.nodes[candidate.slot]!.id,
+        similarity: distanceToSimilarity(this.metric, candidate.distance),
+      }));
+  }
+
+  serialize(): ArrayBuffer {
+    // Compact slots so the file has no holes left by deletions
+    const order: number[] = [];
+    const compacted = new Map<number, number>();
+    this.nodes.forEach((node, slot) => {
+      if (!node) return;
+      compacted.set(slot, order.length);
+      order.push(slot);
+    });
+
+    const writer = new ByteWriter();
+    writeHeader(writer, this, order.length);
+    writer.u16(this.options.M);
+    writer.u16(this.options.efConstruction);
+    writer.u16(this.options.efSearch);
+    writer.u32(this.rngState);
+    writer.i32(this.entryPoint < 0 ? -1 : compacted.get(this.entryPoint)!);
+
+    for (const slot of order) {
+      const node = this.nodes[slot]!;
+      writer.string(node.id);
+      writer.f32Array(node.vector);
+      writer.u8(node.neighbors.length - 1);
+      for (const links of node.neighbors) {
+        writer.u16(links.length);
+        for (const link of links) writer.u32(compacted.get(link)!);
+      }
+    }
+
+    return writer.finish();
+  }
+
+  static fromReader(reader: ByteReader, metric: IndexMetric, dimension: number, count: number): HnswIndex {
+    const M = reader.u16();
+    const efConstruction = reader.u16();
+    const efSearch = reader.u16();
+    const index = new HnswIndex({ M, efConstruction, efSearch }, metric);
+    index.rngState = reader.u32();
+    const entryPoint = reader.i32();
+    index.dim = dimension || null;
+
+    for (let slot = 0; slot < count; slot++) {
+      const id = reader.string();
+      const vector = reader.f32Array(dimension);
+      const levels = reader.u8() + 1;
+      const neighbors: number[][] = [];
+      for (let l = 0; l < levels; l++) {
+        const links: number[] = [];
+        const linkCount = reader.u16();
+        for (let i = 0; i < linkCount; i++) {
+          const link = reader.u32();
+          if (link >= count) throw new Error("Index file contains an invalid link");
+          links.push(link);
+        }
+        neighbors.push(links);
+      }
+
+      index.nodes.push({ id, vector, neighbors });
+      index.slots.set(id, slot);
+    }
+
+    if (entryPoint >= count) throw new Error("Index file has an invalid entry point");
+    index.entryPoint = entryPoint;
+    if (entryPoint >= 0) index.maxLevel = index.nodes[entryPoint]!.neighbors.length - 1;
+    return index;
+  }
+}
+
+/**
+ * Exact scan over quantized vectors: the query stays in full precision and is compared
+ * with the encoded vectors directly (asymmetric distance), so only the codes are kept.
+ * The quantizer is trained by train(), or on the first vector added if it wasn't.
+ */
+export class QuantizedIndex implements VectorIndex {
+  readonly kind = "quantized" as const;
+  catalogFingerprint: number | null = null;
+  readonly options: QuantizationOptions;
+  private quantizer: VectorQuantizer | null = null;
+  private codes = new Map<string, Uint8Array>();
+  private norms = new Map<string, number>(); // Of the decoded vectors, for the cosine kernel
+
+  constructor(options: Partial<QuantizationOptions> = {}, readonly metric: IndexMetric = "cosine") {
+    this.options = { ...DEFAULT_QUANTIZATION_OPTIONS, ...options };
+  }
+
+  get size() {
+    return this.codes.size;
+  }
+
+  get dimension() {
+    return this.quantizer?.dimension ?? null;
+  }
+
+  // Bytes stored per vector, excluding its id
+  get codeSize() {
+    return this.quantizer?.codeSize ?? 0;
+  }
+
+  /**
+   * Fit the quantizer to representative vectors; vectors already added are re-encoded
+   */
+  train(vectors: number[][]): void {
+    if (vectors.length === 0) return;
+    const decoded = Array.from(this.codes.keys(), id => [id, this.reconstruct(id)!] as const);
+    this.quantizer = trainQuantizer(vectors, vectors[0].length, this.options);
+    this.codes.clear();
+    this.norms.clear();
+    decoded.forEach(([id, vector]) => this.add(id, vector));
+  }
+
+  private store(id: string, code: Uint8Array) {
+    const decoded = this.quantizer!.decode(code);
+    this.codes.set(id, code);
+    this.norms.set(id, Math.sqrt(decoded.reduce((sum, value) => sum + value * value, 0)));
+  }
+
+  add(id: string, vector: number[]): void {
+    checkDimension(this.dimension, vector);
+    if (!this.quantizer) this.quantizer = trainQuantizer([vector], vector.length, this.options);
+    this.store(id, this.quantizer.encode(vector));
+  }
+
+  remove(id: string): boolean {
+    this.norms.delete(id);
+    return this.codes.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.codes.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.codes.keys());
+  }
+
+  /**
+   * The stored approximation of a vector
+   */
+  reconstruct(id: string): number[] | undefined {
+    const code = this.codes.get(id);
+    return code && Array.from(this.quantizer!.decode(code));
+  }
+
+  search(query: number[], topK: number): IndexMatch[] {
+    if (!this.quantizer || this.codes.size === 0) return [];
+    checkDimension(this.dimension, query);
+    const q = Float32Array.from(query);
+    const score = this.quantizer.scorer(q, this.metric === "l2" ? "l2" : "dot");
+    const queryNorm = Math.sqrt(q.reduce((sum, value) => sum + value * value, 0));
+
+    const matches: IndexMatch[] = [];
+    this.codes.forEach((code, id) => {
+      let distance = score(code);
+      if (this.metric === "cosine") {
+        const norm = queryNorm * this.norms.get(id)!;
+        distance = 1 - (norm > 0 ? distance / norm : 0);
+      } else if (this.metric === "dot") {
+        distance = 1 - distance;
+      }
+      matches.push({ id, similarity: distanceToSimilarity(this.metric, distance) });
+    });
+
+    matches.sort((a, b) => b.similarity - a.similarity);
+    return matches.slice(0, topK);
+  }
+
+  serialize(): ArrayBuffer {
+    const writer = new ByteWriter();
+    writeHeader(writer, this, this.codes.size);
+    writer.u8(this.quantizer ? 1 : 0);
+    this.quantizer?.write(writer);
+    this.codes.forEach((code, id) => {
+      writer.string(id);
+      writer.bytes(code);
+    });
+    return writer.finish();
+  }
+
+  static fromReader(reader: ByteReader, metric: IndexMetric, dimension: number, count: number): QuantizedIndex {
+    const quantizer = reader.u8() ? readQuantizer(reader) : null;
+    if (!quantizer && count > 0) throw new Error("Index file has no quantizer for its vectors");
+    if (quantizer && quantizer.dimension !== dimension) {
+      throw new Error("Index file has a quantizer of the wrong dimension");
+    }
+    const index = new QuantizedIndex(quantizer ? { quantization: quantizer.quantization } : {}, metric);
+    index.quantizer = quantizer;
+    for (let i = 0; i < count; i++) {
+      const id = reader.string();
+      index.store(id, reader.bytes(quantizer!.codeSize));
+    }
+    return index;
+  }
+}
+
+/**
+ * Create an empty index of the given kind
+ */
+export function createVectorIndex(
+  kind: VectorIndexKind,
+  options: Partial<HnswOptions & QuantizationOptions> = {},
+  metric: IndexMetric = "cosine"
+): VectorIndex {
+  if (kind === "quantized") return new QuantizedIndex(options, metric);
+  return kind === "hnsw" ? new HnswIndex(options, metric) : new BruteForceIndex(metric);
+}
+
+/**
+ * Restore an index written by VectorIndex.serialize()
+ *
+ * @param buffer The binary index file contents
+ * @returns The restored index
+ * @throws Error if the buffer is not a valid index file
+ */
+export function deserializeVectorIndex(buffer: ArrayBuffer): VectorIndex {
+  const reader = new ByteReader(buffer, "Index file");
+  if (buffer.byteLength < 14 || reader.u32() !== INDEX_MAGIC) {
+    throw new Error("Not a vector index file");
+  }
+
+  const version = reader.u8();
+  if (version < 1 || version > INDEX_FORMAT_VERSION) {
+    throw new Error(`Unsupported index format version ${version}`);
+  }
+
+  const kindCode = reader.u8();
+  const metricCode = version >= 2 ? reader.u8() : METRIC_CODES.cosine;
+  const metric = (Object.keys(METRIC_CODES) as IndexMetric[]).find(key => METRIC_CODES[key] === metricCode);
+  if (!metric) throw new Error(`Unknown index metric ${metricCode}`);
+  const dimension = reader.u32();
+  const count = reader.u32();
+  const fingerprint = version >= 3 ? reader.u32() : 0;
+
+  let index: VectorIndex;
+  if (kindCode === KIND_CODES.hnsw) index = HnswIndex.fromReader(reader, metric, dimension, count);
+  else if (kindCode === KIND_CODES["brute-force"]) index = BruteForceIndex.fromReader(reader, metric, dimension, count);
+  else if (kindCode === KIND_CODES.quantized) index = QuantizedIndex.fromReader(reader, metric, dimension, count);
+  else throw new Error(`Unknown index kind ${kindCode}`);
+  index.catalogFingerprint = fingerprint || null;
+  return index;
+}
+
+/**
+ * Average recall@k of an approximate index against an exact one: the fraction of the
+ * true top-k neighbors that the approximate index also returns.
+ *
+ * @param approximate The index being evaluated
+ * @param exact A brute-force index over the same vectors
+ * @param queries Query vectors
+ * @param topK Number of neighbors compared per query
+ * @returns Recall between 0 and 1
+ */
+export function measureRecall(
+  approximate: VectorIndex,
+  exact: VectorIndex,
+  queries: number[][],
+  topK: number = 10
+): number {
+  if (queries.length === 0) return 1;
+
+  let total = 0;
+  for (const query of queries) {
+    const truth = exact.search(query, topK);
+    if (truth.length === 0) {
+      total += 1;
+      continue;
+    }
+    const found = new Set(approximate.search(query, topK).map(match => match.id));
+    total += truth.filter(match => found.has(match.id)).length / truth.length;
+  }
+
+  return total / queries.length;
+}
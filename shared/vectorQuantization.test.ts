@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { ByteReader, ByteWriter } from "./binaryIO";
+import { readQuantizer, trainQuantizer, VectorQuantization } from "./vectorQuantization";
+
+const DIMENSION = 32;
+
+function randomVectors(count: number, seed: number): number[][] {
+  const next = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: DIMENSION }, next));
+}
+
+const maxError = (a: ArrayLike<number>, b: ArrayLike<number>) =>
+  Array.from(a).reduce((worst, value, i) => Math.max(worst, Math.abs(value - b[i])), 0);
+
+describe("trainQuantizer", () => {
+  const vectors = randomVectors(300, 1);
+
+  it("stores float32 vectors exactly", () => {
+    const quantizer = trainQuantizer(vectors, DIMENSION, { quantization: "float32" });
+    expect(quantizer.codeSize).toBe(DIMENSION * 4);
+    expect(maxError(quantizer.decode(quantizer.encode(vectors[0])), vectors[0])).toBeLessThan(1e-6);
+  });
+
+  it("keeps int8 values within one quantization step", () => {
+    const quantizer = trainQuantizer(vectors, DIMENSION, { quantization: "int8" });
+    expect(quantizer.codeSize).toBe(DIMENSION);
+    expect(maxError(quantizer.decode(quantizer.encode(vectors[0])), vectors[0])).toBeLessThan(1 / 255);
+  });
+
+  it("encodes one byte per PQ subspace", () => {
+    const quantizer = trainQuantizer(vectors, DIMENSION, { quantization: "pq", subspaces: 8, centroids: 16 });
+    expect(quantizer.codeSize).toBe(8);
+    expect(quantizer.decode(quantizer.encode(vectors[0]))).toHaveLength(DIMENSION);
+  });
+
+  it("scores codes like the decoded vectors", () => {
+    const quantizer = trainQuantizer(vectors, DIMENSION, { quantization: "pq", subspaces: 8, centroids: 16 });
+    const query = Float32Array.from(vectors[1]);
+    const code = quantizer.encode(vectors[0]);
+    const decoded = quantizer.decode(code);
+    const dot = decoded.reduce((sum, value, i) => sum + value * query[i], 0);
+    expect(quantizer.scorer(query, "dot")(code)).toBeCloseTo(dot, 4);
+  });
+});
+
+describe("quantizer serialization", () => {
+  it.each<VectorQuantization>(["float32", "int8", "pq"])("restores a %s quantizer that decodes the same", (quantization) => {
+    const vectors = randomVectors(300, 2);
+    const quantizer = trainQuantizer(vectors, DIMENSION, { quantization, subspaces: 8, centroids: 16 });
+    const writer = new ByteWriter();
+    quantizer.write(writer);
+    const restored = readQuantizer(new ByteReader(writer.finish(), "Quantizer"));
+
+    expect(restored.quantization).toBe(quantization);
+    expect(restored.codeSize).toBe(quantizer.codeSize);
+    const code = quantizer.encode(vectors[0]);
+    expect(Array.from(restored.decode(code))).toEqual(Array.from(quantizer.decode(code)));
+  });
+});
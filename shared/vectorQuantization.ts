@@ -0,0 +1,450 @@
+/**
+ * Vector Quantization
+ * Compresses catalog vectors for smaller downloads and a smaller in-memory index.
+ * Int8 scalar quantization maps each dimension onto 256 levels between its minimum
+ * and maximum; product quantization (PQ) splits vectors into subspaces and stores
+ * the index of the nearest k-means centroid in each. Queries are never quantized:
+ * scoring is asymmetric, comparing the float query with the encoded vectors.
+ */
+
+import type { VectorQuantization } from "./catalog";
+import { ByteReader, ByteWriter } from "./binaryIO";
+import { assertDimension } from "./similarityMetrics";
+
+export type { VectorQuantization };
+
+export interface QuantizationOptions {
+  quantization: VectorQuantization;
+  subspaces: number; // PQ subspaces (code bytes per vector); 0 picks one per 4 dimensions
+  centroids: number; // PQ centroids per subspace, at most 256
+  iterations: number; // k-means iterations when training PQ codebooks
+  seed: number; // Seed for k-means initialization, so builds are reproducible
+}
+
+export const DEFAULT_QUANTIZATION_OPTIONS: QuantizationOptions = {
+  quantization: "int8",
+  subspaces: 0,
+  centroids: 256,
+  iterations: 20,
+  seed: 42,
+};
+
+// Dimensions per PQ subspace when the number of subspaces isn't given
+const DEFAULT_SUBSPACE_DIMENSION = 4;
+
+// Training samples used for PQ codebooks; more only slows the build down
+const MAX_TRAINING_VECTORS = 20000;
+
+// Partial kernel summed over a code: dot product or squared Euclidean distance with the query
+export type QuantizedKernel = "dot" | "l2";
+
+export interface VectorQuantizer {
+  readonly quantization: VectorQuantization;
+  readonly dimension: number;
+  readonly codeSize: number; // Bytes per encoded vector
+  encode(vector: ArrayLike<number>): Uint8Array;
+  decode(code: Uint8Array): Float32Array;
+  /**
+   * Prepare a query for asymmetric scoring
+   * @returns A function giving the kernel value between the query and an encoded vector
+   */
+  scorer(query: Float32Array, kernel: QuantizedKernel): (code: Uint8Array) => number;
+  write(writer: ByteWriter): void;
+}
+
+const QUANTIZATION_CODES: Record<VectorQuantization, number> = { float32: 0, int8: 1, pq: 2 };
+
+/**
+ * Full precision "quantizer", so uncompressed catalogs use the same format and scoring path
+ */
+class Float32Quantizer implements VectorQuantizer {
+  readonly quantization = "float32" as const;
+  readonly codeSize: number;
+
+  constructor(readonly dimension: number) {
+    this.codeSize = dimension * 4;
+  }
+
+  encode(vector: ArrayLike<number>): Uint8Array {
+    assertDimension(this.dimension, vector);
+    return new Uint8Array(Float32Array.from(vector).buffer);
+  }
+
+  decode(code: Uint8Array): Float32Array {
+    return new Float32Array(code.slice().buffer);
+  }
+
+  scorer(query: Float32Array, kernel: QuantizedKernel): (code: Uint8Array) => number {
+    const dimension = this.dimension;
+    return code => {
+      // Codes are stored in their own aligned buffers
+      const vector = new Float32Array(code.buffer, code.byteOffset, dimension);
+      let sum = 0;
+      for (let i = 0; i < dimension; i++) {
+        if (kernel === "dot") sum += query[i] * vector[i];
+        else sum += (query[i] - vector[i]) ** 2;
+      }
+      return sum;
+    };
+  }
+
+  write(writer: ByteWriter): void {
+    writer.u8(QUANTIZATION_CODES.float32);
+    writer.u32(this.dimension);
+  }
+}
+
+/**
+ * Int8 scalar quantization: value ≈ min + step × code, with a range fitted per dimension
+ */
+class ScalarQuantizer implements VectorQuantizer {
+  readonly quantization = "int8" as const;
+
+  constructor(private min: Float32Array, private step: Float32Array) {}
+
+  get dimension() {
+    return this.min.length;
+  }
+
+  get codeSize() {
+    return this.min.length;
+  }
+
+  static train(vectors: Float32Array[], dimension: number): ScalarQuantizer {
+    const min = new Float32Array(dimension).fill(Infinity);
+    const max = new Float32Array(dimension).fill(-Infinity);
+    for (const vector of vectors) {
+      for (let i = 0; i < dimension; i++) {
+        if (vector[i] < min[i]) min[i] = vector[i];
+        if (vector[i] > max[i]) max[i] = vector[i];
+      }
+    }
+    const step = new Float32Array(dimension);
+    for (let i = 0; i < dimension; i++) {
+      if (!Number.isFinite(min[i])) min[i] = max[i] = 0;
+      step[i] = (max[i] - min[i]) / 255;
+    }
+    return new ScalarQuantizer(min, step);
+  }
+
+  encode(vector: ArrayLike<number>): Uint8Array {
+    assertDimension(this.dimension, vector);
+    const code = new Uint8Array(this.dimension);
+    for (let i = 0; i < code.length; i++) {
+      // Values outside the trained range, e.g. from products added later, are clamped
+      const level = this.step[i] > 0 ? Math.round((vector[i] - this.min[i]) / this.step[i]) : 0;
+      code[i] = Math.min(255, Math.max(0, level));
+    }
+    return code;
+  }
+
+  decode(code: Uint8Array): Float32Array {
+    const out = new Float32Array(this.dimension);
+    for (let i = 0; i < out.length; i++) out[i] = this.min[i] + this.step[i] * code[i];
+    return out;
+  }
+
+  scorer(query: Float32Array, kernel: QuantizedKernel): (code: Uint8Array) => number {
+    const { min, step } = this;
+    const dimension = this.dimension;
+
+    if (kernel === "dot") {
+      // q·(min + step × code) = q·min + (q × step)·code
+      let offset = 0;
+      const scaled = new Float32Array(dimension);
+      for (let i = 0; i < dimension; i++) {
+        offset += query[i] * min[i];
+        scaled[i] = query[i] * step[i];
+      }
+      return code => {
+        let sum = offset;
+        for (let i = 0; i < dimension; i++) sum += scaled[i] * code[i];
+        return sum;
+      };
+    }
+
+    const shifted = new Float32Array(dimension);
+    for (let i = 0; i < dimension; i++) shifted[i] = query[i] - min[i];
+    return code => {
+      let sum = 0;
+      for (let i = 0; i < dimension; i++) {
+        const diff = shifted[i] - step[i] * code[i];
+        sum += diff * diff;
+      }
+      return sum;
+    };
+  }
+
+  write(writer: ByteWriter): void {
+    writer.u8(QUANTIZATION_CODES.int8);
+    writer.u32(this.dimension);
+    writer.f32Array(this.min);
+    writer.f32Array(this.step);
+  }
+
+  static read(reader: ByteReader): ScalarQuantizer {
+    const dimension = reader.u32();
+    return new ScalarQuantizer(reader.f32Array(dimension), reader.f32Array(dimension));
+  }
+}
+
+// Mulberry32: small, fast and seedable
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Squared distance between a subvector and one centroid of a codebook
+function subspaceDistance(
+  vector: ArrayLike<number>,
+  start: number,
+  codebook: Float32Array,
+  centroid: number,
+  width: number
+): number {
+  let sum = 0;
+  const base = centroid * width;
+  for (let j = 0; j < width; j++) {
+    const diff = vector[start + j] - codebook[base + j];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+function nearestCentroid(
+  vector: ArrayLike<number>,
+  start: number,
+  codebook: Float32Array,
+  count: number,
+  width: number
+): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let k = 0; k < count; k++) {
+    const distance = subspaceDistance(vector, start, codebook, k, width);
+    if (distance < bestDistance) {
+      best = k;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * k-means over one subspace, initialized with k-means++
+ * @returns The centroids, flattened
+ */
+function trainCodebook(
+  vectors: Float32Array[],
+  start: number,
+  width: number,
+  count: number,
+  iterations: number,
+  random: () => number
+): Float32Array {
+  const codebook = new Float32Array(count * width);
+  const copyCentroid = (k: number, vector: Float32Array) => {
+    for (let j = 0; j < width; j++) codebook[k * width + j] = vector[start + j];
+  };
+
+  // k-means++: each further centroid is drawn with probability proportional to its squared distance
+  copyCentroid(0, vectors[Math.floor(random() * vectors.length)]);
+  const closest = vectors.map(vector => subspaceDistance(vector, start, codebook, 0, width));
+  for (let k = 1; k < count; k++) {
+    const total = closest.reduce((sum, distance) => sum + distance, 0);
+    let target = random() * total;
+    let chosen = vectors.length - 1;
+    for (let i = 0; i < vectors.length; i++) {
+      target -= closest[i];
+      if (target <= 0) {
+        chosen = i;
+        break;
+      }
+    }
+    copyCentroid(k, vectors[chosen]);
+    vectors.forEach((vector, i) => {
+      closest[i] = Math.min(closest[i], subspaceDistance(vector, start, codebook, k, width));
+    });
+  }
+
+  const assignments = new Int32Array(vectors.length).fill(-1);
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let changed = 0;
+    vectors.forEach((vector, i) => {
+      const k = nearestCentroid(vector, start, codebook, count, width);
+      if (k !== assignments[i]) changed++;
+      assignments[i] = k;
+    });
+    if (changed === 0 && iteration > 0) break;
+
+    const sums = new Float64Array(count * width);
+    const sizes = new Int32Array(count);
+    vectors.forEach((vector, i) => {
+      const k = assignments[i];
+      sizes[k]++;
+      for (let j = 0; j < width; j++) sums[k * width + j] += vector[start + j];
+    });
+    for (let k = 0; k < count; k++) {
+      // Empty clusters keep their centroid rather than collapsing to the origin
+      if (sizes[k] === 0) continue;
+      for (let j = 0; j < width; j++) codebook[k * width + j] = sums[k * width + j] / sizes[k];
+    }
+  }
+
+  return codebook;
+}
+
+/**
+ * Product quantization: one centroid index per subspace. Subspaces differ in width by
+ * at most one dimension when the dimension isn't a multiple of their number.
+ */
+class ProductQuantizer implements VectorQuantizer {
+  readonly quantization = "pq" as const;
+  private bounds: number[]; // Start of each subspace, plus the dimension
+  private codebooks: Float32Array[] = []; // Centroids of each subspace, flattened
+
+  constructor(readonly dimension: number, readonly centroids: number, subspaces: number) {
+    this.bounds = Array.from({ length: subspaces + 1 }, (_, m) => Math.round((m * dimension) / subspaces));
+  }
+
+  get codeSize() {
+    return this.bounds.length - 1;
+  }
+
+  private width(m: number): number {
+    return this.bounds[m + 1] - this.bounds[m];
+  }
+
+  static train(vectors: Float32Array[], dimension: number, options: QuantizationOptions): ProductQuantizer {
+    const subspaces = Math.min(
+      dimension,
+      options.subspaces > 0 ? options.subspaces : Math.ceil(dimension / DEFAULT_SUBSPACE_DIMENSION)
+    );
+    // No point in more centroids than there are training vectors
+    const centroids = Math.max(1, Math.min(options.centroids, 256, vectors.length));
+    const random = seededRandom(options.seed);
+
+    // Evenly spaced sample, so training time is bounded for large catalogs
+    const stride = Math.max(1, vectors.length / MAX_TRAINING_VECTORS);
+    const sample: Float32Array[] = [];
+    for (let i = 0; i < vectors.length; i += stride) sample.push(vectors[Math.floor(i)]);
+
+    const quantizer = new ProductQuantizer(dimension, centroids, subspaces);
+    quantizer.codebooks = Array.from({ length: subspaces }, (_, m) =>
+      sample.length > 0
+        ? trainCodebook(sample, quantizer.bounds[m], quantizer.width(m), centroids, options.iterations, random)
+        : new Float32Array(centroids * quantizer.width(m))
+    );
+    return quantizer;
+  }
+
+  encode(vector: ArrayLike<number>): Uint8Array {
+    assertDimension(this.dimension, vector);
+    const code = new Uint8Array(this.codebooks.length);
+    this.codebooks.forEach((codebook, m) => {
+      code[m] = nearestCentroid(vector, this.bounds[m], codebook, this.centroids, this.width(m));
+    });
+    return code;
+  }
+
+  decode(code: Uint8Array): Float32Array {
+    const out = new Float32Array(this.dimension);
+    this.codebooks.forEach((codebook, m) => {
+      const width = this.width(m);
+      out.set(codebook.subarray(code[m] * width, (code[m] + 1) * width), this.bounds[m]);
+    });
+    return out;
+  }
+
+  scorer(query: Float32Array, kernel: QuantizedKernel): (code: Uint8Array) => number {
+    // Asymmetric distance computation: one lookup table entry per subspace and centroid
+    const subspaces = this.codebooks.length;
+    const count = this.centroids;
+    const table = new Float32Array(subspaces * count);
+    this.codebooks.forEach((codebook, m) => {
+      const start = this.bounds[m];
+      const width = this.width(m);
+      for (let k = 0; k < count; k++) {
+        if (kernel === "l2") {
+          table[m * count + k] = subspaceDistance(query, start, codebook, k, width);
+        } else {
+          let sum = 0;
+          for (let j = 0; j < width; j++) sum += query[start + j] * codebook[k * width + j];
+          table[m * count + k] = sum;
+        }
+      }
+    });
+
+    return code => {
+      let sum = 0;
+      for (let m = 0; m < subspaces; m++) sum += table[m * count + code[m]];
+      return sum;
+    };
+  }
+
+  write(writer: ByteWriter): void {
+    writer.u8(QUANTIZATION_CODES.pq);
+    writer.u32(this.dimension);
+    writer.u16(this.codebooks.length);
+    writer.u16(this.centroids);
+    this.codebooks.forEach(codebook => writer.f32Array(codebook));
+  }
+
+  static read(reader: ByteReader): ProductQuantizer {
+    const dimension = reader.u32();
+    const subspaces = reader.u16();
+    const centroids = reader.u16();
+    if (subspaces === 0 || subspaces > dimension || centroids === 0 || centroids > 256) {
+      throw new Error("Invalid product quantizer");
+    }
+    const quantizer = new ProductQuantizer(dimension, centroids, subspaces);
+    quantizer.codebooks = Array.from({ length: subspaces }, (_, m) => reader.f32Array(centroids * quantizer.width(m)));
+    return quantizer;
+  }
+}
+
+/**
+ * Fit a quantizer to a set of vectors
+ *
+ * @param vectors Training vectors, usually the whole catalog
+ * @param dimension The vector dimension
+ * @param options The encoding and, for PQ, its codebook settings
+ */
+export function trainQuantizer(
+  vectors: ArrayLike<number>[],
+  dimension: number,
+  options: Partial<QuantizationOptions> = {}
+): VectorQuantizer {
+  const settings = { ...DEFAULT_QUANTIZATION_OPTIONS, ...options };
+  const training = vectors.map((vector, i) => {
+    assertDimension(dimension, vector, `Training vector ${i}`);
+    return Float32Array.from(vector);
+  });
+
+  switch (settings.quantization) {
+    case "float32":
+      return new Float32Quantizer(dimension);
+    case "int8":
+      return ScalarQuantizer.train(training, dimension);
+    case "pq":
+      return ProductQuantizer.train(training, dimension, settings);
+  }
+}
+
+/**
+ * Restore a quantizer written by VectorQuantizer.write()
+ * @throws Error if the quantizer section is invalid
+ */
+export function readQuantizer(reader: ByteReader): VectorQuantizer {
+  const code = reader.u8();
+  if (code === QUANTIZATION_CODES.float32) return new Float32Quantizer(reader.u32());
+  if (code === QUANTIZATION_CODES.int8) return ScalarQuantizer.read(reader);
+  if (code === QUANTIZATION_CODES.pq) return ProductQuantizer.read(reader);
+  throw new Error(`Unknown vector quantization ${code}`);
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests live next to the modules they cover; vite.config.ts is rooted at client/
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["client/src/**/*.test.ts", "shared/**/*.test.ts", "server/**/*.test.ts"],
+    environment: "node",
+  },
+});